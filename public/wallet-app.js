@@ -22,7 +22,18 @@ const CHAIN_CONFIGS = {
     'polygon': { chainId: '0x89', name: 'Polygon', explorer: 'https://polygonscan.com' },
     'zksync': { chainId: '0x144', name: 'zkSync Era', explorer: 'https://explorer.zksync.io' },
     'linea': { chainId: '0xe708', name: 'Linea', explorer: 'https://lineascan.build' },
-    'unichain': { chainId: '0x82', name: 'Unichain', explorer: 'https://unichain.org' }
+    'unichain': { chainId: '0x82', name: 'Unichain', explorer: 'https://uniscan.xyz' },
+    'sepolia': { chainId: '0xaa36a7', name: 'Sepolia', explorer: 'https://sepolia.etherscan.io' },
+    'holesky': { chainId: '0x4268', name: 'Holesky', explorer: 'https://holesky.etherscan.io' },
+    'base-sepolia': { chainId: '0x14a34', name: 'Base Sepolia', explorer: 'https://sepolia.basescan.org' },
+    'arbitrum-sepolia': { chainId: '0x66eee', name: 'Arbitrum Sepolia', explorer: 'https://sepolia.arbiscan.io' },
+    'optimism-sepolia': { chainId: '0xaa37dc', name: 'OP Sepolia', explorer: 'https://sepolia-optimism.etherscan.io' },
+    'polygon-amoy': { chainId: '0x13882', name: 'Polygon Amoy', explorer: 'https://amoy.polygonscan.com' },
+    'avalanche-fuji': { chainId: '0xa869', name: 'Avalanche Fuji', explorer: 'https://testnet.snowtrace.io' },
+    'bnb-testnet': { chainId: '0x61', name: 'BNB Testnet', explorer: 'https://testnet.bscscan.com' },
+    'linea-sepolia': { chainId: '0xe705', name: 'Linea Sepolia', explorer: 'https://sepolia.lineascan.build' },
+    'zksync-sepolia': { chainId: '0x12c', name: 'zkSync Sepolia', explorer: 'https://sepolia.explorer.zksync.io' },
+    'unichain-sepolia': { chainId: '0x515', name: 'Unichain Sepolia', explorer: 'https://sepolia.uniscan.xyz' }
 };
 
 // Transaction History Manager
@@ -430,7 +441,10 @@ async function switchToChain(chainName) {
                     params: [{
                         chainId: targetChain.chainId,
                         chainName: targetChain.name,
-                        // Let wallet use its default RPC
+                        // Built-in chains let the wallet use its default RPC; custom chains bring their own
+                        ...(targetChain.rpcUrls && { rpcUrls: targetChain.rpcUrls }),
+                        ...(targetChain.nativeCurrency && { nativeCurrency: targetChain.nativeCurrency }),
+                        ...(targetChain.explorer && targetChain.rpcUrls && { blockExplorerUrls: [targetChain.explorer] }),
                     }],
                 });
                 log(`Added ${targetChain.name}`, 'success');
@@ -482,7 +496,98 @@ function renderTransactionPreview(request) {
         </div>`;
     }
 
+    if (request.type === 'send_transaction' && state.account) {
+        html += `<div id="assetPreview" class="tx-param">
+            <span class="tx-param-name">Expected changes:</span>
+            <span class="tx-param-value">Simulating...</span>
+        </div>`;
+    }
+
     details.innerHTML = html;
+
+    if (request.type === 'send_transaction' && state.account) {
+        loadAssetPreview(request);
+    }
+}
+
+// Token symbols and revert reasons come from contracts; never render them as markup
+function escapeHtml(value) {
+    return String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function shortAddress(address) {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+}
+
+function formatAsset(change, amount, formatted) {
+    const symbol = escapeHtml(change.symbol || (change.token ? shortAddress(change.token) : 'ETH'));
+    if (change.standard === 'erc721') return `${symbol} #${escapeHtml(change.tokenId)}`;
+    const value = escapeHtml(formatted ?? amount);
+    return change.tokenId !== undefined ? `${value} ${symbol} #${escapeHtml(change.tokenId)}` : `${value} ${symbol}`;
+}
+
+function describeApproval(approval) {
+    const spender = shortAddress(approval.spender);
+    if (approval.kind === 'operator') {
+        const collection = escapeHtml(approval.symbol || shortAddress(approval.token));
+        return approval.approved
+            ? `<span class="asset-out">Allow ${spender} to transfer ALL your ${collection}</span>`
+            : `Revoke ${spender} as operator of ${collection}`;
+    }
+    if (approval.kind === 'erc721') {
+        return `Allow ${spender} to transfer ${formatAsset({ ...approval, standard: 'erc721' })}`;
+    }
+    if (approval.amount === '0') {
+        return `Revoke ${spender}'s ${escapeHtml(approval.symbol || shortAddress(approval.token))} allowance`;
+    }
+    const amount = approval.unlimited
+        ? `UNLIMITED ${escapeHtml(approval.symbol || shortAddress(approval.token))}`
+        : formatAsset(approval, approval.amount, approval.amountFormatted);
+    return `<span class="${approval.unlimited ? 'asset-out' : ''}">Allow ${spender} to spend ${amount}</span>`;
+}
+
+// Simulate the pending transaction from the connected account and show what it would move
+async function loadAssetPreview(request) {
+    const render = (html) => {
+        const target = document.getElementById('assetPreview');
+        // The preview may resolve after the request was approved, rejected or replaced
+        if (target && state.currentRequest?.id === request.id) {
+            target.querySelector('.tx-param-value').innerHTML = html;
+        }
+    };
+
+    try {
+        const response = await fetch('/preview', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ chain: request.chain, from: state.account, ...request.data })
+        });
+        const preview = await response.json();
+        if (!response.ok) {
+            render(`Preview unavailable: ${escapeHtml(preview.error)}`);
+            return;
+        }
+
+        if (!preview.success) {
+            const reason = preview.revert?.reason || 'execution reverted';
+            render(`<span class="asset-out">This transaction is expected to fail: ${escapeHtml(reason)}</span>`);
+            return;
+        }
+
+        // Only approvals the user grants; contracts called along the way approve each other too
+        const account = state.account.toLowerCase();
+        const lines = [
+            ...preview.approvals.filter((approval) => approval.owner === account).map(describeApproval),
+            ...preview.senderChanges.map((change) => {
+                const outgoing = change.delta.startsWith('-');
+                const amount = formatAsset(change, change.delta.replace('-', ''), change.deltaFormatted?.replace('-', ''));
+                return `<span class="${outgoing ? 'asset-out' : 'asset-in'}">${outgoing ? '-' : '+'}${amount}</span>`;
+            })
+        ];
+        render(lines.length > 0 ? lines.join('<br>') : 'No token or ETH changes for your account (gas fee not included)');
+    } catch (error) {
+        render(`Preview unavailable: ${escapeHtml(error.message)}`);
+    }
 }
 
 // WebSocket Connection
@@ -642,7 +747,21 @@ function rejectTx() {
 }
 
 // Auto-connect on load
+// Load custom chains registered in the server config
+async function loadCustomChains() {
+    try {
+        const response = await fetch('/chains');
+        if (response.ok) {
+            Object.assign(CHAIN_CONFIGS, await response.json());
+        }
+    } catch (error) {
+        console.error('Failed to load custom chains:', error);
+    }
+}
+
 window.addEventListener('load', async () => {
+    await loadCustomChains();
+
     // Determine which provider to use
     let availableProvider = null;
     if (window.rabby) {
@@ -0,0 +1,252 @@
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile, rename } from 'fs/promises'
+import { homedir } from 'os'
+import { join, resolve } from 'path'
+import type { CacheSettings } from './types.js'
+
+// Pluggable key/value cache. Keys are "<namespace>:<id>" strings, e.g. "1:0xabc..." (chainId:address)
+export interface CacheStore<T> {
+  get(key: string): Promise<T | undefined>
+  set(key: string, value: T): Promise<void>
+  delete(key: string): Promise<boolean>
+  // Remove every entry, or only entries whose key starts with `prefix`. Returns the number removed
+  clear(prefix?: string): Promise<number>
+  stats(): Promise<{ type: string; entries: number; sizeBytes: number; maxSizeBytes?: number; directory?: string }>
+}
+
+export const DEFAULT_CACHE_DIRECTORY = join(homedir(), '.cache', 'web3-tools-mcp')
+
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  private entries: Map<string, T> = new Map()
+
+  async get(key: string): Promise<T | undefined> {
+    return this.entries.get(key)
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.entries.set(key, value)
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key)
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    let removed = 0
+    for (const key of [...this.entries.keys()]) {
+      if (!prefix || key.startsWith(prefix)) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  async stats() {
+    return { type: 'memory', entries: this.entries.size, sizeBytes: 0 }
+  }
+}
+
+interface FileIndexEntry {
+  path: string
+  size: number
+  lastAccess: number
+}
+
+// Stores one JSON file per key under <directory>/<namespace>/<id>.json and evicts
+// least recently used files once the directory grows beyond maxSizeBytes
+export class FileSystemCacheStore<T> implements CacheStore<T> {
+  private directory: string
+  private maxSizeBytes: number
+  private index: Map<string, FileIndexEntry> | null = null
+
+  constructor(directory: string, maxSizeBytes = 256 * 1024 * 1024) {
+    this.directory = resolve(directory)
+    this.maxSizeBytes = maxSizeBytes
+  }
+
+  private pathFor(key: string): string {
+    const separator = key.indexOf(':')
+    const namespace = separator === -1 ? '_' : key.slice(0, separator)
+    const id = separator === -1 ? key : key.slice(separator + 1)
+    return join(this.directory, sanitize(namespace), `${sanitize(id)}.json`)
+  }
+
+  // Build the in-memory size/recency index from disk on first use
+  private async loadIndex(): Promise<Map<string, FileIndexEntry>> {
+    if (this.index) return this.index
+
+    const index = new Map<string, FileIndexEntry>()
+    let namespaces: string[] = []
+    try {
+      namespaces = await readdir(this.directory)
+    } catch {
+      // Directory does not exist yet
+    }
+
+    for (const namespace of namespaces) {
+      let files: string[] = []
+      try {
+        files = await readdir(join(this.directory, namespace))
+      } catch {
+        continue
+      }
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue
+        const path = join(this.directory, namespace, file)
+        try {
+          const info = await stat(path)
+          index.set(`${namespace}:${file.slice(0, -5)}`, { path, size: info.size, lastAccess: info.mtimeMs })
+        } catch {
+          // File disappeared while scanning
+        }
+      }
+    }
+
+    this.index = index
+    return index
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const path = this.pathFor(key)
+    try {
+      const value = JSON.parse(await readFile(path, 'utf8')) as T
+      const index = await this.loadIndex()
+      const entry = index.get(normalizeKey(key))
+      const now = Date.now()
+      if (entry) entry.lastAccess = now
+      // Touch the file so recency survives restarts
+      await utimes(path, now / 1000, now / 1000).catch(() => undefined)
+      return value
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const path = this.pathFor(key)
+    const body = JSON.stringify(value)
+    await mkdir(join(path, '..'), { recursive: true })
+
+    // Write atomically so a crash never leaves a truncated entry behind
+    const tempPath = `${path}.${process.pid}.tmp`
+    await writeFile(tempPath, body)
+    await rename(tempPath, path)
+
+    const index = await this.loadIndex()
+    index.set(normalizeKey(key), { path, size: Buffer.byteLength(body), lastAccess: Date.now() })
+    await this.evict()
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const index = await this.loadIndex()
+    const existed = index.delete(normalizeKey(key))
+    await rm(this.pathFor(key), { force: true })
+    return existed
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    const index = await this.loadIndex()
+    const normalizedPrefix = prefix ? normalizeKey(prefix) : undefined
+    let removed = 0
+    for (const [key, entry] of [...index.entries()]) {
+      if (!normalizedPrefix || key.startsWith(normalizedPrefix)) {
+        await rm(entry.path, { force: true })
+        index.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  async stats() {
+    const index = await this.loadIndex()
+    let sizeBytes = 0
+    for (const entry of index.values()) sizeBytes += entry.size
+    return {
+      type: 'filesystem',
+      entries: index.size,
+      sizeBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      directory: this.directory
+    }
+  }
+
+  private async evict() {
+    const index = await this.loadIndex()
+    let total = 0
+    for (const entry of index.values()) total += entry.size
+    if (total <= this.maxSizeBytes) return
+
+    const oldestFirst = [...index.entries()].sort(([, a], [, b]) => a.lastAccess - b.lastAccess)
+    for (const [key, entry] of oldestFirst) {
+      if (total <= this.maxSizeBytes) break
+      await rm(entry.path, { force: true })
+      index.delete(key)
+      total -= entry.size
+    }
+  }
+}
+
+// Memory cache in front of a persistent store, so hot entries skip disk reads
+export class TieredCacheStore<T> implements CacheStore<T> {
+  private memory = new MemoryCacheStore<T>()
+  private persistent: CacheStore<T>
+
+  constructor(persistent: CacheStore<T>) {
+    this.persistent = persistent
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const cached = await this.memory.get(key)
+    if (cached !== undefined) return cached
+
+    const stored = await this.persistent.get(key)
+    if (stored !== undefined) {
+      await this.memory.set(key, stored)
+    }
+    return stored
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.memory.set(key, value)
+    await this.persistent.set(key, value)
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const inMemory = await this.memory.delete(key)
+    const persisted = await this.persistent.delete(key)
+    return inMemory || persisted
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    const inMemory = await this.memory.clear(prefix)
+    const persisted = await this.persistent.clear(prefix)
+    return Math.max(inMemory, persisted)
+  }
+
+  async stats() {
+    return this.persistent.stats()
+  }
+}
+
+// Create a cache from settings: in-memory by default, memory + filesystem when configured
+export function createCacheStore<T>(settings: CacheSettings = {}, subdirectory = 'contracts'): CacheStore<T> {
+  if (settings.type !== 'filesystem' && !settings.directory) {
+    return new MemoryCacheStore<T>()
+  }
+
+  const directory = join(settings.directory ?? DEFAULT_CACHE_DIRECTORY, subdirectory)
+  const maxSizeBytes = settings.maxSizeMb !== undefined ? settings.maxSizeMb * 1024 * 1024 : undefined
+  return new TieredCacheStore<T>(new FileSystemCacheStore<T>(directory, maxSizeBytes))
+}
+
+// Keys are case-insensitive (addresses) and stored with filesystem-safe characters
+function normalizeKey(key: string): string {
+  const separator = key.indexOf(':')
+  if (separator === -1) return `_:${sanitize(key)}`
+  return `${sanitize(key.slice(0, separator))}:${sanitize(key.slice(separator + 1))}`
+}
+
+function sanitize(part: string): string {
+  return part.toLowerCase().replace(/[^a-z0-9_-]/g, '_')
+}
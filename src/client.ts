@@ -1,28 +1,51 @@
-import { http, createPublicClient } from 'viem'
+import { type Address, type BlockTag, type Chain, createPublicClient, defineChain, type Hex } from 'viem'
 import {
   arbitrum,
+  arbitrumSepolia,
   avalanche,
+  avalancheFuji,
   base,
+  baseSepolia,
   bsc,
+  bscTestnet,
   gnosis,
+  holesky,
   linea,
+  lineaSepolia,
   localhost,
   mainnet,
   optimism,
+  optimismSepolia,
   polygon,
+  polygonAmoy,
+  sepolia,
   sonic,
   unichain,
-  zksync
+  unichainSepolia,
+  zksync,
+  zksyncSepoliaTestnet
 } from 'viem/chains'
-import type { ChainName, Config } from './types.js'
+import { probeEndpoints, rankedTransport, RpcHealthTracker } from './rpc-health.js'
+import type { BuiltinChainName, ChainName, ChainSettings, Config, SignerSettings } from './types.js'
 
-// Enhanced RPC configuration with API keys
-function getRpcUrl(chainName: string, config: Config): string {
-  // Check for custom RPC URLs first
-  if (config.customRpcUrls?.[chainName]) {
-    return config.customRpcUrls[chainName]
+// Ordered RPC list for a chain: --custom-rpc first, then config file entries, then the default endpoint.
+// Chains registered at runtime (the anvil fork) only use their own endpoint
+function getRpcUrls(chainName: string, config: Config): string[] {
+  const dynamic = dynamicRpcUrls.get(chainName)
+  if (dynamic) {
+    return dynamic
+  }
+  const urls = [config.customRpcUrls?.[chainName], ...(config.chains?.[chainName]?.rpc ?? [])].filter(
+    (url): url is string => Boolean(url)
+  )
+  if (urls.length > 0) {
+    return [...new Set(urls)]
   }
+  return [getDefaultRpcUrl(chainName, config)]
+}
 
+// Enhanced RPC configuration with API keys
+function getDefaultRpcUrl(chainName: string, config: Config): string {
   // Enhanced RPC URLs with API keys
   const enhancedRpcs: Record<string, string> = {
     mainnet: config.alchemyApiKey
@@ -89,6 +112,71 @@ function getRpcUrl(chainName: string, config: Config): string {
       ? `https://unichain-mainnet.g.alchemy.com/v2/${config.alchemyApiKey}`
       : config.infuraApiKey
         ? `https://unichain-mainnet.infura.io/v3/${config.infuraApiKey}`
+        : 'https://mainnet.unichain.org',
+
+    // Testnets
+    sepolia: config.alchemyApiKey
+      ? `https://eth-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://sepolia.infura.io/v3/${config.infuraApiKey}`
+        : 'https://ethereum-sepolia-rpc.publicnode.com',
+
+    holesky: config.alchemyApiKey
+      ? `https://eth-holesky.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://holesky.infura.io/v3/${config.infuraApiKey}`
+        : 'https://ethereum-holesky-rpc.publicnode.com',
+
+    'base-sepolia': config.alchemyApiKey
+      ? `https://base-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://base-sepolia.infura.io/v3/${config.infuraApiKey}`
+        : 'https://sepolia.base.org',
+
+    'arbitrum-sepolia': config.alchemyApiKey
+      ? `https://arb-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://arbitrum-sepolia.infura.io/v3/${config.infuraApiKey}`
+        : 'https://sepolia-rollup.arbitrum.io/rpc',
+
+    'optimism-sepolia': config.alchemyApiKey
+      ? `https://opt-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://optimism-sepolia.infura.io/v3/${config.infuraApiKey}`
+        : 'https://sepolia.optimism.io',
+
+    'polygon-amoy': config.alchemyApiKey
+      ? `https://polygon-amoy.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://polygon-amoy.infura.io/v3/${config.infuraApiKey}`
+        : 'https://rpc-amoy.polygon.technology',
+
+    'avalanche-fuji': config.alchemyApiKey
+      ? `https://avax-fuji.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://avalanche-fuji.infura.io/v3/${config.infuraApiKey}`
+        : 'https://api.avax-test.network/ext/bc/C/rpc',
+
+    'bnb-testnet': config.alchemyApiKey
+      ? `https://bnb-testnet.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : 'https://bsc-testnet-rpc.publicnode.com',
+
+    'linea-sepolia': config.alchemyApiKey
+      ? `https://linea-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://linea-sepolia.infura.io/v3/${config.infuraApiKey}`
+        : 'https://rpc.sepolia.linea.build',
+
+    'zksync-sepolia': config.alchemyApiKey
+      ? `https://zksync-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://zksync-sepolia.infura.io/v3/${config.infuraApiKey}`
+        : 'https://sepolia.era.zksync.dev',
+
+    'unichain-sepolia': config.alchemyApiKey
+      ? `https://unichain-sepolia.g.alchemy.com/v2/${config.alchemyApiKey}`
+      : config.infuraApiKey
+        ? `https://unichain-sepolia.infura.io/v3/${config.infuraApiKey}`
         : 'https://sepolia.unichain.org',
 
     localhost: 'http://localhost:8545'
@@ -97,87 +185,64 @@ function getRpcUrl(chainName: string, config: Config): string {
   return enhancedRpcs[chainName] ?? 'https://eth.llamarpc.com'
 }
 
+// Built-in chain definitions
+const BUILTIN_CHAIN_DEFINITIONS: Record<BuiltinChainName, Chain> = {
+  mainnet,
+  base,
+  arbitrum,
+  polygon,
+  optimism,
+  avalanche,
+  bnb: bsc,
+  gnosis,
+  sonic,
+  zksync,
+  linea,
+  unichain,
+  sepolia,
+  holesky,
+  'base-sepolia': baseSepolia,
+  'arbitrum-sepolia': arbitrumSepolia,
+  'optimism-sepolia': optimismSepolia,
+  'polygon-amoy': polygonAmoy,
+  'avalanche-fuji': avalancheFuji,
+  'bnb-testnet': bscTestnet,
+  'linea-sepolia': lineaSepolia,
+  'zksync-sepolia': zksyncSepoliaTestnet,
+  'unichain-sepolia': unichainSepolia,
+  localhost
+}
+
+// Chains defined or adjusted by the config file (custom chains and built-in overrides)
+const registeredChains = new Map<ChainName, Chain>()
+
+// RPC endpoints of chains registered at runtime by registerDynamicChain
+const dynamicRpcUrls = new Map<ChainName, string[]>()
+
+export interface ChainEntry {
+  chain: Chain
+  readonly rpc: string
+  readonly rpcs: string[]
+}
+
 // Supported chains with their RPC endpoints (now dynamic)
-export const CHAINS = (config: Config) => ({
-  mainnet: {
-    chain: mainnet,
-    get rpc() {
-      return getRpcUrl('mainnet', config)
-    }
-  },
-  base: {
-    chain: base,
-    get rpc() {
-      return getRpcUrl('base', config)
-    }
-  },
-  arbitrum: {
-    chain: arbitrum,
-    get rpc() {
-      return getRpcUrl('arbitrum', config)
-    }
-  },
-  polygon: {
-    chain: polygon,
-    get rpc() {
-      return getRpcUrl('polygon', config)
-    }
-  },
-  optimism: {
-    chain: optimism,
-    get rpc() {
-      return getRpcUrl('optimism', config)
-    }
-  },
-  avalanche: {
-    chain: avalanche,
-    get rpc() {
-      return getRpcUrl('avalanche', config)
-    }
-  },
-  bnb: {
-    chain: bsc,
-    get rpc() {
-      return getRpcUrl('bnb', config)
-    }
-  },
-  gnosis: {
-    chain: gnosis,
-    get rpc() {
-      return getRpcUrl('gnosis', config)
-    }
-  },
-  sonic: {
-    chain: sonic,
-    get rpc() {
-      return getRpcUrl('sonic', config)
-    }
-  },
-  zksync: {
-    chain: zksync,
-    get rpc() {
-      return getRpcUrl('zksync', config)
-    }
-  },
-  linea: {
-    chain: linea,
-    get rpc() {
-      return getRpcUrl('linea', config)
-    }
-  },
-  unichain: {
-    chain: unichain,
-    get rpc() {
-      return getRpcUrl('unichain', config)
-    }
-  },
-  localhost: {
-    chain: localhost,
-    get rpc() {
-      return getRpcUrl('localhost', config)
-    }
-  }
-})
+export const CHAINS = (config: Config): Partial<Record<ChainName, ChainEntry>> => {
+  const definitions: Record<ChainName, Chain> = { ...BUILTIN_CHAIN_DEFINITIONS, ...Object.fromEntries(registeredChains) }
+  return Object.fromEntries(
+    Object.entries(definitions).map(([chainName, chain]) => [
+      chainName,
+      {
+        chain,
+        get rpc() {
+          return getRpcUrls(chainName, config)[0]
+        },
+        get rpcs() {
+          return getRpcUrls(chainName, config)
+        }
+      }
+    ])
+  )
+}
 
 // Hypersync URLs for supported chains (localhost is not supported)
 export const HYPERSYNC_URLS: Partial<Record<ChainName, string>> = {
@@ -192,11 +257,19 @@ export const HYPERSYNC_URLS: Partial<Record<ChainName, string>> = {
   polygon: 'https://polygon.hypersync.xyz', // Chain ID 137
   zksync: 'https://zksync.hypersync.xyz', // Chain ID 324
   linea: 'https://linea.hypersync.xyz', // Chain ID 59144
-  unichain: 'https://unichain.hypersync.xyz' // Chain ID 130
-  // localhost is not supported by hypersync
+  unichain: 'https://unichain.hypersync.xyz', // Chain ID 130
+  sepolia: 'https://sepolia.hypersync.xyz', // Chain ID 11155111
+  holesky: 'https://holesky.hypersync.xyz', // Chain ID 17000
+  'base-sepolia': 'https://base-sepolia.hypersync.xyz', // Chain ID 84532
+  'arbitrum-sepolia': 'https://arbitrum-sepolia.hypersync.xyz', // Chain ID 421614
+  'optimism-sepolia': 'https://optimism-sepolia.hypersync.xyz', // Chain ID 11155420
+  'polygon-amoy': 'https://polygon-amoy.hypersync.xyz', // Chain ID 80002
+  'bnb-testnet': 'https://bsc-testnet.hypersync.xyz', // Chain ID 97
+  'unichain-sepolia': 'https://unichain-sepolia.hypersync.xyz' // Chain ID 1301
+  // localhost, avalanche-fuji, linea-sepolia and zksync-sepolia are not supported by hypersync
 }
 
-export const SUPPORTED_CHAINS = [
+export const BUILTIN_CHAINS = [
   'mainnet',
   'arbitrum',
   'avalanche',
@@ -209,12 +282,91 @@ export const SUPPORTED_CHAINS = [
   'zksync',
   'linea',
   'unichain',
+  'sepolia',
+  'holesky',
+  'base-sepolia',
+  'arbitrum-sepolia',
+  'optimism-sepolia',
+  'polygon-amoy',
+  'avalanche-fuji',
+  'bnb-testnet',
+  'linea-sepolia',
+  'zksync-sepolia',
+  'unichain-sepolia',
   'localhost'
-] as const
+] as const satisfies readonly BuiltinChainName[]
+
+// Chain name of the local anvil fork started by start_fork. It is accepted by every tool from startup
+// (tool schemas are built once) and resolves to a chain only while a fork is running
+export const FORK_CHAIN = 'fork'
+
+// All chain names accepted by the tools; custom chains are appended by registerCustomChains
+export const SUPPORTED_CHAINS: [ChainName, ...ChainName[]] = [...BUILTIN_CHAINS, FORK_CHAIN]
+
+export function isBuiltinChain(chainName: string): chainName is BuiltinChainName {
+  return (BUILTIN_CHAINS as readonly string[]).includes(chainName)
+}
+
+// Build a viem chain for a custom chain entry from the config file
+function defineCustomChain(chainName: string, settings: ChainSettings): Chain {
+  if (settings.chainId === undefined) {
+    throw new Error(`Custom chain "${chainName}" requires a chainId`)
+  }
+  if (!settings.rpc || settings.rpc.length === 0) {
+    throw new Error(`Custom chain "${chainName}" requires at least one rpc URL`)
+  }
+
+  return defineChain({
+    id: settings.chainId,
+    name: settings.name ?? chainName,
+    nativeCurrency: settings.nativeCurrency ?? { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: settings.rpc } },
+    blockExplorers: settings.explorerUrl
+      ? { default: { name: 'Explorer', url: settings.explorerUrl, apiUrl: settings.explorerApiUrl } }
+      : undefined,
+    contracts: settings.multicall3 ? { multicall3: { address: settings.multicall3 as Address } } : undefined,
+    testnet: settings.testnet
+  })
+}
+
+// Custom chains registered from config (built-in chain overrides and the fork are excluded)
+export function getCustomChains(): Array<{ name: ChainName; chain: Chain }> {
+  return [...registeredChains.entries()]
+    .filter(([name]) => !isBuiltinChain(name) && !dynamicRpcUrls.has(name))
+    .map(([name, chain]) => ({ name, chain }))
+}
+
+// Register custom chains (and Multicall3 / Hypersync overrides of built-in chains) from config.
+// Must run before the tool modules are imported so their chain enums include the custom names.
+export function registerCustomChains(config: Config) {
+  for (const [chainName, settings] of Object.entries(config.chains ?? {})) {
+    if (isBuiltinChain(chainName)) {
+      if (settings.multicall3) {
+        const chain = BUILTIN_CHAIN_DEFINITIONS[chainName]
+        registeredChains.set(chainName, {
+          ...chain,
+          contracts: { ...chain.contracts, multicall3: { address: settings.multicall3 as Address } }
+        })
+      }
+    } else {
+      registeredChains.set(chainName, defineCustomChain(chainName, settings))
+      if (!SUPPORTED_CHAINS.includes(chainName)) {
+        SUPPORTED_CHAINS.push(chainName)
+      }
+    }
+
+    if (settings.hypersyncUrl) {
+      HYPERSYNC_URLS[chainName] = settings.hypersyncUrl
+    }
+  }
+}
+
+const BLOCK_TAGS: readonly BlockTag[] = ['latest', 'safe', 'finalized', 'pending', 'earliest']
 
 // Client manager
 export class ClientManager {
   private clients: Map<ChainName, unknown> = new Map()
+  private healthTrackers: Map<ChainName, RpcHealthTracker> = new Map()
   private config: Config
 
   constructor(config: Config) {
@@ -223,11 +375,10 @@ export class ClientManager {
 
   getClient(chainName: ChainName) {
     if (!this.clients.has(chainName)) {
-      const chains = CHAINS(this.config)
-      const { chain, rpc } = chains[chainName]
+      const { chain } = this.getChainEntry(chainName)
       const client = createPublicClient({
         chain,
-        transport: http(rpc)
+        transport: rankedTransport(this.getHealthTracker(chainName))
       })
       this.clients.set(chainName, client)
     }
@@ -238,23 +389,158 @@ export class ClientManager {
     return client as ReturnType<typeof createPublicClient>
   }
 
+  getChainEntry(chainName: ChainName): ChainEntry {
+    const entry = CHAINS(this.config)[chainName]
+    if (!entry && chainName === FORK_CHAIN) {
+      throw new Error(`No fork is running. Start one with start_fork to use the "${FORK_CHAIN}" chain`)
+    }
+    if (!entry) {
+      throw new Error(`Unsupported chain: ${chainName}. Supported chains: ${SUPPORTED_CHAINS.join(', ')}`)
+    }
+    return entry
+  }
+
+  // Add a chain served by a local process (the anvil fork), replacing any previous client for the name
+  registerDynamicChain(chainName: ChainName, chain: Chain, rpcUrls: string[]) {
+    registeredChains.set(chainName, chain)
+    dynamicRpcUrls.set(chainName, rpcUrls)
+    this.clients.delete(chainName)
+    this.healthTrackers.delete(chainName)
+  }
+
+  unregisterDynamicChain(chainName: ChainName) {
+    registeredChains.delete(chainName)
+    dynamicRpcUrls.delete(chainName)
+    this.clients.delete(chainName)
+    this.healthTrackers.delete(chainName)
+  }
+
+  // Settings the client was created with, for modules that read their own section (cache, providers, API keys)
+  getConfig(): Readonly<Config> {
+    return this.config
+  }
+
+  // anvil binary used for local forks
+  getAnvilPath(): string {
+    return this.config.anvil?.path ?? 'anvil'
+  }
+
+  // Dev chains send transactions through the node (or a dev key) instead of the browser wallet
+  isDevChain(chainName: ChainName): boolean {
+    return (this.config.devSigner?.chains ?? ['localhost', FORK_CHAIN]).includes(chainName)
+  }
+
+  getDevPrivateKey(): Hex | undefined {
+    return this.config.devSigner?.privateKey as Hex | undefined
+  }
+
+  getSignerSettings(): SignerSettings | undefined {
+    return this.config.signer
+  }
+
+  getChainId(chainName: ChainName): number {
+    return this.getChainEntry(chainName).chain.id
+  }
+
+  // Health tracker for the chain's RPC endpoints (shared by the client's transport)
+  getHealthTracker(chainName: ChainName): RpcHealthTracker {
+    let tracker = this.healthTrackers.get(chainName)
+    if (!tracker) {
+      const { rpcs } = this.getChainEntry(chainName)
+      tracker = new RpcHealthTracker(rpcs, { maxBlockLag: this.config.chains?.[chainName]?.maxBlockLag })
+      this.healthTrackers.set(chainName, tracker)
+    }
+    return tracker
+  }
+
+  // Ping every endpoint of a chain to refresh latency and head block stats
+  async probeRpcHealth(chainName: ChainName) {
+    const tracker = this.getHealthTracker(chainName)
+    await probeEndpoints(tracker, this.getChainEntry(chainName).chain)
+    return tracker.getStats()
+  }
+
+  // Default block tag for reads that don't pin a block number
+  getDefaultBlockTag(chainName: ChainName): BlockTag {
+    return this.config.chains?.[chainName]?.defaultBlockTag ?? this.config.defaultBlockTag ?? 'latest'
+  }
+
+  // Block selector for viem read actions: an explicit block number or tag wins, otherwise the configured default tag
+  getBlockParameter(
+    chainName: ChainName,
+    blockNumber?: string | bigint
+  ): { blockNumber: bigint; blockTag?: undefined } | { blockNumber?: undefined; blockTag: BlockTag } {
+    if (blockNumber === undefined || blockNumber === '') {
+      return { blockTag: this.getDefaultBlockTag(chainName) }
+    }
+    if (typeof blockNumber === 'string' && BLOCK_TAGS.includes(blockNumber as BlockTag)) {
+      return { blockTag: blockNumber as BlockTag }
+    }
+    return { blockNumber: BigInt(blockNumber) }
+  }
+
   getEtherscanDomain(chainName: ChainName): string {
-    const domains: Record<ChainName, string> = {
-      mainnet: 'etherscan.io',
-      base: 'basescan.org',
-      arbitrum: 'arbiscan.io',
-      polygon: 'polygonscan.com',
-      optimism: 'optimistic.etherscan.io',
-      avalanche: 'snowtrace.io',
-      bnb: 'bscscan.com',
-      gnosis: 'gnosisscan.io',
-      sonic: 'sonicscan.org',
-      zksync: 'era.zksync.network',
-      linea: 'lineascan.build',
-      unichain: 'uniscan.xyz',
+    const explorerUrl = this.config.chains?.[chainName]?.explorerUrl
+    if (explorerUrl) {
+      return new URL(explorerUrl).host
+    }
+
+    // Explorer domains; the API itself is the unified Etherscan v2 endpoint keyed by chain ID
+    const domains: Record<BuiltinChainName, string> = {
+      mainnet: 'etherscan.io', // Chain ID 1
+      base: 'basescan.org', // Chain ID 8453
+      arbitrum: 'arbiscan.io', // Chain ID 42161
+      polygon: 'polygonscan.com', // Chain ID 137
+      optimism: 'optimistic.etherscan.io', // Chain ID 10
+      avalanche: 'snowtrace.io', // Chain ID 43114
+      bnb: 'bscscan.com', // Chain ID 56
+      gnosis: 'gnosisscan.io', // Chain ID 100
+      sonic: 'sonicscan.org', // Chain ID 146
+      zksync: 'era.zksync.network', // Chain ID 324
+      linea: 'lineascan.build', // Chain ID 59144
+      unichain: 'uniscan.xyz', // Chain ID 130
+      sepolia: 'sepolia.etherscan.io', // Chain ID 11155111
+      holesky: 'holesky.etherscan.io', // Chain ID 17000
+      'base-sepolia': 'sepolia.basescan.org', // Chain ID 84532
+      'arbitrum-sepolia': 'sepolia.arbiscan.io', // Chain ID 421614
+      'optimism-sepolia': 'sepolia-optimism.etherscan.io', // Chain ID 11155420
+      'polygon-amoy': 'amoy.polygonscan.com', // Chain ID 80002
+      'avalanche-fuji': 'testnet.snowtrace.io', // Chain ID 43113
+      'bnb-testnet': 'testnet.bscscan.com', // Chain ID 97
+      'linea-sepolia': 'sepolia.lineascan.build', // Chain ID 59141
+      'zksync-sepolia': 'sepolia-era.zksync.network', // Chain ID 300
+      'unichain-sepolia': 'sepolia.uniscan.xyz', // Chain ID 1301
       localhost: 'etherscan.io'
     }
-    return domains[chainName] || 'etherscan.io'
+    return isBuiltinChain(chainName) ? domains[chainName] : 'etherscan.io'
+  }
+
+  // Explorer web UI base URL, or null for chains without a public explorer (e.g. localhost)
+  getExplorerUrl(chainName: ChainName): string | null {
+    const explorerUrl = this.config.chains?.[chainName]?.explorerUrl
+    if (explorerUrl) {
+      return explorerUrl.replace(/\/$/, '')
+    }
+    if (chainName === 'localhost' || !isBuiltinChain(chainName)) {
+      return null
+    }
+    return `https://${this.getEtherscanDomain(chainName)}`
+  }
+
+  getExplorerType(chainName: ChainName): 'etherscan' | 'blockscout' {
+    return this.config.chains?.[chainName]?.explorerType ?? 'etherscan'
+  }
+
+  // Explorer API endpoint: the Etherscan v2 endpoint, or "<explorerUrl>/api" for Blockscout explorers
+  getExplorerApiUrl(chainName: ChainName): string {
+    const settings = this.config.chains?.[chainName]
+    if (settings?.explorerApiUrl) {
+      return settings.explorerApiUrl.replace(/\/$/, '')
+    }
+    if (settings?.explorerType === 'blockscout' && settings.explorerUrl) {
+      return `${settings.explorerUrl.replace(/\/$/, '')}/api`
+    }
+    return 'https://api.etherscan.io/v2/api'
   }
 }
 
@@ -262,6 +548,7 @@ export class ClientManager {
 let clientManager: ClientManager | null = null
 
 export function initializeClientManager(config: Config): ClientManager {
+  registerCustomChains(config)
   clientManager = new ClientManager(config)
   return clientManager
 }
@@ -0,0 +1,312 @@
+import { readFileSync } from 'fs'
+import { extname, resolve } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import { BUILTIN_CHAINS, FORK_CHAIN, isBuiltinChain } from './client.js'
+
+const BlockTagSchema = z.enum(['latest', 'safe', 'finalized', 'pending', 'earliest'])
+
+const ContractProviderSchema = z.enum(['etherscan', 'sourcify', 'blockscout'])
+
+const DecimalAmountSchema = z.string().regex(/^\d+(\.\d+)?$/, 'must be a decimal amount such as "0.5"')
+
+const RpcListSchema = z
+  .union([z.string().url(), z.array(z.string().url()).min(1, 'must contain at least one RPC URL')])
+  .transform((value) => (Array.isArray(value) ? value : [value]))
+
+// Per-chain overrides, keyed by chain name (e.g. "mainnet", "base").
+// An entry whose name is not a built-in chain defines a custom chain and must set chainId and rpc.
+const ChainSettingsSchema = z
+  .object({
+    rpc: RpcListSchema.optional(),
+    defaultBlockTag: BlockTagSchema.optional(),
+    maxBlockLag: z.number().int().min(0).optional(),
+    chainId: z.number().int().positive().optional(),
+    name: z.string().min(1).optional(),
+    nativeCurrency: z
+      .object({
+        name: z.string().min(1),
+        symbol: z.string().min(1),
+        decimals: z.number().int().min(0).max(36)
+      })
+      .strict()
+      .optional(),
+    explorerUrl: z.string().url().optional(),
+    explorerApiUrl: z.string().url().optional(),
+    // "blockscout" reads contracts and transactions from the Blockscout API at explorerUrl (or explorerApiUrl)
+    explorerType: z.enum(['etherscan', 'blockscout']).optional(),
+    contractProviders: z.array(ContractProviderSchema).min(1).optional(),
+    multicall3: z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{40}$/, 'must be a 20-byte hex address')
+      .optional(),
+    hypersyncUrl: z.string().url().optional(),
+    testnet: z.boolean().optional()
+  })
+  .strict()
+
+// Settings that can appear at the top level of the file or inside a profile
+const SettingsSchema = z
+  .object({
+    etherscanApiKey: z.string().min(1).optional(),
+    // Several keys are used round-robin; takes precedence over etherscanApiKey
+    etherscanApiKeys: z.array(z.string().min(1)).min(1).optional(),
+    etherscan: z
+      .object({
+        requestsPerSecond: z.number().positive().optional(),
+        maxRetries: z.number().int().min(0).optional()
+      })
+      .strict()
+      .optional(),
+    alchemyApiKey: z.string().min(1).optional(),
+    infuraApiKey: z.string().min(1).optional(),
+    hypersyncApiKey: z.string().min(1).optional(),
+    defaultBlockTag: BlockTagSchema.optional(),
+    chains: z
+      .record(z.string(), ChainSettingsSchema)
+      .superRefine((chains, ctx) => {
+        for (const [chainName, settings] of Object.entries(chains)) {
+          if (isBuiltinChain(chainName)) {
+            for (const key of ['chainId', 'name', 'nativeCurrency', 'testnet'] as const) {
+              if (settings[key] !== undefined) {
+                ctx.addIssue({
+                  code: z.ZodIssueCode.custom,
+                  path: [chainName, key],
+                  message: `"${key}" cannot be changed for built-in chain "${chainName}"`
+                })
+              }
+            }
+            continue
+          }
+
+          if (chainName === FORK_CHAIN) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [chainName],
+              message: `"${FORK_CHAIN}" is reserved for the local fork started by start_fork`
+            })
+          }
+          if (!/^[a-z0-9][a-z0-9-]*$/.test(chainName)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [chainName],
+              message: 'Custom chain names must be lowercase letters, digits and dashes'
+            })
+          }
+        }
+      })
+      .optional(),
+    contractProviders: z.array(ContractProviderSchema).min(1).optional(),
+    sourcifyApiUrl: z.string().url().optional(),
+    cache: z
+      .object({
+        type: z.enum(['memory', 'filesystem']).optional(),
+        directory: z.string().min(1).optional(),
+        maxSizeMb: z.number().positive().optional()
+      })
+      .strict()
+      .optional(),
+    // Local fork sandbox (start_fork); path defaults to "anvil" on PATH
+    anvil: z
+      .object({
+        path: z.string().min(1).optional()
+      })
+      .strict()
+      .optional(),
+    // Chains whose transactions are sent headlessly instead of through the browser wallet
+    devSigner: z
+      .object({
+        chains: z
+          .array(
+            z
+              .string()
+              .min(1)
+              .refine((chainName) => chainName === 'localhost' || !isBuiltinChain(chainName), {
+                message: 'only localhost, fork and custom chains can use the dev signer'
+              })
+          )
+          .optional(),
+        privateKey: z
+          .string()
+          .regex(/^0x[0-9a-fA-F]{64}$/, 'must be a 32-byte hex private key')
+          .optional()
+      })
+      .strict()
+      .optional(),
+    // Local signer replacing the browser wallet; secrets are read from environment variables
+    signer: z
+      .object({
+        type: z.enum(['browser', 'keystore', 'mnemonic']),
+        keystore: z
+          .object({
+            path: z.string().min(1),
+            passwordEnv: z.string().min(1).optional()
+          })
+          .strict()
+          .optional(),
+        mnemonic: z
+          .object({
+            env: z.string().min(1).optional(),
+            accountIndex: z.number().int().min(0).optional(),
+            addressIndex: z.number().int().min(0).optional()
+          })
+          .strict()
+          .optional(),
+        signMessages: z.boolean().optional(),
+        policies: z
+          .record(
+            z.string().refine((chainName) => chainName !== FORK_CHAIN, {
+              message: `transactions signed for "${FORK_CHAIN}" are valid on the forked network; use devSigner instead`
+            }),
+            z
+              .object({
+                maxValue: DecimalAmountSchema.optional(),
+                // Counted in memory per server process, like tokenLimits.*.dailyLimit
+                dailyLimit: DecimalAmountSchema.optional(),
+                allowedAddresses: z.array(z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be an address')).optional(),
+                tokenLimits: z
+                  .record(
+                    z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be a token address'),
+                    z
+                      .object({
+                        maxAmount: DecimalAmountSchema.optional(),
+                        dailyLimit: DecimalAmountSchema.optional()
+                      })
+                      .strict()
+                  )
+                  .optional(),
+                allowContractCalls: z.boolean().optional()
+              })
+              .strict()
+          )
+          .optional()
+      })
+      .strict()
+      .refine((signer) => signer.type !== 'keystore' || signer.keystore, {
+        message: 'keystore.path is required for the keystore signer',
+        path: ['keystore']
+      })
+      .optional(),
+    transport: z.enum(['stdio', 'http']).optional(),
+    http: z
+      .object({
+        port: z.number().int().min(0).max(65535).optional(),
+        host: z.string().min(1).optional(),
+        authToken: z.string().min(1).optional(),
+        // Browser origins allowed besides localhost
+        allowedOrigins: z.array(z.string().url()).optional()
+      })
+      .strict()
+      .optional()
+  })
+  .strict()
+
+const ConfigFileSchema = SettingsSchema.extend({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(z.string(), SettingsSchema).optional()
+}).strict()
+
+export type FileSettings = z.infer<typeof SettingsSchema>
+export type ConfigFile = z.infer<typeof ConfigFileSchema>
+
+// Format zod issues as "path: message" lines so startup errors point at the offending key
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  - ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n')
+}
+
+// Parse the raw file contents as JSON or YAML depending on the extension
+function parseConfigText(path: string, text: string): unknown {
+  const extension = extname(path).toLowerCase()
+  try {
+    if (extension === '.yaml' || extension === '.yml') {
+      return parseYaml(text)
+    }
+    return JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Failed to parse config file ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+// Validate an already-parsed config object
+export function validateConfigFile(raw: unknown, source = 'config'): ConfigFile {
+  const result = ConfigFileSchema.safeParse(raw ?? {})
+  if (!result.success) {
+    throw new Error(`Invalid ${source}:\n${formatIssues(result.error)}`)
+  }
+  return result.data
+}
+
+// Merge two settings objects; chain entries are merged per chain, scalars in `override` win
+function mergeSettings(base: FileSettings, override: FileSettings): FileSettings {
+  const chains: Record<string, z.infer<typeof ChainSettingsSchema>> = { ...base.chains }
+  for (const [chainName, settings] of Object.entries(override.chains ?? {})) {
+    chains[chainName] = { ...chains[chainName], ...settings }
+  }
+
+  return {
+    ...base,
+    ...override,
+    http: base.http || override.http ? { ...base.http, ...override.http } : undefined,
+    chains: Object.keys(chains).length > 0 ? chains : undefined
+  }
+}
+
+// Custom chains may be split between top-level and profile settings, so completeness is checked after merging
+function validateCustomChains(settings: FileSettings): FileSettings {
+  const issues: string[] = []
+  for (const [chainName, chain] of Object.entries(settings.chains ?? {})) {
+    if (chain.explorerType === 'blockscout' && !chain.explorerUrl && !chain.explorerApiUrl) {
+      issues.push(`  - chains.${chainName}.explorerUrl: Blockscout explorers require explorerUrl or explorerApiUrl`)
+    }
+    if (isBuiltinChain(chainName)) continue
+    if (chain.chainId === undefined) {
+      issues.push(
+        `  - chains.${chainName}.chainId: Unknown chain "${chainName}". Built-in chains: ${BUILTIN_CHAINS.join(', ')}. Custom chains require chainId and rpc`
+      )
+    }
+    if (!chain.rpc) {
+      issues.push(`  - chains.${chainName}.rpc: Custom chain "${chainName}" requires at least one RPC URL`)
+    }
+  }
+  if (issues.length > 0) {
+    throw new Error(`Invalid config:\n${issues.join('\n')}`)
+  }
+  return settings
+}
+
+// Resolve the effective settings for a profile (profile values override top-level values)
+export function resolveProfile(file: ConfigFile, profileName?: string): FileSettings {
+  const { profiles, defaultProfile, ...base } = file
+  const name = profileName ?? defaultProfile
+
+  if (!name) {
+    return validateCustomChains(base)
+  }
+
+  const profile = profiles?.[name]
+  if (!profile) {
+    const available = Object.keys(profiles ?? {})
+    throw new Error(
+      `Profile "${name}" not found in config file. Available profiles: ${available.length > 0 ? available.join(', ') : '(none)'}`
+    )
+  }
+
+  return validateCustomChains(mergeSettings(base, profile))
+}
+
+// Load, validate and resolve a config file from disk
+export function loadConfigFile(path: string, profileName?: string): FileSettings {
+  const fullPath = resolve(path)
+
+  let text: string
+  try {
+    text = readFileSync(fullPath, 'utf8')
+  } catch (error) {
+    throw new Error(`Failed to read config file ${fullPath}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const file = validateConfigFile(parseConfigText(fullPath, text), `config file ${fullPath}`)
+  return resolveProfile(file, profileName)
+}
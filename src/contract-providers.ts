@@ -0,0 +1,632 @@
+import { type Abi, getAddress } from 'viem'
+import { type CacheStore, createCacheStore } from './cache.js'
+import { FORK_CHAIN, getClientManager } from './client.js'
+import { getEtherscanClient } from './etherscan.js'
+import { detectProxy, type ProxyDetection } from './proxy.js'
+import { indexAbi } from './signature-db.js'
+import type { ChainName, ContractProviderName } from './types.js'
+
+// Verified contract data normalized across providers
+export interface ContractInfo {
+  source: ContractProviderName
+  // Sourcify match quality: "full" (metadata hash matches) or "partial" (bytecode only)
+  match?: 'full' | 'partial'
+  verified: boolean
+  contractName: string
+  abi: Abi | null
+  sourceFiles: Record<string, string>
+  compilerVersion: string
+  optimizationUsed: boolean
+  optimizationRuns: number
+  evmVersion: string
+  licenseType: string
+  constructorArguments: string
+  isProxy: boolean
+  implementationAddress?: string
+  // Solidity storage layout, when the provider has it
+  storageLayout?: unknown
+}
+
+export interface CreationInfo {
+  creator: string
+  transactionHash: string
+}
+
+export interface AddressTransaction {
+  hash: string
+  blockNumber: string
+  timestamp: string
+  from: string
+  to: string | null
+  value: string
+  gasUsed: string
+  gasPrice: string
+  status: 'success' | 'reverted'
+  methodId: string | null
+  functionName: string | null
+  contractAddress: string | null
+}
+
+export interface TransactionListOptions {
+  page: number
+  pageSize: number
+  sort: 'asc' | 'desc'
+}
+
+export interface ContractProvider {
+  name: ContractProviderName
+  // Whether the provider can serve this chain with the current config (e.g. API key present)
+  isAvailable(chainName: ChainName): boolean
+  // Verified contract data, or null when the provider has no verified source for the address
+  fetchContract(chainName: ChainName, chainId: number, address: string): Promise<ContractInfo | null>
+  fetchCreationInfo?(chainName: ChainName, chainId: number, address: string): Promise<CreationInfo | null>
+  fetchTransactions?(
+    chainName: ChainName,
+    chainId: number,
+    address: string,
+    options: TransactionListOptions
+  ): Promise<AddressTransaction[]>
+}
+
+// Raw Etherscan getsourcecode result
+interface EtherscanContractInfo {
+  SourceCode: string
+  ABI: string
+  ContractName: string
+  CompilerVersion: string
+  OptimizationUsed: string
+  Runs: string
+  ConstructorArguments: string
+  EVMVersion: string
+  Library: string
+  LicenseType: string
+  Proxy: string
+  Implementation: string
+  SwarmSource: string
+}
+
+// Etherscan returns single files as plain text and multi-file sources as (double-braced) standard JSON
+export function parseEtherscanSourceCode(sourceCode: string, contractName: string): Record<string, string> {
+  if (!sourceCode.startsWith('{{') && !sourceCode.startsWith('[') && !sourceCode.startsWith('{')) {
+    return { [contractName + '.sol']: sourceCode }
+  }
+
+  try {
+    const parsed = JSON.parse(sourceCode.startsWith('{{') ? sourceCode.slice(1, -1) : sourceCode)
+    if (parsed.sources) {
+      // Standard JSON format
+      return Object.fromEntries(
+        Object.entries(parsed.sources).map(([path, data]: [string, any]) => [path, data.content || ''])
+      )
+    }
+    // Simple object format
+    return Object.fromEntries(
+      Object.entries(parsed).map(([path, data]: [string, any]) => [path, typeof data === 'string' ? data : data?.content || ''])
+    )
+  } catch {
+    // If parsing fails, treat as single file
+    return { [contractName + '.sol']: sourceCode }
+  }
+}
+
+// Etherscan-style account/txlist row (Blockscout's compatibility API returns the same shape)
+interface ExplorerTransaction {
+  blockNumber: string
+  timeStamp: string
+  hash: string
+  from: string
+  to: string
+  value: string
+  gasUsed: string
+  gasPrice: string
+  isError: string
+  txreceipt_status?: string
+  input?: string
+  methodId?: string
+  functionName?: string
+  contractAddress?: string
+}
+
+function normalizeExplorerTransaction(tx: ExplorerTransaction): AddressTransaction {
+  const methodId = tx.methodId || (tx.input && tx.input.length >= 10 ? tx.input.slice(0, 10) : null)
+  return {
+    hash: tx.hash,
+    blockNumber: tx.blockNumber,
+    timestamp: new Date(Number(tx.timeStamp) * 1000).toISOString(),
+    from: tx.from,
+    to: tx.to || null,
+    value: tx.value,
+    gasUsed: tx.gasUsed,
+    gasPrice: tx.gasPrice,
+    status: tx.isError === '1' || tx.txreceipt_status === '0' ? 'reverted' : 'success',
+    methodId: methodId && methodId !== '0x' ? methodId : null,
+    functionName: tx.functionName || null,
+    contractAddress: tx.contractAddress || null
+  }
+}
+
+// Etherscan reports an empty history as status "0" / "No transactions found"
+function parseTransactionList(data: { status: string; message?: string; result: unknown }, provider: string) {
+  if (Array.isArray(data.result)) {
+    return (data.result as ExplorerTransaction[]).map(normalizeExplorerTransaction)
+  }
+  if (data.message?.startsWith('No transactions found')) {
+    return []
+  }
+  throw new Error(`${provider} API error: ${typeof data.result === 'string' ? data.result : data.message}`)
+}
+
+export const etherscanProvider: ContractProvider = {
+  name: 'etherscan',
+
+  isAvailable(chainName) {
+    const config = getClientManager().getConfig()
+    const hasKey = Boolean(config.etherscanApiKeys?.length || config.etherscanApiKey)
+    // Etherscan does not index local chains or chains that run their own Blockscout explorer
+    return (
+      hasKey &&
+      getClientManager().getExplorerType(chainName) === 'etherscan' &&
+      (chainName !== 'localhost' || Boolean(config.chains?.localhost?.explorerApiUrl))
+    )
+  },
+
+  async fetchContract(chainName, chainId, address) {
+    const apiUrl = getClientManager().getExplorerApiUrl(chainName)
+    const data = await getEtherscanClient().request<Array<EtherscanContractInfo>>(apiUrl, {
+      chainid: chainId,
+      module: 'contract',
+      action: 'getsourcecode',
+      address
+    })
+
+    if (data.status !== '1' || !data.result || data.result.length === 0) {
+      throw new Error(`Etherscan API error: ${data.message || 'No contract source found'}`)
+    }
+
+    const raw = data.result[0]
+    if (raw.SourceCode === '') {
+      return null
+    }
+
+    let abi: Abi | null = null
+    try {
+      abi = JSON.parse(raw.ABI)
+    } catch {
+      // ABI missing or not JSON
+    }
+
+    const isProxy = raw.Proxy === '1'
+    return {
+      source: 'etherscan',
+      verified: true,
+      contractName: raw.ContractName,
+      abi,
+      sourceFiles: parseEtherscanSourceCode(raw.SourceCode, raw.ContractName),
+      compilerVersion: raw.CompilerVersion,
+      optimizationUsed: raw.OptimizationUsed === '1',
+      optimizationRuns: parseInt(raw.Runs) || 0,
+      evmVersion: raw.EVMVersion,
+      licenseType: raw.LicenseType,
+      constructorArguments: raw.ConstructorArguments,
+      isProxy,
+      implementationAddress: isProxy && raw.Implementation ? raw.Implementation : undefined
+    }
+  },
+
+  async fetchCreationInfo(chainName, chainId, address) {
+    const apiUrl = getClientManager().getExplorerApiUrl(chainName)
+    const data = await getEtherscanClient().request<Array<{ contractCreator: string; txHash: string }> | undefined>(
+      apiUrl,
+      { chainid: chainId, module: 'contract', action: 'getcontractcreation', contractaddresses: address }
+    )
+    const result = data.status === '1' ? data.result?.[0] : undefined
+    return result ? { creator: result.contractCreator, transactionHash: result.txHash } : null
+  },
+
+  async fetchTransactions(chainName, chainId, address, options) {
+    const apiUrl = getClientManager().getExplorerApiUrl(chainName)
+    const data = await getEtherscanClient().request(apiUrl, {
+      chainid: chainId,
+      module: 'account',
+      action: 'txlist',
+      address,
+      startblock: 0,
+      endblock: 99999999,
+      page: options.page,
+      offset: options.pageSize,
+      sort: options.sort
+    })
+    return parseTransactionList(data, 'Etherscan')
+  }
+}
+
+// Blockscout v2 REST smart contract response (https://docs.blockscout.com/devs/apis/rest)
+interface BlockscoutSmartContract {
+  is_verified?: boolean
+  is_partially_verified?: boolean
+  name?: string
+  abi?: Abi
+  source_code?: string
+  file_path?: string
+  additional_sources?: Array<{ file_path: string; source_code: string }>
+  compiler_version?: string
+  optimization_enabled?: boolean
+  optimization_runs?: number | null
+  evm_version?: string
+  license_type?: string
+  constructor_args?: string | null
+  proxy_type?: string | null
+  implementations?: Array<{ address?: string; address_hash?: string; name?: string | null }>
+}
+
+interface BlockscoutAddress {
+  creator_address_hash?: string | null
+  creation_tx_hash?: string | null
+  creation_transaction_hash?: string | null
+  implementations?: Array<{ address?: string; address_hash?: string }>
+}
+
+async function fetchBlockscout<T>(chainName: ChainName, path: string): Promise<T | null> {
+  const response = await fetch(`${getClientManager().getExplorerApiUrl(chainName)}/v2${path}`)
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`Blockscout API error: HTTP ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+export const blockscoutProvider: ContractProvider = {
+  name: 'blockscout',
+
+  isAvailable(chainName) {
+    return getClientManager().getExplorerType(chainName) === 'blockscout'
+  },
+
+  async fetchContract(chainName, _chainId, address) {
+    const contract = await fetchBlockscout<BlockscoutSmartContract>(chainName, `/smart-contracts/${address}`)
+    if (!contract?.is_verified || !contract.source_code) {
+      return null
+    }
+
+    const contractName = contract.name ?? ''
+    const sourceFiles: Record<string, string> = {
+      [contract.file_path || `${contractName}.sol`]: contract.source_code
+    }
+    for (const file of contract.additional_sources ?? []) {
+      sourceFiles[file.file_path] = file.source_code
+    }
+
+    const implementation = contract.implementations?.[0]
+    const implementationAddress = implementation?.address ?? implementation?.address_hash
+    const isProxy = Boolean(contract.proxy_type) || Boolean(implementationAddress)
+
+    return {
+      source: 'blockscout',
+      match: contract.is_partially_verified ? 'partial' : undefined,
+      verified: true,
+      contractName,
+      abi: contract.abi ?? null,
+      sourceFiles,
+      compilerVersion: contract.compiler_version ?? '',
+      optimizationUsed: contract.optimization_enabled ?? false,
+      optimizationRuns: contract.optimization_runs ?? 0,
+      evmVersion: contract.evm_version ?? '',
+      licenseType: contract.license_type ?? '',
+      constructorArguments: contract.constructor_args ?? '',
+      isProxy,
+      implementationAddress: isProxy ? implementationAddress : undefined
+    }
+  },
+
+  async fetchCreationInfo(chainName, _chainId, address) {
+    const info = await fetchBlockscout<BlockscoutAddress>(chainName, `/addresses/${address}`)
+    const transactionHash = info?.creation_transaction_hash ?? info?.creation_tx_hash
+    if (!info?.creator_address_hash || !transactionHash) {
+      return null
+    }
+    return { creator: info.creator_address_hash, transactionHash }
+  },
+
+  // Blockscout's Etherscan-compatible API supports page-based transaction lists
+  async fetchTransactions(chainName, _chainId, address, options) {
+    const url = new URL(getClientManager().getExplorerApiUrl(chainName))
+    url.searchParams.set('module', 'account')
+    url.searchParams.set('action', 'txlist')
+    url.searchParams.set('address', address)
+    url.searchParams.set('page', String(options.page))
+    url.searchParams.set('offset', String(options.pageSize))
+    url.searchParams.set('sort', options.sort)
+
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Blockscout API error: HTTP ${response.status}`)
+    }
+    return parseTransactionList((await response.json()) as { status: string; message?: string; result: unknown }, 'Blockscout')
+  }
+}
+
+// Sourcify v2 contract lookup (https://docs.sourcify.dev/docs/api/)
+interface SourcifyContract {
+  match: 'exact_match' | 'match' | null
+  abi?: Abi
+  metadata?: SourcifyMetadata
+  sources?: Record<string, { content: string }>
+  compilation?: { name?: string; compilerVersion?: string; compilerSettings?: SourcifyMetadata['settings'] }
+  storageLayout?: unknown
+  proxyResolution?: { isProxy?: boolean; implementations?: Array<{ address: string; name?: string }> }
+  deployment?: { transactionHash?: string; deployer?: string }
+}
+
+// Subset of the Solidity metadata.json used here
+interface SourcifyMetadata {
+  compiler?: { version?: string }
+  output?: { abi?: Abi }
+  settings?: {
+    compilationTarget?: Record<string, string>
+    evmVersion?: string
+    optimizer?: { enabled?: boolean; runs?: number }
+  }
+  sources?: Record<string, { content?: string; license?: string }>
+}
+
+function getSourcifyApiUrl(): string {
+  const config = getClientManager().getConfig()
+  return (config.sourcifyApiUrl ?? 'https://sourcify.dev/server').replace(/\/$/, '')
+}
+
+async function fetchSourcify(chainId: number, address: string, fields: string): Promise<SourcifyContract | null> {
+  const response = await fetch(`${getSourcifyApiUrl()}/v2/contract/${chainId}/${getAddress(address)}?fields=${fields}`)
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`Sourcify API error: HTTP ${response.status}`)
+  }
+  return (await response.json()) as SourcifyContract
+}
+
+export const sourcifyProvider: ContractProvider = {
+  name: 'sourcify',
+
+  isAvailable() {
+    return true
+  },
+
+  async fetchContract(_chainName, chainId, address) {
+    const contract = await fetchSourcify(chainId, address, 'all')
+    if (!contract?.match) {
+      return null
+    }
+
+    // metadata.json carries the compilation target, compiler settings, licenses and the ABI
+    const metadata = contract.metadata ?? {}
+    const settings = metadata.settings ?? contract.compilation?.compilerSettings ?? {}
+    const [targetPath, targetName] = Object.entries(settings.compilationTarget ?? {})[0] ?? []
+    const sourceFiles = Object.fromEntries(
+      Object.entries(contract.sources ?? {}).map(([path, file]) => [path, file.content ?? ''])
+    )
+    const implementation = contract.proxyResolution?.implementations?.[0]?.address
+
+    return {
+      source: 'sourcify',
+      match: contract.match === 'exact_match' ? 'full' : 'partial',
+      verified: true,
+      contractName: targetName ?? contract.compilation?.name ?? '',
+      abi: contract.abi ?? metadata.output?.abi ?? null,
+      sourceFiles,
+      compilerVersion: metadata.compiler?.version ?? contract.compilation?.compilerVersion ?? '',
+      optimizationUsed: settings.optimizer?.enabled ?? false,
+      optimizationRuns: settings.optimizer?.runs ?? 0,
+      evmVersion: settings.evmVersion ?? '',
+      licenseType: (targetPath && metadata.sources?.[targetPath]?.license) || '',
+      constructorArguments: '',
+      isProxy: contract.proxyResolution?.isProxy ?? false,
+      implementationAddress: implementation,
+      storageLayout: contract.storageLayout ?? undefined
+    }
+  },
+
+  async fetchCreationInfo(_chainName, chainId, address) {
+    const contract = await fetchSourcify(chainId, address, 'deployment')
+    const deployment = contract?.deployment
+    if (!deployment?.deployer || !deployment.transactionHash) {
+      return null
+    }
+    return { creator: deployment.deployer, transactionHash: deployment.transactionHash }
+  }
+}
+
+const PROVIDERS: Record<ContractProviderName, ContractProvider> = {
+  etherscan: etherscanProvider,
+  sourcify: sourcifyProvider,
+  blockscout: blockscoutProvider
+}
+
+export const DEFAULT_PROVIDER_ORDER: ContractProviderName[] = ['etherscan', 'blockscout', 'sourcify']
+
+// Providers to try for a chain, in priority order, skipping ones that are not usable (e.g. no API key).
+// Per-chain contractProviders override the global order
+export function getContractProviders(chainName: ChainName): ContractProvider[] {
+  const config = getClientManager().getConfig()
+  const order: ContractProviderName[] =
+    config.chains?.[chainName]?.contractProviders ?? config.contractProviders ?? DEFAULT_PROVIDER_ORDER
+  return order.map((name) => PROVIDERS[name]).filter((provider) => provider.isAvailable(chainName))
+}
+
+// No TTL - verified contracts are immutable (use clear_contract_cache to invalidate)
+let contractCache: CacheStore<ContractInfo> | null = null
+
+// Lazily create the cache from config: in-memory by default, on disk when a cache directory is configured
+export function getContractCache(): CacheStore<ContractInfo> {
+  if (!contractCache) {
+    const config = getClientManager().getConfig()
+    contractCache = createCacheStore<ContractInfo>(config.cache)
+  }
+  return contractCache
+}
+
+// On-chain proxy detections expire, unlike verified contract data, so an upgrade is picked up on its own
+const PROXY_DETECTION_TTL_MS = 10 * 60 * 1000
+
+export interface CachedProxyDetection {
+  detection: ProxyDetection
+  detectedAt: number
+}
+
+let proxyCache: CacheStore<CachedProxyDetection> | null = null
+
+// Stored next to the contract cache (namespace "proxies"), cleared by clear_contract_cache and --clear-cache
+export function getProxyCache(): CacheStore<CachedProxyDetection> {
+  if (!proxyCache) {
+    const config = getClientManager().getConfig()
+    proxyCache = createCacheStore<CachedProxyDetection>(config.cache, 'proxies')
+  }
+  return proxyCache
+}
+
+export function getCacheKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`
+}
+
+// Fetch verified contract data from the first provider that has it (with caching).
+// Returns an unverified placeholder when no provider knows the contract
+export async function fetchContractInfo(chainName: ChainName, address: string): Promise<ContractInfo> {
+  const chainId = getClientManager().getChainId(chainName)
+  const cacheKey = getCacheKey(chainId, address)
+  const cached = await getContractCache().get(cacheKey)
+  if (cached?.source) {
+    return cached
+  }
+
+  const providers = getContractProviders(chainName)
+  if (providers.length === 0) {
+    throw new Error(
+      'No contract data provider available. Configure an Etherscan API key (--etherscan-api-key or ETHERSCAN_API_KEY) or enable sourcify in contractProviders.'
+    )
+  }
+
+  const errors: string[] = []
+  for (const provider of providers) {
+    try {
+      const info = await provider.fetchContract(chainName, chainId, address)
+      if (info) {
+        await getContractCache().set(cacheKey, info)
+        if (info.abi) {
+          // Learn the contract's selectors for lookup_signature and decoding; never fail the fetch over it
+          await indexAbi(info.abi).catch(() => 0)
+        }
+        return info
+      }
+    } catch (error) {
+      errors.push(`${provider.name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  // Every provider failed outright, so "not verified" cannot be concluded
+  if (errors.length === providers.length) {
+    throw new Error(`Failed to fetch contract info (${errors.join('; ')})`)
+  }
+
+  // Unverified contracts are not cached so a later verification is picked up
+  return {
+    source: providers[0].name,
+    verified: false,
+    contractName: '',
+    abi: null,
+    sourceFiles: {},
+    compilerVersion: '',
+    optimizationUsed: false,
+    optimizationRuns: 0,
+    evmVersion: '',
+    licenseType: '',
+    constructorArguments: '',
+    isProxy: false
+  }
+}
+
+// Transaction history for an address from the first explorer provider that serves the chain
+export async function fetchAddressTransactions(
+  chainName: ChainName,
+  address: string,
+  options: TransactionListOptions
+): Promise<{ source: ContractProviderName; transactions: AddressTransaction[] }> {
+  const chainId = getClientManager().getChainId(chainName)
+  const provider = getContractProviders(chainName).find((candidate) => candidate.fetchTransactions)
+  if (!provider?.fetchTransactions) {
+    throw new Error(
+      `No explorer with transaction lists available for ${chainName}. Configure an Etherscan API key or a Blockscout explorer (chains.${chainName}.explorerType: blockscout).`
+    )
+  }
+  return { source: provider.name, transactions: await provider.fetchTransactions(chainName, chainId, address, options) }
+}
+
+// Creator and deployment transaction from the first provider that knows them
+export async function fetchCreationInfo(chainName: ChainName, address: string): Promise<CreationInfo | null> {
+  const chainId = getClientManager().getChainId(chainName)
+  for (const provider of getContractProviders(chainName)) {
+    try {
+      const info = await provider.fetchCreationInfo?.(chainName, chainId, address)
+      if (info) return info
+    } catch {
+      // Try the next provider
+    }
+  }
+  return null
+}
+
+// Logic contracts behind a proxy. On-chain detection (EIP-1967, beacon, EIP-1822, EIP-1167, Safe,
+// diamond facets) wins over the provider's proxy fields, which are often missing or stale after upgrades.
+// Detections are cached for a few minutes on public chains
+export async function resolveImplementations(
+  chainName: ChainName,
+  address: string,
+  info: ContractInfo
+): Promise<string[]> {
+  const clientManager = getClientManager()
+  // Local nodes reuse chain IDs and the fork shares its source chain's, so their detections are not cached
+  const cacheable = chainName !== FORK_CHAIN && !clientManager.isDevChain(chainName)
+  const cacheKey = getCacheKey(clientManager.getChainId(chainName), address)
+  const cached = cacheable ? await getProxyCache().get(cacheKey) : undefined
+  let detection = cached && Date.now() - cached.detectedAt < PROXY_DETECTION_TTL_MS ? cached.detection : null
+  if (!detection) {
+    detection = await detectProxy(chainName, address).catch(() => null)
+    if (detection && cacheable) await getProxyCache().set(cacheKey, { detection, detectedAt: Date.now() })
+  }
+  if (detection?.isProxy && detection.implementations.length > 0) {
+    return detection.implementations
+  }
+  return info.isProxy && info.implementationAddress ? [info.implementationAddress] : []
+}
+
+// Verified ABI for an address. For proxies the implementation ABI (every facet's, for diamonds) comes
+// first, followed by the proxy's own entries. Returns null when neither is verified
+export async function fetchContractAbi(
+  chainName: ChainName,
+  address: string
+): Promise<{ abi: Abi; source: ContractProviderName; implementationAddress?: string } | null> {
+  const info = await fetchContractInfo(chainName, address)
+  const implementations = await resolveImplementations(chainName, address, info)
+
+  const implementationAbis = await Promise.all(
+    implementations.map(async (implementation) => {
+      try {
+        return { address: implementation, abi: (await fetchContractInfo(chainName, implementation)).abi ?? [] }
+      } catch {
+        // Fall back to the proxy ABI alone
+        return { address: implementation, abi: [] }
+      }
+    })
+  )
+
+  const abi = [...implementationAbis.flatMap((implementation) => implementation.abi), ...(info.abi ?? [])]
+  if (abi.length === 0) {
+    return null
+  }
+  return {
+    abi,
+    source: info.source,
+    implementationAddress: implementationAbis.find((implementation) => implementation.abi.length > 0)?.address
+  }
+}
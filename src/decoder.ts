@@ -0,0 +1,380 @@
+import {
+  type Abi,
+  type AbiEvent,
+  type AbiFunction,
+  type AbiParameter,
+  decodeEventLog,
+  decodeFunctionData,
+  type Hex,
+  isAddress,
+  isHex,
+  parseAbi,
+  toEventSelector,
+  toEventSignature,
+  toFunctionSelector,
+  toFunctionSignature
+} from 'viem'
+import type { ChainName } from './types.js'
+import { fetchContractAbi } from './contract-providers.js'
+import { lookupSignature } from './signature-db.js'
+
+export interface DecodedArgument {
+  name: string
+  type: string
+  value: unknown
+  // Set when a bytes argument is itself calldata (multicall, execute, Safe transactions, ...)
+  decoded?: DecodedCall | Array<DecodedCall | null>
+}
+
+export interface DecodedCall {
+  selector: Hex
+  target?: string
+  functionName?: string
+  signature?: string
+  abiSource?: 'provided' | 'verified' | 'local'
+  args?: DecodedArgument[]
+  // Other bundled signatures sharing the selector that also decoded the data
+  alternatives?: string[]
+  error?: string
+}
+
+export interface DecodeOptions {
+  chainName?: ChainName
+  // Contract that receives the calldata; used to look up its verified ABI
+  to?: string
+  abi?: Abi
+  // How many levels of nested calldata to decode (default 3)
+  maxDepth?: number
+}
+
+// Parse a user supplied ABI: a JSON ABI array, a JSON array of human-readable signatures,
+// or human-readable signatures one per line
+export function parseAbiInput(input: string): Abi {
+  const text = input.trim()
+  if (text.startsWith('[')) {
+    const parsed = JSON.parse(text) as unknown[]
+    if (parsed.every((item) => typeof item === 'string')) {
+      return parseAbi(parsed as string[])
+    }
+    return parsed as Abi
+  }
+  return parseAbi(
+    text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+  )
+}
+
+// Verified ABIs (implementation ABI first for proxies), fetched once per address per decode
+class VerifiedAbiLoader {
+  private abis = new Map<string, Promise<Abi | null>>()
+
+  constructor(private chainName?: ChainName) {}
+
+  get(address: string): Promise<Abi | null> {
+    if (!this.chainName) return Promise.resolve(null)
+
+    const key = address.toLowerCase()
+    if (!this.abis.has(key)) {
+      this.abis.set(
+        key,
+        fetchContractAbi(this.chainName, address)
+          .then((result) => result?.abi ?? null)
+          .catch(() => null)
+      )
+    }
+    return this.abis.get(key)!
+  }
+}
+
+// Decodes calldata, resolving the selector from the supplied ABI, then the target's verified ABI,
+// then the local signature database. Nested calldata in bytes arguments is decoded recursively
+export class CalldataDecoder {
+  private verifiedAbis: VerifiedAbiLoader
+
+  constructor(private options: DecodeOptions = {}) {
+    this.verifiedAbis = new VerifiedAbiLoader(options.chainName)
+  }
+
+  async decode(data: Hex, target = this.options.to, depth = 0): Promise<DecodedCall> {
+    if (!isHex(data) || data.length < 10) {
+      return { selector: data.slice(0, 10) as Hex, target, error: 'Calldata is shorter than a 4-byte selector' }
+    }
+
+    const selector = data.slice(0, 10).toLowerCase() as Hex
+    const { candidateCount, decodedWith } = await this.matchFunctions(data, target)
+
+    const match = decodedWith[0]
+    if (!match) {
+      return {
+        selector,
+        target,
+        error: candidateCount > 0 ? 'Arguments do not match any known signature' : 'Unknown function selector'
+      }
+    }
+
+    const result: DecodedCall = {
+      selector,
+      target,
+      functionName: match.item.name,
+      signature: toFunctionSignature(match.item),
+      abiSource: match.source,
+      args: await this.decodeArguments(match.item.inputs, match.args, target, depth)
+    }
+    if (decodedWith.length > 1) {
+      result.alternatives = decodedWith.slice(1).map(({ item }) => toFunctionSignature(item))
+    }
+    return result
+  }
+
+  // ABI item the calldata was encoded with, e.g. to decode the call's return data
+  async resolveFunction(
+    data: Hex,
+    target = this.options.to
+  ): Promise<{ item: AbiFunction; source: DecodedCall['abiSource'] } | undefined> {
+    if (!isHex(data) || data.length < 10) return undefined
+    const [match] = (await this.matchFunctions(data, target)).decodedWith
+    return match && { item: match.item, source: match.source }
+  }
+
+  // Candidates whose arguments decode the calldata, most authoritative first
+  private async matchFunctions(
+    data: Hex,
+    target?: string
+  ): Promise<{
+    candidateCount: number
+    decodedWith: Array<{ item: AbiFunction; source: DecodedCall['abiSource']; args: readonly unknown[] }>
+  }> {
+    const candidates = await this.findCandidates(data.slice(0, 10).toLowerCase() as Hex, target)
+
+    const decodedWith: Array<{ item: AbiFunction; source: DecodedCall['abiSource']; args: readonly unknown[] }> = []
+    for (const { item, source } of candidates) {
+      try {
+        const { args } = decodeFunctionData({ abi: [item], data })
+        decodedWith.push({ item, source, args: args ?? [] })
+        // Supplied and verified ABIs are authoritative; bundled signatures may collide
+        if (source !== 'local') break
+      } catch {
+        // Selector matched but the arguments do not fit this signature
+      }
+    }
+    return { candidateCount: candidates.length, decodedWith }
+  }
+
+  private async findCandidates(
+    selector: Hex,
+    target?: string
+  ): Promise<Array<{ item: AbiFunction; source: DecodedCall['abiSource'] }>> {
+    const bySelector = (abi: Abi) =>
+      abi.filter((item): item is AbiFunction => item.type === 'function' && toFunctionSelector(item) === selector)
+
+    const candidates: Array<{ item: AbiFunction; source: DecodedCall['abiSource'] }> = []
+    if (this.options.abi) {
+      candidates.push(...bySelector(this.options.abi).map((item) => ({ item, source: 'provided' as const })))
+    }
+    if (target && isAddress(target)) {
+      const verified = await this.verifiedAbis.get(target)
+      if (verified) {
+        candidates.push(...bySelector(verified).map((item) => ({ item, source: 'verified' as const })))
+      }
+    }
+    // Bundled signatures plus every ABI the server has indexed
+    const known = await lookupSignature(selector, 'function')
+    candidates.push(...known.map(({ item }) => ({ item: item as AbiFunction, source: 'local' as const })))
+    return candidates
+  }
+
+  private async decodeArguments(
+    params: readonly AbiParameter[],
+    values: readonly unknown[],
+    target: string | undefined,
+    depth: number
+  ): Promise<DecodedArgument[]> {
+    // An address next to a bytes argument (execute(to, value, data), Multicall3 structs) is the
+    // nested call's target; otherwise nested calls go to the same contract (multicall(bytes[]))
+    const siblingTarget = findAddressSibling(params, values) ?? target
+
+    return Promise.all(
+      params.map(async (param, index) => {
+        const value = values[index]
+        const argument: DecodedArgument = { name: param.name || `arg${index}`, type: param.type, value }
+        const decoded = await this.decodeNested(param, value, siblingTarget, depth)
+        if (decoded !== undefined) {
+          argument.decoded = decoded
+        }
+        return argument
+      })
+    )
+  }
+
+  // Decode calldata hidden in bytes / bytes[] / tuple arguments
+  private async decodeNested(
+    param: AbiParameter,
+    value: unknown,
+    target: string | undefined,
+    depth: number
+  ): Promise<DecodedArgument['decoded'] | undefined> {
+    if (depth >= (this.options.maxDepth ?? 3)) return undefined
+
+    if (param.type === 'bytes' && typeof value === 'string') {
+      return this.decodeIfCalldata(value as Hex, target, depth)
+    }
+
+    if (param.type === 'bytes[]' && Array.isArray(value)) {
+      const calls = await Promise.all(value.map((item) => this.decodeIfCalldata(item as Hex, target, depth)))
+      return calls.some((call) => call) ? calls.map((call) => call ?? null) : undefined
+    }
+
+    if (param.type.startsWith('tuple') && 'components' in param) {
+      const tuples = param.type === 'tuple' ? [value] : Array.isArray(value) ? value : []
+      const calls: Array<DecodedCall | null> = []
+      for (const tuple of tuples) {
+        const fields = param.components.map((component, i) =>
+          Array.isArray(tuple) ? tuple[i] : (tuple as Record<string, unknown>)?.[component.name ?? '']
+        )
+        const tupleTarget = findAddressSibling(param.components, fields) ?? target
+        let found: DecodedCall | null = null
+        for (const [i, component] of param.components.entries()) {
+          if (component.type !== 'bytes') continue
+          found = (await this.decodeIfCalldata(fields[i] as Hex, tupleTarget, depth)) ?? null
+          if (found) break
+        }
+        calls.push(found)
+      }
+      if (!calls.some((call) => call)) return undefined
+      return param.type === 'tuple' ? calls[0]! : calls
+    }
+
+    return undefined
+  }
+
+  // Only bytes that decode to a known function count as nested calls
+  private async decodeIfCalldata(value: Hex, target: string | undefined, depth: number): Promise<DecodedCall | undefined> {
+    if (typeof value !== 'string' || value.length < 10) return undefined
+    const decoded = await this.decode(value, target, depth + 1)
+    return decoded.error ? undefined : decoded
+  }
+}
+
+function findAddressSibling(params: readonly AbiParameter[], values: readonly unknown[]): string | undefined {
+  const index = params.findIndex((param) => param.type === 'address')
+  if (index === -1) return undefined
+  const value = values[index]
+  return typeof value === 'string' && isAddress(value) ? value : undefined
+}
+
+// Convenience wrapper for one-off decoding
+export function decodeCalldata(data: Hex, options: DecodeOptions = {}): Promise<DecodedCall> {
+  return new CalldataDecoder(options).decode(data)
+}
+
+export interface RawLog {
+  address: string
+  topics: readonly Hex[]
+  data: Hex
+  logIndex?: number | null
+}
+
+export interface DecodedLog {
+  logIndex?: number
+  address: string
+  // false when no known event ABI matches; topics and data are always included
+  decoded: boolean
+  eventName?: string
+  signature?: string
+  abiSource?: 'provided' | 'verified' | 'local'
+  args?: Array<{ name: string; type: string; indexed: boolean; value: unknown }>
+  topics: readonly Hex[]
+  data: Hex
+  error?: string
+}
+
+export interface LogDecodeOptions {
+  chainName?: ChainName
+  abi?: Abi
+}
+
+// Decodes event logs with the supplied ABI, then the emitting contract's verified ABI (implementation
+// ABI for proxies), then the local signature database
+export class LogDecoder {
+  private verifiedAbis: VerifiedAbiLoader
+
+  constructor(private options: LogDecodeOptions = {}) {
+    this.verifiedAbis = new VerifiedAbiLoader(options.chainName)
+  }
+
+  decodeAll(logs: readonly RawLog[]): Promise<DecodedLog[]> {
+    return Promise.all(logs.map((log) => this.decode(log)))
+  }
+
+  async decode(log: RawLog): Promise<DecodedLog> {
+    const result: DecodedLog = {
+      ...(log.logIndex !== undefined && log.logIndex !== null ? { logIndex: Number(log.logIndex) } : {}),
+      address: log.address,
+      decoded: false,
+      topics: log.topics,
+      data: log.data
+    }
+
+    const topic0 = log.topics[0]?.toLowerCase() as Hex | undefined
+    if (!topic0) {
+      return { ...result, error: 'Anonymous event (no topics)' }
+    }
+
+    const candidates = await this.findCandidates(topic0, log.address)
+    for (const { item, source } of candidates) {
+      try {
+        const { args } = decodeEventLog({ abi: [item], topics: log.topics as [Hex, ...Hex[]], data: log.data, strict: true })
+        const values = (args ?? {}) as Record<string, unknown> | readonly unknown[]
+        return {
+          ...result,
+          decoded: true,
+          eventName: item.name,
+          signature: toEventSignature(item),
+          abiSource: source,
+          args: item.inputs.map((input, index) => ({
+            name: input.name || `arg${index}`,
+            type: input.type,
+            indexed: input.indexed ?? false,
+            value: Array.isArray(values) ? values[index] : (values as Record<string, unknown>)[input.name || String(index)]
+          }))
+        }
+      } catch {
+        // Same topic0 but a different indexed layout (e.g. ERC20 vs ERC721 Transfer)
+      }
+    }
+
+    return {
+      ...result,
+      error: candidates.length > 0 ? 'Topics and data do not match any known event layout' : 'Unknown event topic0'
+    }
+  }
+
+  private async findCandidates(
+    topic0: Hex,
+    address: string
+  ): Promise<Array<{ item: AbiEvent; source: DecodedLog['abiSource'] }>> {
+    const byTopic = (abi: Abi) =>
+      abi.filter((item): item is AbiEvent => item.type === 'event' && !item.anonymous && toEventSelector(item) === topic0)
+
+    const candidates: Array<{ item: AbiEvent; source: DecodedLog['abiSource'] }> = []
+    if (this.options.abi) {
+      candidates.push(...byTopic(this.options.abi).map((item) => ({ item, source: 'provided' as const })))
+    }
+    if (isAddress(address)) {
+      const verified = await this.verifiedAbis.get(address)
+      if (verified) {
+        candidates.push(...byTopic(verified).map((item) => ({ item, source: 'verified' as const })))
+      }
+    }
+    const known = await lookupSignature(topic0, 'event')
+    candidates.push(...known.map(({ item }) => ({ item: item as AbiEvent, source: 'local' as const })))
+    return candidates
+  }
+}
+
+// Decode a batch of logs (e.g. a receipt's) with one shared ABI lookup
+export function decodeLogs(logs: readonly RawLog[], options: LogDecodeOptions = {}): Promise<DecodedLog[]> {
+  return new LogDecoder(options).decodeAll(logs)
+}
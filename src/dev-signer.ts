@@ -0,0 +1,145 @@
+import { type Address, BaseError, getAddress, type Hex, isAddress, numberToHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import type { ChainName } from './types.js'
+import { FORK_CHAIN, getClientManager } from './client.js'
+import { type DecodedLog, decodeLogs } from './decoder.js'
+import { createLocalWalletClient } from './signers.js'
+import { isMethodUnsupported } from './simulation.js'
+
+export interface DevTransactionRequest {
+  // Sender; must be unlocked on the node or impersonable (anvil, hardhat)
+  from?: string
+  to: string
+  data?: Hex
+  value?: bigint
+}
+
+export interface DevTransactionResult {
+  transactionHash: Hex
+  from: Address
+  // private-key: signed with devSigner.privateKey, unlocked: the node signed,
+  // impersonated: the node accepted it unsigned via anvil_/hardhat_impersonateAccount
+  signer: 'private-key' | 'unlocked' | 'impersonated'
+  status: 'success' | 'reverted'
+  blockNumber: bigint
+  gasUsed: bigint
+  effectiveGasPrice: bigint
+  logs: DecodedLog[]
+}
+
+// Dev chains mine instantly; this only guards against a node with automine turned off
+const RECEIPT_TIMEOUT_MS = 60_000
+
+// The node holds no key for the sender (anvil: "No Signer available", hardhat/geth: "unknown account")
+function isSignerMissing(error: unknown): boolean {
+  const matches = (candidate: unknown) => {
+    const { message, details } = candidate as { message?: string; details?: string }
+    return /no signer|unknown account|not unlocked|sender account not recognized|authentication needed/i.test(
+      `${message} ${details}`
+    )
+  }
+  if (error instanceof BaseError) return Boolean(error.walk(matches))
+  return Boolean(error && typeof error === 'object' && matches(error))
+}
+
+// anvil and hardhat name the same cheat method differently
+async function setImpersonation(chainName: ChainName, address: Address, enabled: boolean): Promise<void> {
+  const client = getClientManager().getClient(chainName)
+  const methods = enabled
+    ? ['anvil_impersonateAccount', 'hardhat_impersonateAccount']
+    : ['anvil_stopImpersonatingAccount', 'hardhat_stopImpersonatingAccount']
+  for (const method of methods) {
+    try {
+      await client.request<{ Parameters: [Address]; ReturnType: null }>({ method, params: [address] })
+      return
+    } catch (error) {
+      if (!isMethodUnsupported(error)) throw error
+    }
+  }
+  throw new Error(`${chainName} cannot impersonate ${address}: the node supports neither anvil_ nor hardhat_ cheat methods`)
+}
+
+async function sendFromNode(chainName: ChainName, from: Address, request: DevTransactionRequest): Promise<Hex> {
+  const client = getClientManager().getClient(chainName)
+  return client.request<{ Parameters: [{ from: Address; to: string; data?: Hex; value?: Hex }]; ReturnType: Hex }>({
+    method: 'eth_sendTransaction',
+    params: [
+      {
+        from,
+        to: request.to,
+        ...(request.data && { data: request.data }),
+        ...(request.value !== undefined && { value: numberToHex(request.value) })
+      }
+    ]
+  })
+}
+
+async function submit(chainName: ChainName, request: DevTransactionRequest): Promise<Pick<DevTransactionResult, 'transactionHash' | 'from' | 'signer'>> {
+  const clientManager = getClientManager()
+  const client = clientManager.getClient(chainName)
+  // The fork keeps the forked chain's ID, so a transaction signed for it could be replayed on that
+  // network; fork transactions always come from unlocked or impersonated accounts
+  const privateKey = chainName === FORK_CHAIN ? undefined : clientManager.getDevPrivateKey()
+
+  if (request.from === undefined && privateKey) {
+    const account = privateKeyToAccount(privateKey)
+    const transactionHash = await createLocalWalletClient(chainName, account).sendTransaction({
+      to: request.to as Address,
+      data: request.data,
+      value: request.value
+    })
+    return { transactionHash, from: account.address, signer: 'private-key' }
+  }
+
+  let from: Address
+  if (request.from !== undefined) {
+    if (!isAddress(request.from)) {
+      throw new Error(`Invalid sender address: ${request.from}`)
+    }
+    from = getAddress(request.from)
+  } else {
+    const [first] = await client.request<{ Parameters?: undefined; ReturnType: Address[] }>({ method: 'eth_accounts' })
+    if (!first) {
+      throw new Error(
+        chainName === FORK_CHAIN
+          ? `${chainName} has no unlocked accounts; pass from`
+          : `${chainName} has no unlocked accounts; pass from or configure devSigner.privateKey`
+      )
+    }
+    from = getAddress(first)
+  }
+
+  try {
+    return { transactionHash: await sendFromNode(chainName, from, request), from, signer: 'unlocked' }
+  } catch (error) {
+    if (!isSignerMissing(error)) throw error
+  }
+  await setImpersonation(chainName, from, true)
+  try {
+    return { transactionHash: await sendFromNode(chainName, from, request), from, signer: 'impersonated' }
+  } finally {
+    await setImpersonation(chainName, from, false).catch(() => undefined)
+  }
+}
+
+// Send a transaction on a dev chain without the browser wallet and wait for its receipt. A revert
+// caught by the node's gas estimation surfaces as the RPC error, with the revert data attached
+export async function sendDevTransaction(chainName: ChainName, request: DevTransactionRequest): Promise<DevTransactionResult> {
+  const clientManager = getClientManager()
+  if (!clientManager.isDevChain(chainName)) {
+    throw new Error(`${chainName} is not a dev chain; add it to devSigner.chains to send transactions without the browser wallet`)
+  }
+
+  const submitted = await submit(chainName, request)
+  const receipt = await clientManager
+    .getClient(chainName)
+    .waitForTransactionReceipt({ hash: submitted.transactionHash, timeout: RECEIPT_TIMEOUT_MS })
+  return {
+    ...submitted,
+    status: receipt.status,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.effectiveGasPrice,
+    logs: await decodeLogs(receipt.logs, { chainName })
+  }
+}
@@ -0,0 +1,143 @@
+import { getClientManager } from './client.js'
+
+export interface EtherscanClientOptions {
+  apiKeys: string[]
+  // Sustained request rate allowed per API key (Etherscan free tier: 5/s)
+  requestsPerSecond?: number
+  // Retries after a rate-limit response before giving up
+  maxRetries?: number
+  // First backoff delay; doubles on every retry
+  baseDelayMs?: number
+}
+
+export interface EtherscanResponse<T = unknown> {
+  status: string
+  message?: string
+  result: T
+}
+
+// Token bucket: allows bursts up to `capacity`, refilled continuously at `refillPerSecond`
+export class TokenBucket {
+  private tokens: number
+  private lastRefill = Date.now()
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number
+  ) {
+    this.tokens = capacity
+  }
+
+  private refill() {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond)
+    this.lastRefill = now
+  }
+
+  // Resolve once a token is available. Callers are served in FIFO order
+  take(): Promise<void> {
+    const next = this.queue.then(async () => {
+      this.refill()
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000)
+        this.refill()
+      }
+      this.tokens -= 1
+    })
+    this.queue = next
+    return next
+  }
+}
+
+// Shared Etherscan API client: per-key rate limiting, round-robin key rotation
+// and exponential backoff when Etherscan reports that the rate limit was hit
+export class EtherscanClient {
+  private keys: Array<{ apiKey: string; bucket: TokenBucket }>
+  private nextKey = 0
+  private maxRetries: number
+  private baseDelayMs: number
+
+  constructor(options: EtherscanClientOptions) {
+    if (options.apiKeys.length === 0) {
+      throw new Error('At least one Etherscan API key is required')
+    }
+    const requestsPerSecond = options.requestsPerSecond ?? 5
+    this.keys = options.apiKeys.map((apiKey) => ({
+      apiKey,
+      bucket: new TokenBucket(requestsPerSecond, requestsPerSecond)
+    }))
+    this.maxRetries = options.maxRetries ?? 5
+    this.baseDelayMs = options.baseDelayMs ?? 1_000
+  }
+
+  get keyCount(): number {
+    return this.keys.length
+  }
+
+  async request<T = unknown>(
+    apiUrl: string,
+    params: Record<string, string | number>
+  ): Promise<EtherscanResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const key = this.keys[this.nextKey]
+      this.nextKey = (this.nextKey + 1) % this.keys.length
+      await key.bucket.take()
+
+      const url = new URL(apiUrl)
+      for (const [name, value] of Object.entries(params)) {
+        url.searchParams.set(name, String(value))
+      }
+      url.searchParams.set('apikey', key.apiKey)
+
+      const response = await fetch(url)
+      const data = response.status === 429 ? undefined : ((await response.json()) as EtherscanResponse<T>)
+
+      if (data && !isRateLimited(data)) {
+        return data
+      }
+
+      if (attempt >= this.maxRetries) {
+        throw new Error(`Etherscan API rate limit reached after ${this.maxRetries} retries`)
+      }
+
+      // Back off exponentially with jitter; the next attempt also moves on to the next key
+      const delay = this.baseDelayMs * 2 ** attempt
+      await sleep(delay / 2 + Math.random() * (delay / 2))
+    }
+  }
+}
+
+// Etherscan answers rate-limited calls with HTTP 200 and status "0", e.g. "Max rate limit reached"
+// or "Max calls per sec rate limit reached (5/sec)"
+function isRateLimited(data: EtherscanResponse<unknown>): boolean {
+  return data.status === '0' && typeof data.result === 'string' && /rate limit/i.test(data.result)
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+let etherscanClient: EtherscanClient | null = null
+let etherscanClientKeys: string | null = null
+
+// Shared client built from the active config so every tool draws from the same rate limit budget
+export function getEtherscanClient(): EtherscanClient {
+  const config = getClientManager().getConfig()
+  const apiKeys: string[] = config.etherscanApiKeys ?? (config.etherscanApiKey ? [config.etherscanApiKey] : [])
+  if (apiKeys.length === 0) {
+    throw new Error(
+      'Etherscan API key is required. Use --etherscan-api-key or set ETHERSCAN_API_KEY environment variable.'
+    )
+  }
+
+  if (!etherscanClient || etherscanClientKeys !== apiKeys.join(',')) {
+    etherscanClient = new EtherscanClient({
+      apiKeys,
+      requestsPerSecond: config.etherscan?.requestsPerSecond,
+      maxRetries: config.etherscan?.maxRetries
+    })
+    etherscanClientKeys = apiKeys.join(',')
+  }
+  return etherscanClient
+}
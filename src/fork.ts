@@ -0,0 +1,230 @@
+import { type ChildProcess, spawn } from 'child_process'
+import { createServer } from 'net'
+import { createTestClient, defineChain, http } from 'viem'
+import { getChainId } from 'viem/actions'
+import type { ChainName } from './types.js'
+import { FORK_CHAIN, getClientManager } from './client.js'
+import { redactUrl } from './rpc-health.js'
+
+export interface ForkInfo {
+  chain: typeof FORK_CHAIN
+  forkedFrom: ChainName
+  forkBlockNumber: bigint
+  // anvil keeps the forked chain's ID, so verified contract lookups and known contracts keep working
+  chainId: number
+  rpcUrl: string
+  pid?: number
+  startedAt: string
+}
+
+export interface ForkOptions {
+  chain: ChainName
+  // Defaults to the source chain's latest block, pinned so the fork is reproducible
+  blockNumber?: bigint
+  // Defaults to a free local port
+  port?: number
+}
+
+// Time allowed for anvil to fetch the fork block and answer RPC requests
+const STARTUP_TIMEOUT_MS = 60_000
+const STOP_TIMEOUT_MS = 5_000
+// Output lines kept to explain a failed start
+const OUTPUT_LINES = 20
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer()
+    server.once('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address()
+      server.close(() => (address && typeof address === 'object' ? resolve(address.port) : reject(new Error('No free port'))))
+    })
+  })
+}
+
+function createForkClient(rpcUrl: string) {
+  return createTestClient({ mode: 'anvil', transport: http(rpcUrl, { retryCount: 0 }) })
+}
+
+// Runs one anvil fork as a child process and exposes it to every tool as the "fork" chain
+export class ForkManager {
+  private child: ChildProcess | null = null
+  private info: ForkInfo | null = null
+  private client: ReturnType<typeof createForkClient> | null = null
+  // Set while anvil starts, so a second start_fork cannot spawn another process in the meantime
+  private starting: Promise<ForkInfo> | null = null
+  private killOnExit = () => this.child?.kill()
+
+  async start(options: ForkOptions): Promise<ForkInfo> {
+    if (this.info) {
+      throw new Error(`A fork of ${this.info.forkedFrom} is already running at ${this.info.rpcUrl}; stop it with stop_fork first`)
+    }
+    if (this.starting) {
+      throw new Error('A fork is already starting; wait for it, then stop it with stop_fork first')
+    }
+    if (options.chain === FORK_CHAIN) {
+      throw new Error('Cannot fork the fork; choose the chain it was forked from')
+    }
+
+    this.starting = this.launch(options)
+    try {
+      return await this.starting
+    } finally {
+      this.starting = null
+    }
+  }
+
+  private async launch(options: ForkOptions): Promise<ForkInfo> {
+    const clientManager = getClientManager()
+    const source = clientManager.getChainEntry(options.chain)
+    const forkBlockNumber = options.blockNumber ?? (await clientManager.getClient(options.chain).getBlockNumber())
+    const port = options.port ?? (await findFreePort())
+    const rpcUrl = `http://127.0.0.1:${port}`
+    const anvilPath = clientManager.getAnvilPath()
+
+    const output: string[] = []
+    // The fork URL goes through ETH_RPC_URL (anvil's fallback for --fork-url) rather than the command line,
+    // where any local user could read its API key with ps
+    const child = spawn(
+      anvilPath,
+      ['--fork-block-number', forkBlockNumber.toString(), '--port', String(port), '--host', '127.0.0.1'],
+      { stdio: ['ignore', 'pipe', 'pipe'], env: { ...process.env, ETH_RPC_URL: source.rpc } }
+    )
+    const collect = (data: Buffer) => {
+      // anvil echoes the fork URL in its banner and errors; start failures report these lines
+      output.push(...data.toString().replaceAll(source.rpc, redactUrl(source.rpc)).split('\n').filter(Boolean))
+      output.splice(0, Math.max(0, output.length - OUTPUT_LINES))
+    }
+    child.stdout?.on('data', collect)
+    child.stderr?.on('data', collect)
+
+    const exited = new Promise<never>((_, reject) => {
+      child.once('error', (error: NodeJS.ErrnoException) => {
+        reject(
+          new Error(
+            error.code === 'ENOENT'
+              ? `anvil not found at "${anvilPath}". Install Foundry (https://getfoundry.sh) or set anvil.path in the config (or ANVIL_PATH)`
+              : `Failed to start anvil: ${error.message}`
+          )
+        )
+      })
+      child.once('exit', (code, signal) => {
+        reject(new Error(`anvil exited (${signal ?? `code ${code}`}) before it was ready:\n${output.join('\n')}`))
+      })
+    })
+    // The exit rejection is only observed while waiting for startup
+    exited.catch(() => undefined)
+
+    const client = createForkClient(rpcUrl)
+    let chainId: number
+    try {
+      chainId = await Promise.race([this.waitUntilReady(client, child), exited])
+    } catch (error) {
+      child.kill()
+      throw error
+    }
+
+    this.child = child
+    this.client = client
+    this.info = {
+      chain: FORK_CHAIN,
+      forkedFrom: options.chain,
+      forkBlockNumber,
+      chainId,
+      rpcUrl,
+      pid: child.pid,
+      startedAt: new Date().toISOString()
+    }
+    process.once('exit', this.killOnExit)
+
+    // A crashed or externally stopped anvil takes the chain with it
+    child.once('exit', () => {
+      if (this.child === child) {
+        console.error(`[Fork] anvil (pid ${child.pid}) exited; the "${FORK_CHAIN}" chain is no longer available`)
+        this.reset()
+      }
+    })
+
+    clientManager.registerDynamicChain(
+      FORK_CHAIN,
+      defineChain({
+        ...source.chain,
+        id: chainId,
+        name: `${source.chain.name} (fork)`,
+        rpcUrls: { default: { http: [rpcUrl] } },
+        blockExplorers: undefined,
+        testnet: true
+      }),
+      [rpcUrl]
+    )
+    console.error(`[Fork] Forked ${options.chain} at block ${forkBlockNumber} on ${rpcUrl}`)
+    return this.info
+  }
+
+  async stop(): Promise<ForkInfo | null> {
+    // A fork still starting is stopped once it is up (or has failed)
+    await this.starting?.catch(() => null)
+    const { child, info } = this
+    if (!child || !info) return null
+
+    this.reset()
+    if (child.exitCode === null && child.signalCode === null) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT_MS)
+        child.once('exit', () => {
+          clearTimeout(timer)
+          resolve()
+        })
+        child.kill('SIGTERM')
+      })
+    }
+    console.error(`[Fork] Stopped fork of ${info.forkedFrom}`)
+    return info
+  }
+
+  getInfo(): ForkInfo | null {
+    return this.info
+  }
+
+  // Test client for anvil's cheat methods (snapshots, mining, balances, storage, impersonation)
+  getClient() {
+    if (!this.client) {
+      throw new Error('No fork is running. Start one with start_fork')
+    }
+    return this.client
+  }
+
+  private reset() {
+    process.removeListener('exit', this.killOnExit)
+    this.child = null
+    this.client = null
+    this.info = null
+    getClientManager().unregisterDynamicChain(FORK_CHAIN)
+  }
+
+  private async waitUntilReady(client: ReturnType<typeof createForkClient>, child: ChildProcess): Promise<number> {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS
+    // Stop polling once the process is gone; its exit is reported by start()
+    while (child.exitCode === null && child.signalCode === null) {
+      try {
+        return await getChainId(client)
+      } catch (error) {
+        if (Date.now() > deadline) {
+          throw new Error(`anvil did not answer within ${STARTUP_TIMEOUT_MS / 1000}s: ${error instanceof Error ? error.message.split('\n')[0] : error}`)
+        }
+        await new Promise((resolve) => setTimeout(resolve, 250))
+      }
+    }
+    throw new Error('anvil exited before it was ready')
+  }
+}
+
+// Singleton instance
+let forkManager: ForkManager | null = null
+
+export function getForkManager(): ForkManager {
+  if (!forkManager) {
+    forkManager = new ForkManager()
+  }
+  return forkManager
+}
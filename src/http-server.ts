@@ -0,0 +1,268 @@
+import express from 'express'
+import cors from 'cors'
+import { createServer } from 'http'
+import { randomUUID, timingSafeEqual } from 'crypto'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+
+export interface HttpServerOptions {
+  port: number
+  host: string
+  authToken?: string
+  // Browser origins (e.g. "https://app.example.com") allowed besides localhost
+  allowedOrigins?: string[]
+}
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]']
+
+// A live MCP session: every session gets its own McpServer instance bound to one transport
+interface Session {
+  server: McpServer
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+}
+
+export class McpHttpServer {
+  private app: express.Application
+  private httpServer: ReturnType<typeof createServer>
+  private sessions: Map<string, Session> = new Map()
+  private createMcpServer: () => McpServer
+  private options: HttpServerOptions
+
+  constructor(createMcpServer: () => McpServer, options: HttpServerOptions) {
+    this.createMcpServer = createMcpServer
+    this.options = options
+    this.app = express()
+    this.httpServer = createServer(this.app)
+
+    this.setupExpress()
+  }
+
+  private setupExpress() {
+    this.app.use(
+      cors({
+        origin: (origin, callback) => callback(null, !origin || this.isAllowedOrigin(origin)),
+        exposedHeaders: ['Mcp-Session-Id']
+      })
+    )
+    this.app.use(express.json({ limit: '4mb' }))
+
+    // Health check is left unauthenticated so reverse proxies can probe it
+    this.app.get('/health', (_req, res) => {
+      res.json({
+        status: 'ok',
+        sessions: this.sessions.size
+      })
+    })
+
+    this.app.use(this.checkRequestSource.bind(this))
+    this.app.use(this.authenticate.bind(this))
+
+    // Streamable HTTP transport (MCP spec 2025-03-26)
+    this.app.post('/mcp', (req, res) => this.handleStreamableRequest(req, res))
+    this.app.get('/mcp', (req, res) => this.handleStreamableRequest(req, res))
+    this.app.delete('/mcp', (req, res) => this.handleStreamableRequest(req, res))
+
+    // Deprecated HTTP+SSE transport (MCP spec 2024-11-05) for older clients
+    this.app.get('/sse', (req, res) => this.handleSseConnect(req, res))
+    this.app.post('/messages', (req, res) => this.handleSseMessage(req, res))
+  }
+
+  // Blocks web pages from driving the server (tools can send transactions): cross-site origins are refused, and
+  // without a token only loopback Host headers are accepted, so a DNS-rebound name pointing here is rejected too
+  private checkRequestSource(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const origin = req.headers.origin
+    if (origin && !this.isAllowedOrigin(origin)) {
+      res.status(403).json(jsonRpcError(-32000, `Origin not allowed: ${origin}`))
+      return
+    }
+
+    if (!this.options.authToken) {
+      const hostname = parseHostname(req.headers.host)
+      const allowed = [
+        ...LOOPBACK_HOSTNAMES,
+        ...(this.options.host === '0.0.0.0' || this.options.host === '::' ? [] : [this.options.host.toLowerCase()]),
+        ...(this.options.allowedOrigins ?? []).map(parseHostname)
+      ]
+      if (!hostname || !allowed.includes(hostname)) {
+        res.status(403).json(jsonRpcError(-32000, 'Host not allowed; set an auth token to accept requests for other hosts'))
+        return
+      }
+    }
+
+    next()
+  }
+
+  private isAllowedOrigin(origin: string): boolean {
+    const hostname = parseHostname(origin)
+    return (
+      (hostname !== undefined && LOOPBACK_HOSTNAMES.includes(hostname)) ||
+      (this.options.allowedOrigins ?? []).some((allowed) => allowed.replace(/\/$/, '').toLowerCase() === origin.toLowerCase())
+    )
+  }
+
+  private authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+    if (!this.options.authToken) {
+      next()
+      return
+    }
+
+    const header = req.headers.authorization || ''
+    const token = header.startsWith('Bearer ') ? header.slice(7) : ''
+    const expected = Buffer.from(this.options.authToken)
+    const received = Buffer.from(token)
+
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json(jsonRpcError(-32001, 'Unauthorized'))
+      return
+    }
+
+    next()
+  }
+
+  private async handleStreamableRequest(req: express.Request, res: express.Response) {
+    try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined
+      const existing = sessionId ? this.sessions.get(sessionId) : undefined
+
+      if (existing) {
+        if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+          res.status(400).json(jsonRpcError(-32000, 'Session was created with the SSE transport'))
+          return
+        }
+        await existing.transport.handleRequest(req, res, req.body)
+        return
+      }
+
+      if (sessionId) {
+        res.status(404).json(jsonRpcError(-32001, 'Session not found'))
+        return
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+        res.status(400).json(jsonRpcError(-32000, 'No valid session ID provided'))
+        return
+      }
+
+      const server = this.createMcpServer()
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, { server, transport })
+          console.error(`[HTTP Server] Session ${id} initialized`)
+        }
+      })
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.sessions.delete(transport.sessionId)
+          console.error(`[HTTP Server] Session ${transport.sessionId} closed`)
+        }
+      }
+
+      await server.connect(transport)
+      await transport.handleRequest(req, res, req.body)
+    } catch (error) {
+      console.error('[HTTP Server] Error handling request:', error)
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(-32603, 'Internal server error'))
+      }
+    }
+  }
+
+  private async handleSseConnect(_req: express.Request, res: express.Response) {
+    try {
+      const server = this.createMcpServer()
+      const transport = new SSEServerTransport('/messages', res)
+      this.sessions.set(transport.sessionId, { server, transport })
+
+      res.on('close', () => {
+        this.sessions.delete(transport.sessionId)
+        console.error(`[HTTP Server] SSE session ${transport.sessionId} closed`)
+      })
+
+      await server.connect(transport)
+      console.error(`[HTTP Server] SSE session ${transport.sessionId} initialized`)
+    } catch (error) {
+      console.error('[HTTP Server] Error opening SSE stream:', error)
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(-32603, 'Internal server error'))
+      }
+    }
+  }
+
+  private async handleSseMessage(req: express.Request, res: express.Response) {
+    try {
+      const sessionId = req.query.sessionId as string | undefined
+      const session = sessionId ? this.sessions.get(sessionId) : undefined
+
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        res.status(404).json(jsonRpcError(-32001, 'Session not found'))
+        return
+      }
+
+      await session.transport.handlePostMessage(req, res, req.body)
+    } catch (error) {
+      console.error('[HTTP Server] Error handling SSE message:', error)
+      if (!res.headersSent) {
+        res.status(500).json(jsonRpcError(-32603, 'Internal server error'))
+      }
+    }
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject)
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.removeListener('error', reject)
+        const address = this.httpServer.address()
+        if (address && typeof address === 'object') {
+          this.options.port = address.port
+        }
+        console.error(`[HTTP Server] MCP endpoint at http://${this.options.host}:${this.options.port}/mcp`)
+        resolve()
+      })
+    })
+  }
+
+  async stop() {
+    for (const { server } of this.sessions.values()) {
+      await server.close().catch(() => undefined)
+    }
+    this.sessions.clear()
+
+    return new Promise<void>((resolve) => {
+      this.httpServer.close(() => {
+        console.error('[HTTP Server] Stopped')
+        resolve()
+      })
+    })
+  }
+
+  getPort(): number {
+    return this.options.port
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size
+  }
+}
+
+// Lowercase hostname of a Host header ("127.0.0.1:3000") or an origin ("http://localhost:3000")
+function parseHostname(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname.toLowerCase()
+  } catch {
+    return undefined
+  }
+}
+
+function jsonRpcError(code: number, message: string) {
+  return {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }
+}
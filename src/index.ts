@@ -3,13 +3,21 @@
 import packageJson from "../package.json" with { type: "json" };
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createCacheStore, DEFAULT_CACHE_DIRECTORY } from "./cache.js";
 import { initializeClientManager } from "./client.js";
-import { registerAllTools } from "./tools/index.js";
+import { getForkManager } from "./fork.js";
+import { McpHttpServer } from "./http-server.js";
 import { parseCommandLineArgs } from "./utils.js";
 import { startWalletServer } from "./wallet-server.js";
 
 // Parse configuration
-const config = parseCommandLineArgs();
+let config: ReturnType<typeof parseCommandLineArgs>;
+try {
+  config = parseCommandLineArgs();
+} catch (error) {
+  console.error(`[MCP] Configuration error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
 
 // Show help if requested
 if (config.showHelp) {
@@ -22,21 +30,47 @@ USAGE:
 
 OPTIONS:
   --help, -h                    Show this help message
-  --etherscan-api-key <key>     Etherscan API key (for contract ABI retrieval)
+  --config <path>               Config file (JSON or YAML) with API keys, per-chain RPCs and profiles
+  --profile <name>              Profile from the config file to apply (e.g. dev, prod)
+  --etherscan-api-key <keys>    Etherscan API key(s), comma-separated to rotate several keys
   --alchemy-api-key <key>       Alchemy API key (for enhanced RPC)
   --infura-api-key <key>        Infura API key (for alternative RPC)
   --hypersync-api-key <key>     Hypersync API key (for fast event queries)
   --custom-rpc <json>           Custom RPC URLs as JSON object
                                 Example: '{"mainnet":"https://...", "base":"https://..."}'
+  --transport <stdio|http>      MCP transport (default: stdio)
+  --port <port>                 HTTP transport port (default: 3000)
+  --host <host>                 HTTP transport bind address (default: 127.0.0.1)
+  --auth-token <token>          Require "Authorization: Bearer <token>" on HTTP requests
+  --allowed-origins <list>      Browser origins allowed to call the HTTP transport besides localhost
+  --contract-providers <list>   Verified-source provider order (default: etherscan,sourcify)
+  --cache-dir <path>            Persist verified contract data (ABI, source) on disk in this directory
+  --clear-cache                 Delete all cached contract data and exit
 
 ENVIRONMENT VARIABLES:
   ETHERSCAN_API_KEY             Alternative to --etherscan-api-key
   ALCHEMY_API_KEY               Alternative to --alchemy-api-key
   INFURA_API_KEY                Alternative to --infura-api-key
   HYPERSYNC_API_KEY             Alternative to --hypersync-api-key
+  WEB3_TOOLS_CONFIG             Alternative to --config
+  WEB3_TOOLS_PROFILE            Alternative to --profile
+  MCP_TRANSPORT                 Alternative to --transport
+  MCP_HTTP_PORT                 Alternative to --port
+  MCP_HTTP_HOST                 Alternative to --host
+  MCP_AUTH_TOKEN                Alternative to --auth-token
+  MCP_ALLOWED_ORIGINS           Alternative to --allowed-origins
+  WEB3_TOOLS_CACHE_DIR          Alternative to --cache-dir
+  ANVIL_PATH                    anvil binary used by start_fork (default: anvil on PATH)
+  DEV_SIGNER_PRIVATE_KEY        Key that signs transactions on dev chains other than fork without the browser
+  KEYSTORE_PASSWORD             Password for the keystore signer (signer.type: keystore in the config file)
+  SIGNER_MNEMONIC               Phrase for the mnemonic signer (signer.type: mnemonic in the config file)
 
 SUPPORTED CHAINS:
-  mainnet, arbitrum, avalanche, base, bnb, gnosis, sonic, optimism, polygon, zksync, linea, unichain, localhost
+  Mainnets: mainnet, arbitrum, avalanche, base, bnb, gnosis, sonic, optimism, polygon, zksync, linea, unichain
+  Testnets: sepolia, holesky, base-sepolia, arbitrum-sepolia, optimism-sepolia, polygon-amoy, avalanche-fuji,
+            bnb-testnet, linea-sepolia, zksync-sepolia, unichain-sepolia
+  Local:    localhost, fork (anvil fork of any chain, created with start_fork)
+  Additional chains can be registered in the config file (see README.md)
 
 EXAMPLES:
   # Use with npx (recommended)
@@ -49,6 +83,12 @@ EXAMPLES:
   # Use custom RPC
   npx web3-tools-mcp --custom-rpc '{"mainnet":"https://my-rpc.com"}'
 
+  # Use a config file profile
+  npx web3-tools-mcp --config web3-tools.yaml --profile prod
+
+  # Serve multiple agents over Streamable HTTP (endpoint: http://host:port/mcp)
+  npx web3-tools-mcp --transport http --port 3000 --auth-token YOUR_SECRET
+
 DOCUMENTATION:
   GitHub: ${packageJson.repository.url.replace('git+', '').replace('.git', '')}
   Issues: ${packageJson.bugs.url}
@@ -58,8 +98,25 @@ For MCP client configuration, see the README.md file.
   process.exit(0);
 }
 
+// Invalidate the contract cache (with its proxy detections) and exit
+if (config.clearCache) {
+  const cache = createCacheStore(config.cache);
+  const removed = await cache.clear();
+  const proxies = await createCacheStore(config.cache, "proxies").clear();
+  const stats = await cache.stats();
+  console.log(
+    `Removed ${removed} cached contract(s) and ${proxies} proxy detection(s)${stats.directory ? ` from ${stats.directory}` : ""}`
+  );
+  process.exit(0);
+}
+
 // Log configuration info
-if (config.etherscanApiKey) {
+if (config.configPath) {
+  console.error(`[MCP] Loaded config file ${config.configPath}${config.profile ? ` (profile: ${config.profile})` : ""}`);
+}
+if (config.etherscanApiKeys && config.etherscanApiKeys.length > 1) {
+  console.error(`[MCP] ${config.etherscanApiKeys.length} Etherscan API keys configured (round-robin)`);
+} else if (config.etherscanApiKey) {
   console.error("[MCP] Etherscan API key configured");
 }
 if (config.alchemyApiKey) {
@@ -71,18 +128,26 @@ if (config.infuraApiKey) {
 if (config.customRpcUrls) {
   console.error("[MCP] Custom RPC URLs:", Object.keys(config.customRpcUrls));
 }
+if (config.chains) {
+  console.error("[MCP] Chain overrides:", Object.keys(config.chains));
+}
+if (config.cache?.type === "filesystem" || config.cache?.directory) {
+  console.error(`[MCP] Contract cache directory: ${config.cache.directory ?? DEFAULT_CACHE_DIRECTORY}`);
+}
 
-// Initialize client manager
+// Initialize client manager (registers custom chains, so it must run before the tools are loaded)
 initializeClientManager(config);
-
-// Create MCP server instance
-const server = new McpServer({
-  name: "web3-tools-mcp",
-  version: packageJson.version,
-});
-
-// Register all tools
-registerAllTools(server);
+const { registerAllTools } = await import("./tools/index.js");
+
+// Create an MCP server instance with all tools registered
+function createMcpServer(): McpServer {
+  const server = new McpServer({
+    name: "web3-tools-mcp",
+    version: packageJson.version,
+  });
+  registerAllTools(server);
+  return server;
+}
 
 // Start wallet server in background
 startWalletServer().catch((error) => {
@@ -92,9 +157,38 @@ startWalletServer().catch((error) => {
 
 // Start server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Web3 Tools MCP Server running on stdio");
+  if (config.transport === "http") {
+    const httpServer = new McpHttpServer(createMcpServer, {
+      port: config.httpPort ?? 3000,
+      host: config.httpHost ?? "127.0.0.1",
+      authToken: config.authToken,
+      allowedOrigins: config.allowedOrigins,
+    });
+    await httpServer.start();
+    if (!config.authToken && config.httpHost && !["127.0.0.1", "localhost"].includes(config.httpHost)) {
+      console.error("[MCP] Warning: HTTP transport is exposed without --auth-token");
+    }
+    console.error(`Web3 Tools MCP Server running on http://${config.httpHost ?? "127.0.0.1"}:${httpServer.getPort()}/mcp`);
+
+    const shutdown = () => {
+      Promise.allSettled([httpServer.stop(), getForkManager().stop()]).finally(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  } else {
+    const transport = new StdioServerTransport();
+    await createMcpServer().connect(transport);
+    console.error("Web3 Tools MCP Server running on stdio");
+
+    // A signal skips the exit handler that kills anvil, so stop a running fork before exiting
+    const shutdown = () => {
+      getForkManager()
+        .stop()
+        .finally(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  }
   console.error("Wallet interface available at http://localhost:3456");
 }
 
@@ -0,0 +1,143 @@
+import { type Address, getAddress, type Hex, parseAbi, zeroAddress } from 'viem'
+import type { ChainName } from './types.js'
+import { getClientManager } from './client.js'
+
+// How a proxy delegates: EIP-1967 implementation slot, EIP-1967 beacon, EIP-1822 (UUPS) PROXIABLE slot,
+// EIP-1167 minimal proxy bytecode, Safe singleton (slot 0), or EIP-2535 diamond facets
+export type ProxyKind = 'eip1967' | 'eip1967-beacon' | 'eip1822' | 'eip1167' | 'safe' | 'diamond'
+
+export interface DiamondFacet {
+  address: string
+  selectors: Hex[]
+}
+
+export interface ProxyDetection {
+  address: string
+  isProxy: boolean
+  // False when the address has no code
+  isContract: boolean
+  kind?: ProxyKind
+  // Contracts holding the logic: one implementation, or every facet of a diamond
+  implementations: string[]
+  admin?: string
+  beacon?: string
+  facets?: DiamondFacet[]
+}
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+export const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+// bytes32(uint256(keccak256('eip1967.proxy.admin')) - 1)
+export const EIP1967_ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103'
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+export const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50'
+// keccak256('PROXIABLE')
+export const EIP1822_PROXIABLE_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7'
+
+// EIP-1167 runtime code around the 20-byte implementation, and the PUSH0 variant of ERC-7511
+const MINIMAL_PROXY_PATTERNS = [
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3/i,
+  /^0x365f5f375f5f365f73([0-9a-f]{40})5af43d5f5f3e5f3d91602a57fd5bf3/i
+]
+
+const proxyAbi = parseAbi([
+  'function implementation() view returns (address)',
+  'function masterCopy() view returns (address)',
+  'struct Facet { address facetAddress; bytes4[] functionSelectors; }',
+  'function facets() view returns (Facet[])'
+])
+
+// Address stored in the low 20 bytes of a slot, or undefined for an empty slot
+function slotAddress(value: Hex | undefined): string | undefined {
+  if (!value || value.length < 42) return undefined
+  const address = `0x${value.slice(-40)}`
+  return address === zeroAddress ? undefined : getAddress(address)
+}
+
+// Detect a proxy from on-chain state alone (code and storage), independent of explorer metadata
+export async function detectProxy(
+  chainName: ChainName,
+  address: string,
+  blockNumber?: string
+): Promise<ProxyDetection> {
+  const clientManager = getClientManager()
+  const client = clientManager.getClient(chainName)
+  const block = clientManager.getBlockParameter(chainName, blockNumber)
+  const target = address as Address
+  const result: ProxyDetection = { address, isProxy: false, isContract: false, implementations: [] }
+
+  const code = await client.getCode({ address: target, ...block })
+  if (!code || code === '0x') return result
+  result.isContract = true
+
+  for (const pattern of MINIMAL_PROXY_PATTERNS) {
+    const match = pattern.exec(code)
+    if (match) {
+      return { ...result, isProxy: true, kind: 'eip1167', implementations: [getAddress(`0x${match[1]}`)] }
+    }
+  }
+
+  const readSlot = (slot: Hex) => client.getStorageAt({ address: target, slot, ...block }).catch(() => undefined)
+  const [implementation, admin, beacon, proxiable, slot0] = (
+    await Promise.all([
+      readSlot(EIP1967_IMPLEMENTATION_SLOT),
+      readSlot(EIP1967_ADMIN_SLOT),
+      readSlot(EIP1967_BEACON_SLOT),
+      readSlot(EIP1822_PROXIABLE_SLOT),
+      readSlot('0x0')
+    ])
+  ).map(slotAddress)
+  if (admin) result.admin = admin
+
+  if (implementation) {
+    return { ...result, isProxy: true, kind: 'eip1967', implementations: [implementation] }
+  }
+  if (beacon) {
+    const beaconImplementation = await client
+      .readContract({ address: beacon as Address, abi: proxyAbi, functionName: 'implementation', ...block })
+      .catch(() => undefined)
+    return {
+      ...result,
+      isProxy: true,
+      kind: 'eip1967-beacon',
+      beacon,
+      implementations: beaconImplementation && beaconImplementation !== zeroAddress ? [beaconImplementation] : []
+    }
+  }
+  if (proxiable) {
+    return { ...result, isProxy: true, kind: 'eip1822', implementations: [proxiable] }
+  }
+
+  // Safe proxies answer masterCopy() from slot 0 themselves; any other contract with an address in
+  // slot 0 will not return the same value
+  if (slot0) {
+    const masterCopy = await client
+      .readContract({ address: target, abi: proxyAbi, functionName: 'masterCopy', ...block })
+      .catch(() => undefined)
+    if (masterCopy && getAddress(masterCopy) === slot0) {
+      return { ...result, isProxy: true, kind: 'safe', implementations: [slot0] }
+    }
+  }
+
+  // Diamonds serve facets() from a loupe facet through their fallback, so the selector is not in their
+  // own code; the call is made last, after the cheap checks, and a revert means no diamond
+  const facets = await client
+    .readContract({ address: target, abi: proxyAbi, functionName: 'facets', ...block })
+    .catch(() => undefined)
+  if (facets && facets.length > 0) {
+    const diamondFacets = facets
+      .filter((facet) => facet.facetAddress !== zeroAddress)
+      .map((facet) => ({ address: getAddress(facet.facetAddress), selectors: [...facet.functionSelectors] }))
+    return {
+      ...result,
+      isProxy: true,
+      kind: 'diamond',
+      // Loupe functions of the diamond itself are reported as a facet at its own address
+      implementations: [...new Set(diamondFacets.map((facet) => facet.address))].filter(
+        (facet) => facet.toLowerCase() !== address.toLowerCase()
+      ),
+      facets: diamondFacets
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,234 @@
+import { type Abi, BaseError, decodeAbiParameters, decodeErrorResult, type Hex, isAddress, isHex } from 'viem'
+import type { AbiError, ChainName } from './types.js'
+import { fetchContractAbi } from './contract-providers.js'
+import { lookupSignature, toErrorSelector, toErrorSignature } from './signature-db.js'
+
+const ERROR_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler inserted panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic underflow or overflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory (too large allocation)',
+  0x51: 'call to an uninitialized internal function'
+}
+
+export interface DecodedRevert {
+  // error: Error(string), panic: Panic(uint256), custom: decoded custom error,
+  // unknown: custom error selector not found, empty: reverted without data
+  kind: 'error' | 'panic' | 'custom' | 'unknown' | 'empty'
+  // Human-readable one-line summary
+  reason: string
+  selector?: Hex
+  errorName?: string
+  signature?: string
+  args?: Array<{ name: string; type: string; value: unknown }>
+  panicCode?: number
+  abiSource?: 'provided' | 'verified' | 'local'
+  // Other bundled errors sharing the selector that also decoded the data
+  alternatives?: string[]
+  data?: Hex
+}
+
+export interface RevertDecodeOptions {
+  chainName?: ChainName
+  // Contract that reverted; its verified ABI is searched for custom errors
+  address?: string
+  // Caller supplied error definitions, tried first
+  errorAbi?: Abi
+}
+
+// Find raw revert data anywhere in a viem error chain (ContractFunctionRevertedError.raw,
+// RawContractError.data, or the RPC error's data field)
+export function extractRevertData(error: unknown): Hex | undefined {
+  let found: Hex | undefined
+  const inspect = (value: unknown) => {
+    if (found || !value || typeof value !== 'object') return
+    const candidate = value as { raw?: unknown; data?: unknown }
+    if (typeof candidate.raw === 'string' && isHex(candidate.raw)) {
+      found = candidate.raw
+    } else if (typeof candidate.data === 'string' && isHex(candidate.data)) {
+      found = candidate.data
+    } else if (candidate.data && typeof candidate.data === 'object') {
+      const nested = (candidate.data as { data?: unknown }).data
+      if (typeof nested === 'string' && isHex(nested)) found = nested
+    }
+  }
+
+  if (error instanceof BaseError) {
+    error.walk((cause) => {
+      inspect(cause)
+      return false
+    })
+  } else {
+    let current: unknown = error
+    for (let depth = 0; current && depth < 10 && !found; depth++) {
+      inspect(current)
+      current = (current as { cause?: unknown }).cause
+    }
+  }
+  return found
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'bigint') return value.toString()
+  if (typeof value === 'string') return value
+  return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item))
+}
+
+// Decodes revert data, resolving custom errors from the supplied ABI, then the reverting
+// contract's verified ABI, then the local signature database
+export class RevertDecoder {
+  private verifiedAbis = new Map<string, Promise<Abi | null>>()
+
+  constructor(private options: RevertDecodeOptions = {}) {}
+
+  async decode(data: Hex | undefined, address = this.options.address): Promise<DecodedRevert> {
+    if (!data || data === '0x') {
+      return { kind: 'empty', reason: 'Reverted without a reason' }
+    }
+    if (!isHex(data) || data.length < 10) {
+      return { kind: 'unknown', reason: `Malformed revert data ${data}`, data }
+    }
+
+    const selector = data.slice(0, 10).toLowerCase() as Hex
+
+    if (selector === ERROR_SELECTOR) {
+      try {
+        const [message] = decodeAbiParameters([{ type: 'string' }], `0x${data.slice(10)}`)
+        return { kind: 'error', reason: message, selector, errorName: 'Error', signature: 'Error(string)', data }
+      } catch {
+        return { kind: 'unknown', reason: 'Malformed Error(string) revert data', selector, data }
+      }
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      try {
+        const [code] = decodeAbiParameters([{ type: 'uint256' }], `0x${data.slice(10)}`)
+        const panicCode = Number(code)
+        const description = PANIC_CODES[panicCode] ?? 'unknown panic code'
+        return {
+          kind: 'panic',
+          reason: `Panic(0x${panicCode.toString(16).padStart(2, '0')}): ${description}`,
+          selector,
+          errorName: 'Panic',
+          signature: 'Panic(uint256)',
+          panicCode,
+          data
+        }
+      } catch {
+        return { kind: 'unknown', reason: 'Malformed Panic(uint256) revert data', selector, data }
+      }
+    }
+
+    return this.decodeCustomError(selector, data, address)
+  }
+
+  // Decode the revert data carried by a failed call's error, if any
+  async decodeError(error: unknown, address = this.options.address): Promise<DecodedRevert | undefined> {
+    const data = extractRevertData(error)
+    if (data !== undefined) {
+      return this.decode(data, address)
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    return /revert/i.test(message) ? this.decode(undefined, address) : undefined
+  }
+
+  private async decodeCustomError(selector: Hex, data: Hex, address?: string): Promise<DecodedRevert> {
+    const candidates = await this.findCandidates(selector, address)
+
+    const decodedWith: Array<{ item: AbiError; source: DecodedRevert['abiSource']; args: readonly unknown[] }> = []
+    for (const { item, source } of candidates) {
+      try {
+        const { args } = decodeErrorResult({ abi: [item], data })
+        decodedWith.push({ item, source, args: args ?? [] })
+        // Supplied and verified ABIs are authoritative; bundled signatures may collide
+        if (source !== 'local') break
+      } catch {
+        // Selector matched but the arguments do not fit this error
+      }
+    }
+
+    const match = decodedWith[0]
+    if (!match) {
+      return { kind: 'unknown', reason: `Unknown custom error ${selector}`, selector, data }
+    }
+
+    const args = match.item.inputs.map((input, index) => ({
+      name: input.name || `arg${index}`,
+      type: input.type,
+      value: match.args[index]
+    }))
+    const result: DecodedRevert = {
+      kind: 'custom',
+      reason: `${match.item.name}(${args.map((arg) => `${arg.name}=${formatValue(arg.value)}`).join(', ')})`,
+      selector,
+      errorName: match.item.name,
+      signature: toErrorSignature(match.item),
+      args,
+      abiSource: match.source,
+      data
+    }
+    if (decodedWith.length > 1) {
+      result.alternatives = decodedWith.slice(1).map(({ item }) => toErrorSignature(item))
+    }
+    return result
+  }
+
+  private async findCandidates(
+    selector: Hex,
+    address?: string
+  ): Promise<Array<{ item: AbiError; source: DecodedRevert['abiSource'] }>> {
+    const bySelector = (abi: Abi) =>
+      abi.filter((item): item is AbiError => item.type === 'error' && toErrorSelector(item) === selector)
+
+    const candidates: Array<{ item: AbiError; source: DecodedRevert['abiSource'] }> = []
+    if (this.options.errorAbi) {
+      candidates.push(...bySelector(this.options.errorAbi).map((item) => ({ item, source: 'provided' as const })))
+    }
+    if (address && isAddress(address)) {
+      const verified = await this.getVerifiedAbi(address)
+      if (verified) {
+        candidates.push(...bySelector(verified).map((item) => ({ item, source: 'verified' as const })))
+      }
+    }
+    const known = await lookupSignature(selector, 'error')
+    candidates.push(...known.map(({ item }) => ({ item: item as AbiError, source: 'local' as const })))
+    return candidates
+  }
+
+  private getVerifiedAbi(address: string): Promise<Abi | null> {
+    const { chainName } = this.options
+    if (!chainName) return Promise.resolve(null)
+
+    const key = address.toLowerCase()
+    if (!this.verifiedAbis.has(key)) {
+      this.verifiedAbis.set(
+        key,
+        fetchContractAbi(chainName, address)
+          .then((result) => result?.abi ?? null)
+          .catch(() => null)
+      )
+    }
+    return this.verifiedAbis.get(key)!
+  }
+}
+
+// Convenience wrappers for one-off decoding
+export function decodeRevert(data: Hex | undefined, options: RevertDecodeOptions = {}): Promise<DecodedRevert> {
+  return new RevertDecoder(options).decode(data)
+}
+
+export function decodeRevertFromError(
+  error: unknown,
+  options: RevertDecodeOptions = {}
+): Promise<DecodedRevert | undefined> {
+  return new RevertDecoder(options).decodeError(error)
+}
@@ -0,0 +1,262 @@
+import { type Chain, type EIP1193RequestFn, createTransport, http, shouldThrow, type Transport } from 'viem'
+
+export interface RpcHealthOptions {
+  // Consecutive failures before an endpoint is demoted
+  errorThreshold?: number
+  // How long a demoted endpoint stays at the back of the list
+  demotionMs?: number
+  // How many blocks an endpoint may trail the best known head before it is considered stale
+  maxBlockLag?: number
+  // Smoothing factor for the latency moving average
+  latencyAlpha?: number
+}
+
+export interface EndpointStats {
+  url: string
+  status: 'healthy' | 'stale' | 'demoted'
+  requests: number
+  errors: number
+  consecutiveErrors: number
+  avgLatencyMs: number | null
+  lastLatencyMs: number | null
+  latestBlock: string | null
+  blocksBehind: number | null
+  lastError: string | null
+  lastErrorAt: string | null
+  demotedUntil: string | null
+}
+
+interface EndpointState {
+  url: string
+  requests: number
+  errors: number
+  consecutiveErrors: number
+  avgLatencyMs: number | null
+  lastLatencyMs: number | null
+  latestBlock: bigint | null
+  lastError: string | null
+  lastErrorAt: number | null
+  demotedUntil: number | null
+}
+
+const DEFAULT_OPTIONS: Required<RpcHealthOptions> = {
+  errorThreshold: 3,
+  demotionMs: 60_000,
+  maxBlockLag: 10,
+  latencyAlpha: 0.3
+}
+
+// Tracks per-endpoint health for one chain and decides the order endpoints are tried in
+export class RpcHealthTracker {
+  private endpoints: Map<string, EndpointState> = new Map()
+  private options: Required<RpcHealthOptions>
+  private bestBlock: bigint | null = null
+
+  constructor(urls: string[], options: RpcHealthOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required')
+    }
+    this.options = { ...DEFAULT_OPTIONS, ...stripUndefined(options) }
+    for (const url of urls) {
+      this.endpoints.set(url, {
+        url,
+        requests: 0,
+        errors: 0,
+        consecutiveErrors: 0,
+        avgLatencyMs: null,
+        lastLatencyMs: null,
+        latestBlock: null,
+        lastError: null,
+        lastErrorAt: null,
+        demotedUntil: null
+      })
+    }
+  }
+
+  get urls(): string[] {
+    return [...this.endpoints.keys()]
+  }
+
+  recordSuccess(url: string, latencyMs: number, method?: string, result?: unknown) {
+    const endpoint = this.endpoints.get(url)
+    if (!endpoint) return
+
+    endpoint.requests++
+    endpoint.consecutiveErrors = 0
+    endpoint.demotedUntil = null
+    endpoint.lastLatencyMs = latencyMs
+    endpoint.avgLatencyMs =
+      endpoint.avgLatencyMs === null
+        ? latencyMs
+        : endpoint.avgLatencyMs * (1 - this.options.latencyAlpha) + latencyMs * this.options.latencyAlpha
+
+    const blockNumber = extractHeadBlock(method, result)
+    if (blockNumber !== null) {
+      this.recordBlock(url, blockNumber)
+    }
+  }
+
+  recordFailure(url: string, latencyMs: number, error: unknown) {
+    const endpoint = this.endpoints.get(url)
+    if (!endpoint) return
+
+    endpoint.requests++
+    endpoint.errors++
+    endpoint.consecutiveErrors++
+    endpoint.lastLatencyMs = latencyMs
+    endpoint.lastError = error instanceof Error ? (error as { shortMessage?: string }).shortMessage || error.message : String(error)
+    endpoint.lastErrorAt = Date.now()
+
+    if (endpoint.consecutiveErrors >= this.options.errorThreshold) {
+      endpoint.demotedUntil = Date.now() + this.options.demotionMs
+    }
+  }
+
+  recordBlock(url: string, blockNumber: bigint) {
+    const endpoint = this.endpoints.get(url)
+    if (!endpoint) return
+
+    endpoint.latestBlock = blockNumber
+    if (this.bestBlock === null || blockNumber > this.bestBlock) {
+      this.bestBlock = blockNumber
+    }
+  }
+
+  private blocksBehind(endpoint: EndpointState): number | null {
+    if (endpoint.latestBlock === null || this.bestBlock === null) return null
+    return Number(this.bestBlock - endpoint.latestBlock)
+  }
+
+  private statusOf(endpoint: EndpointState, now = Date.now()): EndpointStats['status'] {
+    if (endpoint.demotedUntil !== null && endpoint.demotedUntil > now) return 'demoted'
+    const behind = this.blocksBehind(endpoint)
+    if (behind !== null && behind > this.options.maxBlockLag) return 'stale'
+    return 'healthy'
+  }
+
+  // Healthy endpoints first, then stale, then demoted; ties broken by recent failures, latency and config order
+  rankedUrls(): string[] {
+    const now = Date.now()
+    const priority = { healthy: 0, stale: 1, demoted: 2 }
+    const order = this.urls
+
+    return [...this.endpoints.values()]
+      .sort((a, b) => {
+        const byStatus = priority[this.statusOf(a, now)] - priority[this.statusOf(b, now)]
+        if (byStatus !== 0) return byStatus
+
+        const byErrors = a.consecutiveErrors - b.consecutiveErrors
+        if (byErrors !== 0) return byErrors
+        if (a.avgLatencyMs !== null && b.avgLatencyMs !== null && Math.abs(a.avgLatencyMs - b.avgLatencyMs) > 50) {
+          return a.avgLatencyMs - b.avgLatencyMs
+        }
+        return order.indexOf(a.url) - order.indexOf(b.url)
+      })
+      .map(endpoint => endpoint.url)
+  }
+
+  getStats(): EndpointStats[] {
+    const now = Date.now()
+    return this.rankedUrls().map(url => {
+      const endpoint = this.endpoints.get(url)!
+      return {
+        url: redactUrl(endpoint.url),
+        status: this.statusOf(endpoint, now),
+        requests: endpoint.requests,
+        errors: endpoint.errors,
+        consecutiveErrors: endpoint.consecutiveErrors,
+        avgLatencyMs: endpoint.avgLatencyMs === null ? null : Math.round(endpoint.avgLatencyMs),
+        lastLatencyMs: endpoint.lastLatencyMs,
+        latestBlock: endpoint.latestBlock?.toString() ?? null,
+        blocksBehind: this.blocksBehind(endpoint),
+        lastError: endpoint.lastError,
+        lastErrorAt: endpoint.lastErrorAt ? new Date(endpoint.lastErrorAt).toISOString() : null,
+        demotedUntil:
+          endpoint.demotedUntil && endpoint.demotedUntil > now ? new Date(endpoint.demotedUntil).toISOString() : null
+      }
+    })
+  }
+}
+
+// Transport that tries endpoints in ranked order and feeds every outcome back into the tracker
+export function rankedTransport(tracker: RpcHealthTracker): Transport {
+  return ({ chain, retryCount, timeout }) => {
+    const transports = new Map(
+      tracker.urls.map(url => [url, http(url, { retryCount: 0 })({ chain: chain as Chain | undefined, timeout })])
+    )
+
+    const request = (async ({ method, params }) => {
+      let lastError: unknown
+      for (const url of tracker.rankedUrls()) {
+        const start = Date.now()
+        try {
+          const result = await transports.get(url)!.request({ method, params } as never)
+          tracker.recordSuccess(url, Date.now() - start, method, result)
+          return result
+        } catch (error) {
+          // Reverts and user rejections are answers, not endpoint failures
+          if (shouldThrow(error as Error)) {
+            tracker.recordSuccess(url, Date.now() - start)
+            throw error
+          }
+          tracker.recordFailure(url, Date.now() - start, error)
+          lastError = error
+        }
+      }
+      throw lastError
+    }) as EIP1193RequestFn
+
+    return createTransport({
+      key: 'ranked',
+      name: 'Ranked Fallback',
+      request,
+      // A single endpoint keeps viem's usual retries; with several, one extra pass over the list is enough
+      retryCount: retryCount ?? (tracker.urls.length > 1 ? 1 : 3),
+      timeout,
+      type: 'ranked'
+    })
+  }
+}
+
+// Probe every endpoint with eth_blockNumber so stale or dead endpoints are detected without waiting for traffic
+export async function probeEndpoints(tracker: RpcHealthTracker, chain?: Chain, timeout = 5_000) {
+  await Promise.all(
+    tracker.urls.map(async url => {
+      const transport = http(url, { retryCount: 0, timeout })({ chain })
+      const start = Date.now()
+      try {
+        const result = await transport.request({ method: 'eth_blockNumber' })
+        tracker.recordSuccess(url, Date.now() - start, 'eth_blockNumber', result)
+      } catch (error) {
+        tracker.recordFailure(url, Date.now() - start, error)
+      }
+    })
+  )
+}
+
+// Head block number from responses that report the chain tip
+function extractHeadBlock(method: string | undefined, result: unknown): bigint | null {
+  try {
+    if (method === 'eth_blockNumber' && typeof result === 'string') {
+      return BigInt(result)
+    }
+  } catch {
+    // Ignore malformed responses
+  }
+  return null
+}
+
+// Hide API keys embedded in provider URLs (e.g. Alchemy /v2/<key>, Infura /v3/<key>)
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const path = parsed.pathname.replace(/\/(v\d+)\/[^/]+/, '/$1/***')
+    return `${parsed.protocol}//${parsed.host}${path}${parsed.search ? '?***' : ''}`
+  } catch {
+    return url
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>
+}
@@ -0,0 +1,405 @@
+import {
+  type Abi,
+  type AbiEvent,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+  parseAbiItem,
+  toEventSelector,
+  toEventSignature,
+  toFunctionSelector,
+  toFunctionSignature
+} from 'viem'
+import type { AbiError } from './types.js'
+import { type CacheStore, createCacheStore } from './cache.js'
+import { getClientManager } from './client.js'
+
+// Bundled human-readable ABI fragments for widely deployed standards. Used when a contract is not
+// verified anywhere, so common functions can still be called and decoded by name, and common events
+// and custom errors can still be decoded from logs and revert data
+export const BUILTIN_SIGNATURES: readonly string[] = [
+  // ERC20
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  // ERC20 permit (EIP-2612)
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  // ERC165
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  // ERC721
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+  'function getApproved(uint256 tokenId) view returns (address)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  // ERC1155
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])',
+  'function uri(uint256 id) view returns (string)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+  // ERC4626
+  'function asset() view returns (address)',
+  'function totalAssets() view returns (uint256)',
+  'function convertToShares(uint256 assets) view returns (uint256)',
+  'function convertToAssets(uint256 shares) view returns (uint256)',
+  'function maxDeposit(address receiver) view returns (uint256)',
+  'function previewDeposit(uint256 assets) view returns (uint256)',
+  'function previewMint(uint256 shares) view returns (uint256)',
+  'function previewWithdraw(uint256 assets) view returns (uint256)',
+  'function previewRedeem(uint256 shares) view returns (uint256)',
+  'function deposit(uint256 assets, address receiver) returns (uint256)',
+  'function mint(uint256 shares, address receiver) returns (uint256)',
+  'function withdraw(uint256 assets, address receiver, address owner) returns (uint256)',
+  'function redeem(uint256 shares, address receiver, address owner) returns (uint256)',
+  // Ownable / AccessControl
+  'function owner() view returns (address)',
+  'function pendingOwner() view returns (address)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function getRoleAdmin(bytes32 role) view returns (bytes32)',
+  'function paused() view returns (bool)',
+  // Proxies
+  'function implementation() view returns (address)',
+  'function admin() view returns (address)',
+  // WETH
+  'function deposit() payable',
+  'function withdraw(uint256 amount)',
+  // Uniswap V2
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function factory() view returns (address)',
+  'function getPair(address tokenA, address tokenB) view returns (address)',
+  // Uniswap V3
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() view returns (uint128)',
+  'function fee() view returns (uint24)',
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+  // Multicall
+  'function multicall(bytes[] data) payable returns (bytes[] results)',
+  'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)',
+  'function multicall(bytes32 previousBlockhash, bytes[] data) payable returns (bytes[] results)',
+  // Multicall3
+  'function aggregate((address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes[] returnData)',
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  // Smart accounts (ERC-4337 / ERC-6900 style)
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, bytes[] func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+  'function executeBatch((address target, uint256 value, bytes data)[] calls)',
+  // Uniswap routers
+  'function execute(bytes commands, bytes[] inputs) payable',
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline) payable',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+  'function refundETH() payable',
+  // Safe
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function nonce() view returns (uint256)',
+  'function VERSION() view returns (string)',
+  // Permit2
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+  'function permit(address owner, ((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature)',
+  'function permitTransferFrom(((address token, uint256 amount) permitted, uint256 nonce, uint256 deadline) permit, (address to, uint256 requestedAmount) transferDetails, address owner, bytes signature)',
+  'function transferFrom(address from, address to, uint160 amount, address token)',
+  'function invalidateNonces(address token, address spender, uint48 newNonce)',
+  'function invalidateUnorderedNonces(uint256 wordPos, uint256 mask)',
+  'function lockdown((address token, address spender)[] approvals)',
+  // ERC20 / ERC721 events (Transfer and Approval share topic0; the indexed layout differs)
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+  // ERC1155 events
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+  'event URI(string value, uint256 indexed id)',
+  // ERC4626 / WETH events
+  'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+  'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+  // Ownable / AccessControl / Pausable / Initializable events
+  'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+  'event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)',
+  'event Paused(address account)',
+  'event Unpaused(address account)',
+  'event Initialized(uint8 version)',
+  'event Initialized(uint64 version)',
+  // Proxy events (EIP-1967)
+  'event Upgraded(address indexed implementation)',
+  'event AdminChanged(address previousAdmin, address newAdmin)',
+  'event BeaconUpgraded(address indexed beacon)',
+  // Uniswap V2 events
+  'event PairCreated(address indexed token0, address indexed token1, address pair, uint256)',
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Sync(uint112 reserve0, uint112 reserve1)',
+  'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)',
+  // Uniswap V3 events
+  'event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)',
+  // Permit2 events
+  'event Approval(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration)',
+  'event Permit(address indexed owner, address indexed token, address indexed spender, uint160 amount, uint48 expiration, uint48 nonce)',
+  'event Lockdown(address indexed owner, address token, address spender)',
+  'event NonceInvalidation(address indexed owner, address indexed token, address indexed spender, uint48 newNonce, uint48 oldNonce)',
+  'event UnorderedNonceInvalidation(address indexed owner, uint256 word, uint256 mask)',
+  // Safe events
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+  'event ExecutionFailure(bytes32 txHash, uint256 payment)',
+  'event SafeReceived(address indexed sender, uint256 value)',
+  'event AddedOwner(address indexed owner)',
+  'event RemovedOwner(address indexed owner)',
+  'event ChangedThreshold(uint256 threshold)',
+  'event SafeSetup(address indexed initiator, address[] owners, uint256 threshold, address initializer, address fallbackHandler)',
+  // ERC-4337 EntryPoint
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)',
+  // OpenZeppelin v5 custom errors
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+  'error ERC2612ExpiredSignature(uint256 deadline)',
+  'error ERC2612InvalidSigner(address signer, address owner)',
+  'error ERC721NonexistentToken(uint256 tokenId)',
+  'error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)',
+  'error ERC721InsufficientApproval(address operator, uint256 tokenId)',
+  'error ERC721InvalidReceiver(address receiver)',
+  'error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)',
+  'error ERC1155MissingApprovalForAll(address operator, address owner)',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error OwnableInvalidOwner(address owner)',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+  'error EnforcedPause()',
+  'error ExpectedPause()',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeERC20FailedOperation(address token)',
+  'error AddressEmptyCode(address target)',
+  'error FailedInnerCall()',
+  'error FailedCall()',
+  'error InvalidInitialization()',
+  'error NotInitializing()',
+  'error ERC1967InvalidImplementation(address implementation)',
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  // Solady / Permit2 / Uniswap
+  'error TransferFailed()',
+  'error TransferFromFailed()',
+  'error Unauthorized()',
+  'error SignatureExpired(uint256 signatureDeadline)',
+  'error InvalidNonce()',
+  'error InsufficientAllowance(uint256 amount)',
+  'error AllowanceExpired(uint256 deadline)',
+  'error V3TooLittleReceived()',
+  'error V3TooMuchRequested()',
+  'error V2TooLittleReceived()',
+  'error V2TooMuchRequested()',
+  'error TransactionDeadlinePassed()'
+]
+
+export type SignatureType = 'function' | 'event' | 'error'
+export type SignatureItem = AbiFunction | AbiEvent | AbiError
+
+export interface SignatureMatch {
+  type: SignatureType
+  // 4-byte selector (functions, errors) or 32-byte topic0 (events)
+  hash: Hex
+  // Canonical form used for hashing, e.g. "transfer(address,uint256)"
+  signature: string
+  // Human-readable definition with parameter names, e.g. "function transfer(address to, uint256 amount)"
+  text: string
+  source: 'builtin' | 'indexed'
+  item: SignatureItem
+}
+
+// Canonical "Name(type1,type2)" form of a custom error
+export function toErrorSignature(item: AbiError): string {
+  // Errors share the function signature format; viem only formats functions without a keyword
+  return toFunctionSignature({ ...item, type: 'function', outputs: [], stateMutability: 'nonpayable' })
+}
+
+export function toErrorSelector(item: AbiError): Hex {
+  return toFunctionSelector(toErrorSignature(item))
+}
+
+export function toCanonicalSignature(item: SignatureItem): string {
+  if (item.type === 'event') return toEventSignature(item)
+  if (item.type === 'error') return toErrorSignature(item)
+  return toFunctionSignature(item)
+}
+
+export function toSignatureHash(item: SignatureItem): Hex {
+  if (item.type === 'event') return toEventSelector(item)
+  if (item.type === 'error') return toErrorSelector(item)
+  return toFunctionSelector(item)
+}
+
+function formatParameter(param: AbiParameter & { indexed?: boolean }): string {
+  let type = param.type
+  if (type.startsWith('tuple') && 'components' in param) {
+    type = `(${param.components.map(formatParameter).join(', ')})${type.slice('tuple'.length)}`
+  }
+  return [type, param.indexed ? 'indexed' : '', param.name ?? ''].filter(Boolean).join(' ')
+}
+
+// Human-readable definition, e.g. "event Transfer(address indexed from, address indexed to, uint256 value)"
+export function toSignatureText(item: SignatureItem): string {
+  const text = `${item.type} ${item.name}(${item.inputs.map(formatParameter).join(', ')})`
+  if (item.type !== 'function') return text
+  const mutability = item.stateMutability === 'nonpayable' ? '' : ` ${item.stateMutability}`
+  const outputs = item.outputs.length > 0 ? ` returns (${item.outputs.map(formatParameter).join(', ')})` : ''
+  return `${text}${mutability}${outputs}`
+}
+
+function signatureKey(type: SignatureType, hash: string): string {
+  return `${type}:${hash.toLowerCase()}`
+}
+
+let builtinItems: Map<string, SignatureItem[]> | null = null
+
+// Bundled items grouped by "<type>:<hash>" (several per key when selectors collide)
+function getBuiltinItems(): Map<string, SignatureItem[]> {
+  if (!builtinItems) {
+    builtinItems = new Map()
+    for (const signature of BUILTIN_SIGNATURES) {
+      const item = parseAbiItem(signature) as SignatureItem
+      const key = signatureKey(item.type, toSignatureHash(item))
+      builtinItems.set(key, [...(builtinItems.get(key) ?? []), item])
+    }
+  }
+  return builtinItems
+}
+
+function getBuiltinFunctions(): AbiFunction[] {
+  return [...getBuiltinItems().values()].flat().filter((item): item is AbiFunction => item.type === 'function')
+}
+
+// Bundled functions whose 4-byte selector matches (several when selectors collide)
+export function lookupLocalFunctions(selector: string): AbiFunction[] {
+  return (getBuiltinItems().get(signatureKey('function', selector)) ?? []) as AbiFunction[]
+}
+
+// Bundled custom errors whose 4-byte selector matches
+export function lookupLocalErrors(selector: string): AbiError[] {
+  return (getBuiltinItems().get(signatureKey('error', selector)) ?? []) as AbiError[]
+}
+
+// Bundled events whose topic0 matches
+export function lookupLocalEvents(topic0: string): AbiEvent[] {
+  return (getBuiltinItems().get(signatureKey('event', topic0)) ?? []) as AbiEvent[]
+}
+
+// Index of functions, events and errors from every ABI the server has fetched or been given.
+// Persisted next to the contract cache when a cache directory is configured
+let signatureIndex: CacheStore<SignatureItem[]> | null = null
+
+export function getSignatureIndex(): CacheStore<SignatureItem[]> {
+  if (!signatureIndex) {
+    const config = getClientManager().getConfig()
+    signatureIndex = createCacheStore<SignatureItem[]>(config.cache, 'signatures')
+  }
+  return signatureIndex
+}
+
+// indexAbi reads, extends and rewrites index entries, so concurrent calls run one after another
+let indexQueue: Promise<unknown> = Promise.resolve()
+
+// Add the functions, events and errors of an ABI to the index. Returns how many were new
+export function indexAbi(abi: Abi): Promise<number> {
+  const indexed = indexQueue.then(() => addToIndex(abi))
+  indexQueue = indexed.catch(() => undefined)
+  return indexed
+}
+
+async function addToIndex(abi: Abi): Promise<number> {
+  const index = getSignatureIndex()
+  let added = 0
+  for (const item of abi) {
+    if (item.type !== 'function' && item.type !== 'event' && item.type !== 'error') continue
+
+    const key = signatureKey(item.type, toSignatureHash(item))
+    const existing = (await index.get(key)) ?? []
+    const text = toSignatureText(item)
+    if (existing.some((known) => toSignatureText(known) === text)) continue
+
+    await index.set(key, [...existing, item])
+    added++
+  }
+  return added
+}
+
+// Candidate signatures for a 4-byte selector (functions and errors) or a 32-byte topic0 (events),
+// from the bundled list and the index
+export async function lookupSignature(hash: string, type?: SignatureType): Promise<SignatureMatch[]> {
+  const normalized = hash.toLowerCase() as Hex
+  const types: SignatureType[] =
+    normalized.length === 66 ? ['event'] : (['function', 'error'] as SignatureType[]).filter((t) => !type || t === type)
+  if (type && !types.includes(type)) return []
+
+  const matches: SignatureMatch[] = []
+  for (const signatureType of types) {
+    const key = signatureKey(signatureType, normalized)
+    const candidates: Array<[SignatureItem, SignatureMatch['source']]> = [
+      ...(getBuiltinItems().get(key) ?? []).map((item) => [item, 'builtin'] as [SignatureItem, 'builtin']),
+      ...((await getSignatureIndex().get(key)) ?? []).map((item) => [item, 'indexed'] as [SignatureItem, 'indexed'])
+    ]
+    for (const [item, source] of candidates) {
+      const text = toSignatureText(item)
+      if (matches.some((match) => match.text === text)) continue
+      matches.push({ type: signatureType, hash: normalized, signature: toCanonicalSignature(item), text, source, item })
+    }
+  }
+  return matches
+}
+
+// Bundled functions with the given name, optionally narrowed to one overload signature (e.g. "balanceOf(address)")
+export function findLocalFunctions(functionName: string, signature?: string): AbiFunction[] {
+  return getBuiltinFunctions().filter(
+    (item) => item.name === functionName && (!signature || matchesSignature(item, signature))
+  )
+}
+
+// Compare against "name(type1,type2)", ignoring parameter names, return types and whitespace
+export function matchesSignature(item: AbiFunction, signature: string): boolean {
+  const text = signature.trim().replace(/^function\s+/, '')
+  if (!text.includes('(')) {
+    return item.name === text
+  }
+  try {
+    return toFunctionSignature(item) === toFunctionSignature(parseAbiItem(`function ${text}`) as AbiFunction)
+  } catch {
+    return toFunctionSignature(item) === text.replace(/\s+/g, '')
+  }
+}
@@ -0,0 +1,375 @@
+import { createDecipheriv, pbkdf2, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { readFile } from 'fs/promises'
+import { resolve } from 'path'
+import { promisify } from 'util'
+import {
+  type Address,
+  type Chain,
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  type Hex,
+  keccak256,
+  type LocalAccount,
+  parseAbi,
+  parseUnits,
+  toHex,
+  type Transport,
+  type WalletClient
+} from 'viem'
+import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts'
+import type { ChainName, SignerSettings, SpendingPolicy } from './types.js'
+import { getClientManager } from './client.js'
+import { getWalletServer } from './wallet-server.js'
+
+export interface SignerTransaction {
+  to: string
+  data?: Hex
+  value: bigint
+}
+
+// Where transactions outside dev chains are signed. Implementations broadcast the transaction
+// themselves and return its hash
+export interface Signer {
+  readonly type: SignerSettings['type']
+  // null when the account is only known to the browser wallet
+  getAddress(): Promise<Address | null>
+  sendTransaction(chainName: ChainName, transaction: SignerTransaction): Promise<Hex>
+  signMessage(message: string): Promise<Hex>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ERC20 calls whose last argument is the amount moved or approved
+const tokenSpendAbi = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function increaseAllowance(address spender, uint256 addedValue)'
+])
+const decimalsAbi = parseAbi(['function decimals() view returns (uint8)'])
+
+// An amount checked against a policy: native value, or the amount of a token in tokenLimits
+interface PolicyLimit {
+  // Key into the daily spending record: the chain for native value, chain:token for tokens
+  key: string
+  amount: bigint
+  maxAmount?: string
+  dailyLimit?: string
+  decimals: number
+  unit: string
+}
+
+// Amount of an ERC20 transfer or approval, or null for any other calldata
+function decodeTokenAmount(data: Hex): bigint | null {
+  try {
+    const { args } = decodeFunctionData({ abi: tokenSpendAbi, data })
+    return args[args.length - 1] as bigint
+  } catch {
+    return null
+  }
+}
+
+function generateRequestId(): string {
+  return randomBytes(16).toString('hex')
+}
+
+// Wallet client that signs with a local account and broadcasts through the chain's RPC
+export function createLocalWalletClient(chainName: ChainName, account: LocalAccount): WalletClient<Transport, Chain, LocalAccount> {
+  const client = getClientManager().getClient(chainName)
+  return createWalletClient({ account, chain: client.chain as Chain, transport: custom(client) })
+}
+
+// Asks the wallet connected to the browser page
+export class BrowserSigner implements Signer {
+  readonly type = 'browser' as const
+
+  async getAddress(): Promise<Address | null> {
+    return null
+  }
+
+  async sendTransaction(chainName: ChainName, transaction: SignerTransaction): Promise<Hex> {
+    return (await getWalletServer().sendTransaction({
+      id: generateRequestId(),
+      type: 'send_transaction',
+      chain: chainName,
+      data: {
+        to: transaction.to,
+        value: '0x' + transaction.value.toString(16),
+        ...(transaction.data && { data: transaction.data })
+      }
+    })) as Hex
+  }
+
+  async signMessage(message: string): Promise<Hex> {
+    return (await getWalletServer().sendTransaction({
+      id: generateRequestId(),
+      type: 'sign_message',
+      chain: 'any',
+      data: { message }
+    })) as Hex
+  }
+}
+
+// Signs with a key held by the server. Only chains with a spending policy are allowed
+export class LocalSigner implements Signer {
+  private account: Promise<LocalAccount> | null = null
+  // Amounts sent per PolicyLimit key over the last day, including transactions still being broadcast
+  private spent = new Map<string, Array<{ at: number; value: bigint }>>()
+
+  constructor(
+    readonly type: 'keystore' | 'mnemonic',
+    private settings: SignerSettings,
+    private loadAccount: () => Promise<LocalAccount>
+  ) {
+    const hasDailyLimit = Object.values(settings.policies ?? {}).some(
+      (policy) =>
+        policy.dailyLimit !== undefined ||
+        Object.values(policy.tokenLimits ?? {}).some((limit) => limit.dailyLimit !== undefined)
+    )
+    if (hasDailyLimit) {
+      console.error('[Signer] Daily limits are tracked in memory: restarting the server starts them from zero')
+    }
+  }
+
+  async getAddress(): Promise<Address> {
+    return (await this.getAccount()).address
+  }
+
+  async sendTransaction(chainName: ChainName, transaction: SignerTransaction): Promise<Hex> {
+    const policy = this.settings.policies?.[chainName]
+    if (!policy) {
+      throw new Error(`The ${this.type} signer has no spending policy for ${chainName}; add signer.policies.${chainName} to the config to allow it`)
+    }
+
+    const release = await this.reserve(chainName, policy, transaction)
+    let client: WalletClient<Transport, Chain, LocalAccount>
+    let serializedTransaction: Hex
+    try {
+      client = createLocalWalletClient(chainName, await this.getAccount())
+      const request = await client.prepareTransactionRequest({
+        to: transaction.to as Address,
+        data: transaction.data,
+        value: transaction.value
+      })
+      // The request already carries the chain ID; like sendTransaction, do not ask the node for it again
+      serializedTransaction = await client.signTransaction({ ...request, chain: null })
+    } catch (error) {
+      // Nothing was sent, so the amounts do not count toward the daily limits
+      release()
+      throw error
+    }
+    // A failed broadcast may still have reached the network (e.g. a timeout), so it keeps its reservation
+    return client.sendRawTransaction({ serializedTransaction })
+  }
+
+  async signMessage(message: string): Promise<Hex> {
+    if (!this.settings.signMessages) {
+      throw new Error(`The ${this.type} signer does not sign messages unless signer.signMessages is enabled`)
+    }
+    return (await this.getAccount()).signMessage({ message })
+  }
+
+  // Check the policy and count the amounts before broadcasting, so concurrent sends cannot overshoot a daily
+  // limit. Returns a function that gives the reservation back
+  private async reserve(chainName: ChainName, policy: SpendingPolicy, transaction: SignerTransaction): Promise<() => void> {
+    if (
+      policy.allowedAddresses &&
+      !policy.allowedAddresses.some((address) => address.toLowerCase() === transaction.to.toLowerCase())
+    ) {
+      throw new Error(`Spending policy for ${chainName} does not allow transactions to ${transaction.to}`)
+    }
+
+    const client = getClientManager().getClient(chainName)
+    const limits: PolicyLimit[] = [
+      {
+        key: chainName,
+        amount: transaction.value,
+        maxAmount: policy.maxValue,
+        dailyLimit: policy.dailyLimit,
+        decimals: client.chain?.nativeCurrency.decimals ?? 18,
+        unit: 'native token'
+      }
+    ]
+
+    // Calldata can move tokens the native limits never see: only ERC20 calls to tokens with limits pass
+    // unless the policy allows contract calls
+    if (transaction.data && transaction.data !== '0x') {
+      const token = Object.keys(policy.tokenLimits ?? {}).find(
+        (address) => address.toLowerCase() === transaction.to.toLowerCase()
+      )
+      const amount = token ? decodeTokenAmount(transaction.data) : null
+      if (token && amount !== null) {
+        const decimals = await client.readContract({ address: token as Address, abi: decimalsAbi, functionName: 'decimals' })
+        limits.push({
+          key: `${chainName}:${token.toLowerCase()}`,
+          amount,
+          ...policy.tokenLimits![token],
+          decimals,
+          unit: `of token ${token}`
+        })
+      } else if (!policy.allowContractCalls) {
+        throw new Error(
+          `Spending policy for ${chainName} does not allow contract calls to ${transaction.to}; list the token under tokenLimits or set allowContractCalls`
+        )
+      }
+    }
+
+    const now = Date.now()
+    for (const limit of limits) {
+      if (limit.maxAmount !== undefined && limit.amount > parseUnits(limit.maxAmount, limit.decimals)) {
+        throw new Error(`Spending policy for ${chainName} allows at most ${limit.maxAmount} ${limit.unit} per transaction`)
+      }
+      const entries = (this.spent.get(limit.key) ?? []).filter(({ at }) => now - at < DAY_MS)
+      this.spent.set(limit.key, entries)
+      if (limit.dailyLimit !== undefined) {
+        const total = entries.reduce((sum, { value }) => sum + value, limit.amount)
+        if (total > parseUnits(limit.dailyLimit, limit.decimals)) {
+          throw new Error(`Spending policy for ${chainName} allows at most ${limit.dailyLimit} ${limit.unit} per 24 hours`)
+        }
+      }
+    }
+
+    const reserved = limits.map(({ key, amount }) => {
+      const entry = { at: now, value: amount }
+      this.spent.get(key)!.push(entry)
+      return { key, entry }
+    })
+    return () => {
+      for (const { key, entry } of reserved) {
+        const entries = this.spent.get(key) ?? []
+        const index = entries.indexOf(entry)
+        if (index !== -1) entries.splice(index, 1)
+      }
+    }
+  }
+
+  private getAccount(): Promise<LocalAccount> {
+    if (!this.account) {
+      this.account = this.loadAccount()
+    }
+    return this.account
+  }
+}
+
+interface KeystoreV3 {
+  version: number
+  crypto?: KeystoreCrypto
+  Crypto?: KeystoreCrypto
+}
+
+interface KeystoreCrypto {
+  cipher: string
+  ciphertext: string
+  cipherparams: { iv: string }
+  kdf: 'scrypt' | 'pbkdf2'
+  kdfparams: {
+    dklen: number
+    salt: string
+    // scrypt
+    n?: number
+    r?: number
+    p?: number
+    // pbkdf2
+    c?: number
+    prf?: string
+  }
+  mac: string
+}
+
+async function deriveKeystoreKey(password: string, crypto: KeystoreCrypto): Promise<Buffer> {
+  const { kdf, kdfparams } = crypto
+  const salt = Buffer.from(kdfparams.salt, 'hex')
+  if (kdf === 'scrypt') {
+    const { n = 0, r = 0, p = 0 } = kdfparams
+    return new Promise((done, fail) =>
+      scrypt(password, salt, kdfparams.dklen, { N: n, r, p, maxmem: 256 * n * r }, (error, key) =>
+        error ? fail(error) : done(key)
+      )
+    )
+  }
+  if (kdf === 'pbkdf2') {
+    if (kdfparams.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported keystore pbkdf2 prf: ${kdfparams.prf}`)
+    }
+    return promisify(pbkdf2)(password, salt, kdfparams.c ?? 0, kdfparams.dklen, 'sha256')
+  }
+  throw new Error(`Unsupported keystore kdf: ${kdf}`)
+}
+
+// Decrypt a Web3 Secret Storage (v3) keystore, as written by geth, clef or cast wallet
+export async function decryptKeystore(json: string, password: string): Promise<Hex> {
+  let keystore: KeystoreV3
+  try {
+    keystore = JSON.parse(json)
+  } catch {
+    throw new Error('Keystore is not valid JSON')
+  }
+  const crypto = keystore.crypto ?? keystore.Crypto
+  if (keystore.version !== 3 || !crypto) {
+    throw new Error('Only version 3 keystores are supported')
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${crypto.cipher}`)
+  }
+
+  const derivedKey = await deriveKeystoreKey(password, crypto)
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex')
+  const mac = Buffer.from(keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2), 'hex')
+  const expected = Buffer.from(crypto.mac, 'hex')
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    throw new Error('Wrong keystore password')
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'))
+  return toHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]))
+}
+
+function readSecret(variable: string, description: string): string {
+  const value = process.env[variable]
+  if (!value) {
+    throw new Error(`${description} not set; export ${variable}`)
+  }
+  return value
+}
+
+export function createSigner(settings: SignerSettings | undefined): Signer {
+  if (!settings || settings.type === 'browser') {
+    return new BrowserSigner()
+  }
+
+  if (settings.type === 'keystore') {
+    const { path, passwordEnv = 'KEYSTORE_PASSWORD' } = settings.keystore ?? { path: '' }
+    return new LocalSigner('keystore', settings, async () => {
+      const password = readSecret(passwordEnv, 'Keystore password')
+      const fullPath = resolve(path)
+      let json: string
+      try {
+        json = await readFile(fullPath, 'utf8')
+      } catch (error) {
+        throw new Error(`Failed to read keystore ${fullPath}: ${error instanceof Error ? error.message : error}`)
+      }
+      const account = privateKeyToAccount(await decryptKeystore(json, password))
+      console.error(`[Signer] Loaded keystore account ${account.address}`)
+      return account
+    })
+  }
+
+  const { env = 'SIGNER_MNEMONIC', accountIndex, addressIndex } = settings.mnemonic ?? {}
+  return new LocalSigner('mnemonic', settings, async () => {
+    const account = mnemonicToAccount(readSecret(env, 'Signer mnemonic').trim(), { accountIndex, addressIndex })
+    console.error(`[Signer] Derived mnemonic account ${account.address}`)
+    return account
+  })
+}
+
+// Signer for the current config; recreated (and its daily spend reset) when the config is replaced
+let signer: { settings: SignerSettings | undefined; instance: Signer } | null = null
+
+export function getSigner(): Signer {
+  const settings = getClientManager().getSignerSettings()
+  if (!signer || signer.settings !== settings) {
+    signer = { settings, instance: createSigner(settings) }
+  }
+  return signer.instance
+}
@@ -0,0 +1,537 @@
+import {
+  type AbiFunction,
+  type Address,
+  BaseError,
+  type BlockOverrides,
+  type BlockTag,
+  decodeFunctionResult,
+  encodeFunctionData,
+  formatUnits,
+  type Hex,
+  isAddress,
+  isHex,
+  numberToHex,
+  pad,
+  parseAbiItem,
+  type StateOverride,
+  zeroAddress
+} from 'viem'
+import type { ChainName } from './types.js'
+import { getClientManager } from './client.js'
+import { type DecodedLog, decodeLogs, type RawLog } from './decoder.js'
+import { type DecodedRevert, RevertDecoder } from './revert.js'
+import { fetchStorageLayout, resolveStoragePath } from './storage-layout.js'
+import { type CallFrame, walkCallFrames } from './trace.js'
+import {
+  type AssetTransfer,
+  type BalanceChange,
+  type TokenApproval,
+  applyTokenMetadata,
+  computeBalanceChanges,
+  extractNativeTransfers,
+  extractTokenApprovals,
+  extractTokenTransfers,
+  fetchTokenMetadata,
+  getWrappedNativeToken
+} from './transfers.js'
+import { convertArgumentsToTypes } from './utils.js'
+
+// Account override as accepted by the tools; converted to viem's StateOverride by parseStateOverride
+export interface StateOverrideInput {
+  address: string
+  // Wei, decimal or hex
+  balance?: string
+  nonce?: number
+  code?: string
+  // Replace the whole storage (slot -> value)
+  state?: Record<string, string>
+  // Override individual slots (slot or variable path -> value)
+  stateDiff?: Record<string, string>
+}
+
+// Block environment overrides; numbers are decimal or hex strings
+export interface BlockOverridesInput {
+  number?: string
+  time?: string
+  gasLimit?: string
+  baseFeePerGas?: string
+  feeRecipient?: string
+  prevRandao?: string
+}
+
+type BlockParameter = { blockNumber: bigint; blockTag?: undefined } | { blockNumber?: undefined; blockTag: BlockTag }
+
+function parseInteger(value: string, field: string): bigint {
+  try {
+    return BigInt(value.trim())
+  } catch {
+    throw new Error(`Invalid ${field}: "${value}" is not a decimal or hex integer`)
+  }
+}
+
+// 32-byte word from a hex word, a decimal integer, an address or a boolean
+function toStorageWord(value: string, field: string): Hex {
+  const trimmed = value.trim()
+  if (trimmed === 'true' || trimmed === 'false') return numberToHex(trimmed === 'true' ? 1 : 0, { size: 32 })
+  if (isHex(trimmed)) {
+    if (trimmed.length > 66) throw new Error(`Invalid ${field}: "${value}" is longer than 32 bytes`)
+    return pad(trimmed, { size: 32 })
+  }
+  return numberToHex(BigInt.asUintN(256, parseInteger(trimmed, field)), { size: 32 })
+}
+
+// Write `value` into the bytes [offset, offset + size) of a slot word, counted from the right
+function spliceWord(word: Hex, value: Hex, offset: number, size: number): Hex {
+  const current = pad(word, { size: 32 }).slice(2)
+  const bytes = value.slice(2).slice(-size * 2)
+  const start = 64 - 2 * (offset + size)
+  return `0x${current.slice(0, start)}${bytes}${current.slice(start + size * 2)}`
+}
+
+// Storage overrides keyed by raw slot, or by variable path resolved with the contract's verified storage
+// layout. Packed variables are merged into the slot's current value so their neighbours are kept
+export async function resolveStorageOverrides(
+  chainName: ChainName,
+  address: string,
+  entries: Record<string, string>,
+  block: BlockParameter
+): Promise<Array<{ slot: Hex; value: Hex }>> {
+  const client = getClientManager().getClient(chainName)
+  let layout: Awaited<ReturnType<typeof fetchStorageLayout>> | undefined
+
+  const overrides = new Map<Hex, Hex>()
+  for (const [key, value] of Object.entries(entries)) {
+    if (isHex(key)) {
+      overrides.set(pad(key, { size: 32 }), toStorageWord(value, `storage value for ${key}`))
+      continue
+    }
+
+    layout ??= await fetchStorageLayout(chainName, address).catch(() => null)
+    if (!layout) {
+      throw new Error(
+        `Cannot resolve storage variable "${key}" of ${address}: no verified storage layout; use a raw slot instead`
+      )
+    }
+    const location = resolveStoragePath(layout.layout, key)
+    if (location.type.encoding !== 'inplace' || location.type.members || location.type.base) {
+      throw new Error(`Storage variable "${key}" is a ${location.type.label}; only value types can be overridden`)
+    }
+    const slot = numberToHex(location.slot, { size: 32 })
+    const size = Number(location.type.numberOfBytes)
+    const word = toStorageWord(value, `value for ${key}`)
+    if (size === 32) {
+      overrides.set(slot, word)
+    } else {
+      const current =
+        overrides.get(slot) ?? (await client.getStorageAt({ address: address as Address, slot, ...block })) ?? '0x'
+      overrides.set(slot, spliceWord(current, word, location.offset, size))
+    }
+  }
+  return [...overrides].map(([slot, value]) => ({ slot, value }))
+}
+
+// Validate and convert tool state overrides. Storage keys may be raw slots or variable paths
+export async function parseStateOverride(
+  chainName: ChainName,
+  input: StateOverrideInput[] | undefined,
+  block: BlockParameter
+): Promise<StateOverride | undefined> {
+  if (!input || input.length === 0) return undefined
+
+  return Promise.all(
+    input.map(async (account) => {
+      if (!isAddress(account.address)) {
+        throw new Error(`Invalid stateOverride address: ${account.address}`)
+      }
+      if (account.state && account.stateDiff) {
+        throw new Error(`stateOverride for ${account.address}: use either state or stateDiff, not both`)
+      }
+      if (account.code !== undefined && !isHex(account.code)) {
+        throw new Error(`stateOverride for ${account.address}: code must be 0x-prefixed hex`)
+      }
+
+      const override: StateOverride[number] = { address: account.address as Address }
+      if (account.balance !== undefined) override.balance = parseInteger(account.balance, 'stateOverride balance')
+      if (account.nonce !== undefined) override.nonce = account.nonce
+      if (account.code !== undefined) override.code = account.code as Hex
+      if (account.state) {
+        override.state = await resolveStorageOverrides(chainName, account.address, account.state, block)
+      } else if (account.stateDiff) {
+        override.stateDiff = await resolveStorageOverrides(chainName, account.address, account.stateDiff, block)
+      }
+      return override
+    })
+  )
+}
+
+export function parseBlockOverrides(input: BlockOverridesInput | undefined) {
+  if (!input) return undefined
+  if (input.feeRecipient !== undefined && !isAddress(input.feeRecipient)) {
+    throw new Error(`Invalid blockOverrides feeRecipient: ${input.feeRecipient}`)
+  }
+  const integer = (field: keyof BlockOverridesInput) =>
+    input[field] !== undefined ? parseInteger(input[field]!, `blockOverrides ${field}`) : undefined
+  return {
+    number: integer('number'),
+    time: integer('time'),
+    gasLimit: integer('gasLimit'),
+    baseFeePerGas: integer('baseFeePerGas'),
+    prevRandao: integer('prevRandao'),
+    feeRecipient: input.feeRecipient as Address | undefined
+  }
+}
+
+// Whether an RPC error means the method is not implemented (rather than that the call failed)
+export function isMethodUnsupported(error: unknown): boolean {
+  const matches = (candidate: unknown) => {
+    const { code, message, details } = candidate as { code?: number; message?: string; details?: string }
+    return (
+      code === -32601 ||
+      code === -32004 ||
+      /method .*(not found|does not exist|not (supported|available))|unsupported method/i.test(`${message} ${details}`)
+    )
+  }
+  if (error instanceof BaseError) return Boolean(error.walk(matches))
+  return Boolean(error && typeof error === 'object' && matches(error))
+}
+
+export interface BundleCall {
+  from?: string
+  to?: string
+  functionAbi?: string
+  args?: Array<string | number | boolean | null>
+  data?: string
+  value?: string
+  gas?: string
+  // Start a new simulated block before this call (number and timestamp advance)
+  newBlock?: boolean
+}
+
+export interface BundleCallResult {
+  index: number
+  block: number
+  success: boolean
+  gasUsed: bigint
+  functionName?: string
+  result?: unknown
+  returnData: Hex
+  revert?: DecodedRevert
+  logs: DecodedLog[]
+}
+
+export interface BundleOptions {
+  stateOverride?: StateOverrideInput[]
+  blockOverrides?: BlockOverridesInput
+  blockNumber?: string
+  // Check nonces, balances and base fee like a real block would (default false)
+  validation?: boolean
+  // Report native value transfers as ERC-7528 Transfer logs (default true)
+  traceTransfers?: boolean
+}
+
+// Run calls in order on top of one state with eth_simulateV1; each call sees the effects of the ones
+// before it, and a failing call does not stop the rest
+export async function simulateBundle(
+  chainName: ChainName,
+  calls: BundleCall[],
+  options: BundleOptions = {}
+): Promise<{ blocks: Array<{ number: bigint; timestamp: bigint }>; calls: BundleCallResult[] }> {
+  const clientManager = getClientManager()
+  const client = clientManager.getClient(chainName)
+  const block = clientManager.getBlockParameter(chainName, options.blockNumber)
+
+  const prepared = calls.map((call, index) => {
+    if (call.to !== undefined && !isAddress(call.to)) throw new Error(`Call ${index}: invalid to address ${call.to}`)
+    if (call.from !== undefined && !isAddress(call.from)) {
+      throw new Error(`Call ${index}: invalid from address ${call.from}`)
+    }
+    let abiItem: AbiFunction | undefined
+    let data = call.data as Hex | undefined
+    if (call.functionAbi) {
+      abiItem = parseAbiItem(call.functionAbi) as AbiFunction
+      data = encodeFunctionData({
+        abi: [abiItem],
+        functionName: abiItem.name,
+        args: convertArgumentsToTypes(call.args || [], abiItem.inputs)
+      })
+    } else if (data !== undefined && !isHex(data)) {
+      throw new Error(`Call ${index}: data must be 0x-prefixed hex`)
+    }
+    return {
+      abiItem,
+      request: {
+        from: call.from as Address | undefined,
+        to: call.to as Address | undefined,
+        data,
+        value: call.value !== undefined ? parseInteger(call.value, `call ${index} value`) : undefined,
+        gas: call.gas !== undefined ? parseInteger(call.gas, `call ${index} gas`) : undefined
+      }
+    }
+  })
+
+  // Split into simulated blocks at every newBlock marker; overrides apply to the first block
+  const blocks: Array<{ calls: typeof prepared }> = []
+  prepared.forEach((call, index) => {
+    if (blocks.length === 0 || (index > 0 && calls[index]!.newBlock)) blocks.push({ calls: [] })
+    blocks[blocks.length - 1]!.calls.push(call)
+  })
+
+  const stateOverrides = await parseStateOverride(chainName, options.stateOverride, block)
+  const blockOverrides = parseBlockOverrides(options.blockOverrides)
+
+  let simulated
+  try {
+    simulated = await client.simulateBlocks({
+      blocks: blocks.map((entry, index) => ({
+        calls: entry.calls.map((call) => call.request),
+        ...(index === 0 ? { stateOverrides, blockOverrides } : {})
+      })),
+      traceTransfers: options.traceTransfers ?? true,
+      validation: options.validation ?? false,
+      ...block
+    })
+  } catch (error) {
+    if (isMethodUnsupported(error)) {
+      throw new Error(
+        `The RPC endpoint for ${chainName} does not support eth_simulateV1, which simulate_bundle needs. Configure an RPC that implements it (geth 1.14.9+, Nethermind, Reth, Erigon) or use simulate_contract for single calls`
+      )
+    }
+    throw error
+  }
+
+  const revertDecoder = new RevertDecoder({ chainName })
+  const results: BundleCallResult[] = []
+  let index = 0
+  for (const [blockIndex, simulatedBlock] of simulated.entries()) {
+    for (const [position, call] of simulatedBlock.calls.entries()) {
+      const { abiItem, request } = blocks[blockIndex]!.calls[position]!
+      const success = call.status === 'success'
+      const result: BundleCallResult = {
+        index: index++,
+        block: blockIndex,
+        success,
+        gasUsed: call.gasUsed,
+        ...(abiItem ? { functionName: abiItem.name } : {}),
+        returnData: call.data,
+        logs: await decodeLogs(call.logs ?? [], { chainName })
+      }
+      if (success && abiItem && abiItem.outputs.length > 0 && call.data !== '0x') {
+        try {
+          result.result = decodeFunctionResult({ abi: [abiItem], functionName: abiItem.name, data: call.data })
+        } catch {
+          // Return data does not match the declared outputs
+        }
+      }
+      if (!success) {
+        result.revert = await revertDecoder.decode(call.data, request.to)
+      }
+      results.push(result)
+    }
+  }
+
+  return {
+    blocks: simulated.map((entry) => ({ number: entry.number ?? 0n, timestamp: entry.timestamp })),
+    calls: results
+  }
+}
+
+export interface AssetChangeRequest {
+  from: Address
+  to?: Address
+  data?: Hex
+  value?: bigint
+  gas?: bigint
+}
+
+export interface AssetChangePreview {
+  // eth_simulateV1 with traceTransfers, or debug_traceCall with the callTracer's logs
+  source: 'eth_simulateV1' | 'debug_traceCall'
+  success: boolean
+  gasUsed?: bigint
+  revert?: DecodedRevert
+  approvals: TokenApproval[]
+  transfers: AssetTransfer[]
+  // Net assets the sender gains (positive) or spends (negative), gas fee excluded
+  senderChanges: BalanceChange[]
+  balanceChanges: Record<string, BalanceChange[]>
+}
+
+interface SimulatedExecution {
+  success: boolean
+  gasUsed?: bigint
+  returnData: Hex
+  logs: RawLog[]
+  // Native transfers not already reported as ERC-7528 logs
+  native: AssetTransfer[]
+}
+
+// viem's StateOverride in the JSON-RPC shape debug_traceCall expects
+function toRpcStateOverride(stateOverride: StateOverride) {
+  const slots = (entries: Array<{ slot: Hex; value: Hex }>) =>
+    Object.fromEntries(entries.map(({ slot, value }) => [slot, value]))
+  return Object.fromEntries(
+    stateOverride.map(({ address, balance, nonce, code, state, stateDiff }) => [
+      address,
+      {
+        ...(balance !== undefined ? { balance: numberToHex(balance) } : {}),
+        ...(nonce !== undefined ? { nonce: numberToHex(nonce) } : {}),
+        ...(code !== undefined ? { code } : {}),
+        ...(state ? { state: slots(state) } : {}),
+        ...(stateDiff ? { stateDiff: slots(stateDiff) } : {})
+      }
+    ])
+  )
+}
+
+// geth names some debug_traceCall block override fields differently from eth_simulateV1
+function toTraceBlockOverrides(overrides: BlockOverrides) {
+  const hex = (value: bigint | undefined) => (value !== undefined ? numberToHex(value) : undefined)
+  return {
+    number: hex(overrides.number),
+    time: hex(overrides.time),
+    gasLimit: hex(overrides.gasLimit),
+    baseFee: hex(overrides.baseFeePerGas),
+    coinbase: overrides.feeRecipient,
+    random: overrides.prevRandao !== undefined ? numberToHex(overrides.prevRandao, { size: 32 }) : undefined
+  }
+}
+
+async function traceCallExecution(
+  chainName: ChainName,
+  request: AssetChangeRequest,
+  options: { stateOverride?: StateOverride; blockOverrides?: BlockOverrides; block: BlockParameter }
+): Promise<SimulatedExecution> {
+  const client = getClientManager().getClient(chainName)
+  const { block } = options
+  const trace = await client.request<{
+    Parameters: [
+      { from: Address; to?: Address; data?: Hex; value?: Hex; gas?: Hex },
+      Hex | BlockTag,
+      {
+        tracer: 'callTracer'
+        tracerConfig: { withLog: boolean }
+        stateOverrides?: ReturnType<typeof toRpcStateOverride>
+        blockOverrides?: ReturnType<typeof toTraceBlockOverrides>
+      }
+    ]
+    ReturnType: CallFrame
+  }>({
+    method: 'debug_traceCall',
+    params: [
+      {
+        from: request.from,
+        to: request.to,
+        data: request.data,
+        value: request.value !== undefined ? numberToHex(request.value) : undefined,
+        gas: request.gas !== undefined ? numberToHex(request.gas) : undefined
+      },
+      block.blockNumber !== undefined ? numberToHex(block.blockNumber) : block.blockTag,
+      {
+        tracer: 'callTracer',
+        tracerConfig: { withLog: true },
+        ...(options.stateOverride ? { stateOverrides: toRpcStateOverride(options.stateOverride) } : {}),
+        ...(options.blockOverrides ? { blockOverrides: toTraceBlockOverrides(options.blockOverrides) } : {})
+      }
+    ]
+  })
+
+  // Logs of reverted frames were rolled back with them
+  const logs: RawLog[] = []
+  walkCallFrames(trace, (frame) => {
+    if (frame.error) return false
+    for (const log of frame.logs ?? []) logs.push({ ...log, logIndex: logs.length })
+  })
+  return {
+    success: !trace.error,
+    gasUsed: trace.gasUsed ? BigInt(trace.gasUsed) : undefined,
+    returnData: trace.output ?? '0x',
+    logs,
+    native: extractNativeTransfers(trace)
+  }
+}
+
+// What a transaction would move if sent now: approvals granted, token transfers, native value (internal
+// transfers included) and the resulting net balance changes. Needs eth_simulateV1 or debug_traceCall;
+// plain eth_call does not return logs
+export async function previewAssetChanges(
+  chainName: ChainName,
+  request: AssetChangeRequest,
+  options: { stateOverride?: StateOverride; blockOverrides?: BlockOverrides; blockNumber?: string } = {}
+): Promise<AssetChangePreview> {
+  const clientManager = getClientManager()
+  const client = clientManager.getClient(chainName)
+  const block = clientManager.getBlockParameter(chainName, options.blockNumber)
+
+  let source: AssetChangePreview['source'] = 'eth_simulateV1'
+  let execution: SimulatedExecution
+  try {
+    const [simulated] = await client.simulateBlocks({
+      blocks: [
+        {
+          calls: [{ from: request.from, to: request.to, data: request.data, value: request.value, gas: request.gas }],
+          stateOverrides: options.stateOverride,
+          blockOverrides: options.blockOverrides
+        }
+      ],
+      traceTransfers: true,
+      ...block
+    })
+    const call = simulated!.calls[0]!
+    execution = {
+      success: call.status === 'success',
+      gasUsed: call.gasUsed,
+      returnData: call.data,
+      logs: call.logs ?? [],
+      native: []
+    }
+  } catch (error) {
+    if (!isMethodUnsupported(error)) throw error
+    source = 'debug_traceCall'
+    try {
+      execution = await traceCallExecution(chainName, request, { ...options, block })
+    } catch (traceError) {
+      if (!isMethodUnsupported(traceError)) throw traceError
+      throw new Error(
+        `Cannot preview asset changes on ${chainName}: the RPC endpoint supports neither eth_simulateV1 nor debug_traceCall`
+      )
+    }
+  }
+
+  const preview: AssetChangePreview = {
+    source,
+    success: execution.success,
+    ...(execution.gasUsed !== undefined ? { gasUsed: execution.gasUsed } : {}),
+    approvals: [],
+    transfers: [],
+    senderChanges: [],
+    balanceChanges: {}
+  }
+  if (!execution.success) {
+    preview.revert = await new RevertDecoder({ chainName }).decode(execution.returnData, request.to)
+    return preview
+  }
+
+  const tokenTransfers = extractTokenTransfers(execution.logs, { wrappedNative: getWrappedNativeToken(chainName) })
+  const approvals = extractTokenApprovals(execution.logs)
+  const metadata = await fetchTokenMetadata(chainName, [
+    ...tokenTransfers.flatMap((transfer) => (transfer.token ? [transfer.token] : [])),
+    ...approvals.map((approval) => approval.token)
+  ])
+  const nativeCurrency = client.chain?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 }
+
+  preview.transfers = applyTokenMetadata([...execution.native, ...tokenTransfers], metadata, nativeCurrency)
+  preview.approvals = approvals.map((approval) => {
+    const info = metadata.get(approval.token)
+    return {
+      ...approval,
+      symbol: info?.symbol,
+      ...(approval.kind === 'erc20' && info?.decimals !== undefined
+        ? { decimals: info.decimals, amountFormatted: formatUnits(approval.amount!, info.decimals) }
+        : {})
+    }
+  })
+  preview.balanceChanges = computeBalanceChanges(preview.transfers)
+  preview.senderChanges =
+    request.from.toLowerCase() === zeroAddress ? [] : (preview.balanceChanges[request.from.toLowerCase()] ?? [])
+  return preview
+}
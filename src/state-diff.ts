@@ -0,0 +1,256 @@
+import { type Hash, type Hex, hexToBigInt, hexToNumber, keccak256, pad, size } from 'viem'
+import type { ChainName } from './types.js'
+import { getClientManager } from './client.js'
+import { decodeStorageVariable, fetchStorageLayout, StorageSlotResolver } from './storage-layout.js'
+
+export interface ValueChange<T> {
+  before: T
+  after: T
+}
+
+export interface CodeSummary {
+  size: number
+  hash: Hex
+}
+
+export interface StorageVariableChange {
+  name: string
+  type: string
+  before: unknown
+  after: unknown
+}
+
+export interface StorageChange {
+  slot: Hex
+  before: Hex
+  after: Hex
+  // Variables from the contract's storage layout living in this slot (only those that changed)
+  variables?: StorageVariableChange[]
+}
+
+export interface AccountStateDiff {
+  address: string
+  status: 'created' | 'destroyed' | 'modified'
+  balance?: ValueChange<bigint> & { delta: bigint }
+  nonce?: ValueChange<number>
+  // Code is summarized by size and hash; null means no code
+  code?: ValueChange<CodeSummary | null>
+  storage: StorageChange[]
+  // Contract whose storage layout decoded the slots
+  contractName?: string
+}
+
+export interface StateDiff {
+  // 'prestateTracer': geth-style debug_traceTransaction with diffMode
+  // 'trace_replayTransaction': Erigon/Nethermind/OpenEthereum stateDiff
+  source: 'prestateTracer' | 'trace_replayTransaction'
+  accounts: AccountStateDiff[]
+}
+
+// prestateTracer account entry (https://geth.ethereum.org/docs/developers/evm-tracing/built-in-tracers#prestate-tracer)
+interface PrestateAccount {
+  balance?: Hex
+  // A number on geth, hex on some other clients
+  nonce?: number | Hex
+  code?: Hex
+  storage?: Record<Hex, Hex>
+}
+
+// trace_replayTransaction stateDiff value: unchanged, added, removed or changed
+type ParityDiff<T> = '=' | { '+': T } | { '-': T } | { '*': { from: T; to: T } }
+
+interface ParityAccountDiff {
+  balance: ParityDiff<Hex>
+  nonce: ParityDiff<Hex>
+  code: ParityDiff<Hex>
+  storage: Record<Hex, ParityDiff<Hex>>
+}
+
+const ZERO_WORD = pad('0x', { size: 32 })
+
+function summarizeCode(code: Hex | undefined): CodeSummary | null {
+  return code && code !== '0x' ? { size: size(code), hash: keccak256(code) } : null
+}
+
+function sameCode(a: CodeSummary | null, b: CodeSummary | null): boolean {
+  return (a?.hash ?? null) === (b?.hash ?? null)
+}
+
+function toNonce(value: number | Hex | undefined): number | undefined {
+  return typeof value === 'string' ? hexToNumber(value) : value
+}
+
+function normalizeWord(value: Hex | undefined): Hex {
+  return value ? pad(value, { size: 32 }) : ZERO_WORD
+}
+
+function buildAccount(
+  address: string,
+  status: AccountStateDiff['status'],
+  balance: ValueChange<bigint>,
+  nonce: ValueChange<number>,
+  code: ValueChange<CodeSummary | null>,
+  storage: StorageChange[]
+): AccountStateDiff {
+  const account: AccountStateDiff = { address: address.toLowerCase(), status, storage: [] }
+  if (balance.before !== balance.after) account.balance = { ...balance, delta: balance.after - balance.before }
+  if (nonce.before !== nonce.after) account.nonce = nonce
+  if (!sameCode(code.before, code.after)) account.code = code
+  account.storage = storage
+    .filter((change) => change.before !== change.after)
+    .sort((a, b) => (a.slot < b.slot ? -1 : 1))
+  return account
+}
+
+// Normalize a prestateTracer diffMode result. `pre` holds the modified accounts before the
+// transaction and `post` only the fields that changed; zero storage values are left out of both
+export function parsePrestateDiff(result: {
+  pre?: Record<string, PrestateAccount>
+  post?: Record<string, PrestateAccount>
+}): AccountStateDiff[] {
+  const pre = result.pre ?? {}
+  const post = result.post ?? {}
+  const addresses = new Set([...Object.keys(pre), ...Object.keys(post)].map((address) => address.toLowerCase()))
+  const find = (accounts: Record<string, PrestateAccount>, address: string) =>
+    Object.entries(accounts).find(([key]) => key.toLowerCase() === address)?.[1]
+
+  return [...addresses].map((address) => {
+    const before = find(pre, address)
+    const after = find(post, address)
+    const status = !before ? 'created' : !after ? 'destroyed' : 'modified'
+
+    const balanceBefore = before?.balance ? hexToBigInt(before.balance) : 0n
+    const nonceBefore = toNonce(before?.nonce) ?? 0
+    const codeBefore = summarizeCode(before?.code)
+    const balance = {
+      before: balanceBefore,
+      after: status === 'destroyed' ? 0n : after?.balance ? hexToBigInt(after.balance) : balanceBefore
+    }
+    const nonce = { before: nonceBefore, after: status === 'destroyed' ? 0 : (toNonce(after?.nonce) ?? nonceBefore) }
+    const code = {
+      before: codeBefore,
+      after: status === 'destroyed' ? null : after?.code !== undefined ? summarizeCode(after.code) : codeBefore
+    }
+
+    const slots = new Set([...Object.keys(before?.storage ?? {}), ...Object.keys(after?.storage ?? {})])
+    const storage = [...slots].map((slot) => ({
+      slot: normalizeWord(slot as Hex),
+      before: normalizeWord(before?.storage?.[slot as Hex]),
+      after: normalizeWord(after?.storage?.[slot as Hex])
+    }))
+    return buildAccount(address, status, balance, nonce, code, storage)
+  })
+}
+
+function parityChange<T>(diff: ParityDiff<T> | undefined, empty: T): ValueChange<T> | null {
+  if (!diff || diff === '=') return null
+  if ('+' in diff) return { before: empty, after: diff['+'] }
+  if ('-' in diff) return { before: diff['-'], after: empty }
+  return { before: diff['*'].from, after: diff['*'].to }
+}
+
+// Normalize a trace_replayTransaction stateDiff, which marks each field as unchanged ("="),
+// added ("+"), removed ("-") or changed ("*")
+export function parseParityStateDiff(stateDiff: Record<string, ParityAccountDiff>): AccountStateDiff[] {
+  return Object.entries(stateDiff).map(([address, diff]) => {
+    const added = typeof diff.balance === 'object' && '+' in diff.balance
+    const removed = typeof diff.balance === 'object' && '-' in diff.balance
+    const status = added ? 'created' : removed ? 'destroyed' : 'modified'
+
+    const balance = parityChange(diff.balance, '0x0' as Hex)
+    const nonce = parityChange(diff.nonce, '0x0' as Hex)
+    const code = parityChange(diff.code, '0x' as Hex)
+    const storage = Object.entries(diff.storage ?? {}).flatMap(([slot, value]) => {
+      const change = parityChange(value, ZERO_WORD)
+      if (!change) return []
+      return [{ slot: normalizeWord(slot as Hex), before: normalizeWord(change.before), after: normalizeWord(change.after) }]
+    })
+
+    return buildAccount(
+      address,
+      status,
+      balance ? { before: hexToBigInt(balance.before), after: hexToBigInt(balance.after) } : { before: 0n, after: 0n },
+      nonce ? { before: hexToNumber(nonce.before), after: hexToNumber(nonce.after) } : { before: 0, after: 0 },
+      code ? { before: summarizeCode(code.before), after: summarizeCode(code.after) } : { before: null, after: null },
+      storage
+    )
+  })
+}
+
+// State changes of a mined transaction: prestateTracer in diff mode on geth-style clients, falling
+// back to trace_replayTransaction on Erigon and Nethermind. Returns null (with both errors) when the
+// RPC offers neither
+export async function fetchStateDiff(
+  chainName: ChainName,
+  hash: Hash
+): Promise<{ diff: StateDiff; error?: undefined } | { diff: null; error: string }> {
+  const client = getClientManager().getClient(chainName)
+  const errors: string[] = []
+  const message = (error: unknown) => (error instanceof Error ? error.message.split('\n')[0]! : String(error))
+
+  try {
+    const result = await client.request<{
+      Parameters: [Hash, { tracer: 'prestateTracer'; tracerConfig: { diffMode: true } }]
+      ReturnType: { pre?: Record<string, PrestateAccount>; post?: Record<string, PrestateAccount> }
+    }>({
+      method: 'debug_traceTransaction',
+      params: [hash, { tracer: 'prestateTracer', tracerConfig: { diffMode: true } }]
+    })
+    return { diff: { source: 'prestateTracer', accounts: parsePrestateDiff(result) } }
+  } catch (error) {
+    errors.push(`debug_traceTransaction: ${message(error)}`)
+  }
+
+  try {
+    const result = await client.request<{
+      Parameters: [Hash, ['stateDiff']]
+      ReturnType: { stateDiff?: Record<string, ParityAccountDiff> }
+    }>({
+      method: 'trace_replayTransaction',
+      params: [hash, ['stateDiff']]
+    })
+    return { diff: { source: 'trace_replayTransaction', accounts: parseParityStateDiff(result.stateDiff ?? {}) } }
+  } catch (error) {
+    errors.push(`trace_replayTransaction: ${message(error)}`)
+  }
+
+  return { diff: null, error: errors.join('; ') }
+}
+
+// Name the changed slots of verified contracts from their storage layout. Mapping keys can only be
+// recognized among `candidateKeys` (addresses and words seen in the transaction) and the accounts
+// of the diff itself
+export async function decodeStateDiff(
+  chainName: ChainName,
+  accounts: AccountStateDiff[],
+  candidateKeys: readonly string[] = []
+): Promise<AccountStateDiff[]> {
+  const keys = [...candidateKeys, ...accounts.map((account) => account.address)]
+  await Promise.all(
+    accounts
+      .filter((account) => account.storage.length > 0)
+      .map(async (account) => {
+        const layout = await fetchStorageLayout(chainName, account.address).catch(() => null)
+        if (!layout) return
+        account.contractName = layout.contractName
+        const resolver = new StorageSlotResolver(layout.layout, keys)
+        for (const change of account.storage) {
+          const variables = resolver
+            .resolve(change.slot)
+            .map((variable) => ({
+              name: variable.name,
+              type: variable.type,
+              before: decodeStorageVariable(change.before, variable),
+              after: decodeStorageVariable(change.after, variable)
+            }))
+            .filter((variable) => !isEqual(variable.before, variable.after))
+          if (variables.length > 0) change.variables = variables
+        }
+      })
+  )
+  return accounts
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return typeof a === 'object' || typeof b === 'object' ? JSON.stringify(a) === JSON.stringify(b) : a === b
+}
@@ -0,0 +1,495 @@
+import {
+  concat,
+  getAddress,
+  type Hex,
+  hexToBigInt,
+  hexToBool,
+  hexToString,
+  isAddress,
+  isHex,
+  keccak256,
+  numberToHex,
+  pad,
+  size,
+  stringToHex
+} from 'viem'
+import type { ChainName } from './types.js'
+import { fetchContractInfo, resolveImplementations } from './contract-providers.js'
+
+// Solidity compiler storage layout (https://docs.soliditylang.org/en/latest/internals/layout_in_storage.html#json-output)
+export interface StorageLayoutEntry {
+  label: string
+  slot: string
+  offset: number
+  type: string
+  contract?: string
+}
+
+export interface StorageLayoutType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes'
+  label: string
+  numberOfBytes: string
+  key?: string
+  value?: string
+  base?: string
+  members?: StorageLayoutEntry[]
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutEntry[]
+  types: Record<string, StorageLayoutType> | null
+}
+
+// A variable (or part of one) stored in a slot
+export interface StorageVariable {
+  // Access path, e.g. "owner", "balances[0xAbC…]" or "positions[7].liquidity"
+  name: string
+  // Type label from the layout, e.g. "uint128" or "address"
+  type: string
+  // Byte offset within the slot (from the right, as in the layout)
+  offset: number
+  numberOfBytes: number
+}
+
+const MAX_MAPPING_DEPTH = 2
+const MAX_STATIC_ARRAY_LENGTH = 256
+const MAX_DYNAMIC_ARRAY_INDEX = 2n ** 32n
+const SMALL_INTEGER_KEYS = 32
+// Long string/bytes values are read up to this many slots
+const MAX_BYTES_SLOTS = 128
+
+// Validate the loosely typed storageLayout of provider responses
+// (bare layout, or a solc contract output object that contains one)
+export function parseStorageLayout(value: unknown): StorageLayout | null {
+  const parsed = (typeof value === 'string' ? safeJsonParse(value) : value) as
+    | (Partial<StorageLayout> & { storageLayout?: Partial<StorageLayout> })
+    | null
+  const layout = parsed?.storageLayout ?? parsed
+  if (!layout || !Array.isArray(layout.storage) || layout.storage.length === 0) return null
+  return { storage: layout.storage, types: layout.types ?? null }
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+// Storage layout of a verified contract. Proxies report their implementation's layout, since that is
+// the code that reads and writes the proxy's storage
+export async function fetchStorageLayout(
+  chainName: ChainName,
+  address: string
+): Promise<{ layout: StorageLayout; contractName: string; layoutAddress: string } | null> {
+  const info = await fetchContractInfo(chainName, address)
+  for (const implementation of await resolveImplementations(chainName, address, info)) {
+    const implementationInfo = await fetchContractInfo(chainName, implementation).catch(() => null)
+    const layout = parseStorageLayout(implementationInfo?.storageLayout)
+    if (layout) {
+      return { layout, contractName: implementationInfo!.contractName, layoutAddress: implementation }
+    }
+  }
+  const layout = parseStorageLayout(info.storageLayout)
+  return layout ? { layout, contractName: info.contractName, layoutAddress: address } : null
+}
+
+// Slot of a mapping value: keccak256(key . slot), with value type keys padded to 32 bytes and
+// string/bytes keys hashed unpadded
+export function mappingValueSlot(baseSlot: bigint, key: Hex): bigint {
+  return hexToBigInt(keccak256(concat([key, numberToHex(baseSlot, { size: 32 })])))
+}
+
+// First slot of a dynamic array's elements (or of a long string/bytes value)
+export function dynamicDataSlot(baseSlot: bigint): bigint {
+  return hexToBigInt(keccak256(numberToHex(baseSlot, { size: 32 })))
+}
+
+// Where element `index` of an array lives, relative to the array's data slot. Elements of up to
+// 16 bytes share slots; larger elements start a new slot each
+export function arrayElementPosition(index: bigint, elementBytes: number): { slot: bigint; offset: number } {
+  if (elementBytes > 16) {
+    return { slot: index * BigInt(Math.ceil(elementBytes / 32)), offset: 0 }
+  }
+  const perSlot = BigInt(Math.floor(32 / elementBytes))
+  return { slot: index / perSlot, offset: Number(index % perSlot) * elementBytes }
+}
+
+function isAddressType(label: string): boolean {
+  return label === 'address' || label === 'address payable' || /^(contract|interface) /.test(label)
+}
+
+// Decode the bytes of a variable from the 32-byte slot word it is packed into
+export function decodeStorageValue(word: Hex, type: StorageLayoutType, offset = 0): unknown {
+  const hex = pad(word, { size: 32 }).slice(2)
+  const bytes = Number(type.numberOfBytes)
+  const raw = `0x${hex.slice(64 - 2 * (offset + bytes), 64 - 2 * offset)}` as Hex
+  const label = type.label
+
+  if (type.encoding === 'bytes') {
+    // Short values (< 32 bytes) live in the slot with length * 2 in the lowest byte; long values
+    // store length * 2 + 1 and keep their data at keccak256(slot)
+    const value = hexToBigInt(word)
+    if ((value & 1n) === 1n) return { length: Number((value - 1n) / 2n) }
+    const length = Number(value & 0xffn) / 2
+    const data = `0x${hex.slice(0, length * 2)}` as Hex
+    return label === 'string' ? hexToString(data) : data
+  }
+  if (type.encoding !== 'inplace' || type.members) return raw
+  if (label === 'bool') return hexToBool(raw)
+  if (isAddressType(label)) {
+    return getAddress(`0x${raw.slice(-40)}`)
+  }
+  if (/^enum /.test(label)) return Number(hexToBigInt(raw))
+  if (/^uint\d*$/.test(label)) return hexToBigInt(raw)
+  if (/^int\d*$/.test(label)) return hexToBigInt(raw, { signed: true })
+  return raw
+}
+
+// Candidate keys of value-type mappings, encoded to 32 bytes with their display form
+interface MappingKey {
+  encoded: Hex
+  display: string
+}
+
+// Reverses changed slots into variable paths. Mapping and array slots are hashes, so only keys
+// from the supplied candidates (e.g. addresses and topics seen in a transaction) can be recognized
+export class StorageSlotResolver {
+  private slots = new Map<bigint, StorageVariable[]>()
+  private arrays: Array<{ name: string; dataSlot: bigint; elementType: string; elementBytes: number }> = []
+  private addressKeys: MappingKey[]
+  private wordKeys: MappingKey[]
+  private integerKeys: MappingKey[]
+
+  constructor(
+    private layout: StorageLayout,
+    candidateKeys: readonly string[] = []
+  ) {
+    const addresses = new Set<string>()
+    const words = new Set<string>()
+    for (const candidate of candidateKeys) {
+      if (!isHex(candidate)) continue
+      if (size(candidate) === 20) addresses.add(candidate.toLowerCase())
+      if (size(candidate) === 32) {
+        words.add(candidate.toLowerCase())
+        if (/^0x0{24}/.test(candidate)) addresses.add(`0x${candidate.slice(26).toLowerCase()}`)
+      }
+    }
+    this.addressKeys = [...addresses].map((address) => ({
+      encoded: pad(address as Hex, { size: 32 }),
+      display: getAddress(address)
+    }))
+    this.wordKeys = [...words].map((word) => ({ encoded: word as Hex, display: word }))
+    this.integerKeys = Array.from({ length: SMALL_INTEGER_KEYS }, (_, index) => ({
+      encoded: numberToHex(index, { size: 32 }),
+      display: String(index)
+    }))
+
+    for (const entry of layout.storage) {
+      this.addVariable(entry.label, BigInt(entry.slot), entry.type, entry.offset, 0)
+    }
+  }
+
+  resolve(slot: Hex | bigint): StorageVariable[] {
+    const position = typeof slot === 'bigint' ? slot : hexToBigInt(slot)
+    const direct = this.slots.get(position)
+    if (direct) return direct
+
+    for (const array of this.arrays) {
+      const distance = position - array.dataSlot
+      if (distance < 0n || distance >= MAX_DYNAMIC_ARRAY_INDEX) continue
+      const elementSlots = BigInt(Math.ceil(array.elementBytes / 32))
+      const perSlot = array.elementBytes > 16 ? 1n : BigInt(Math.floor(32 / array.elementBytes))
+      const first = array.elementBytes > 16 ? distance / elementSlots : distance * perSlot
+      // Register the elements around this slot, then look it up again
+      for (let index = first; index < first + perSlot; index++) {
+        const element = arrayElementPosition(index, array.elementBytes)
+        this.addVariable(`${array.name}[${index}]`, array.dataSlot + element.slot, array.elementType, element.offset, 0)
+      }
+      const found = this.slots.get(position)
+      if (found) return found
+    }
+    return []
+  }
+
+  private type(id: string): StorageLayoutType | undefined {
+    return this.layout.types?.[id]
+  }
+
+  private addVariable(name: string, slot: bigint, typeId: string, offset: number, mappingDepth: number): void {
+    const type = this.type(typeId)
+    if (!type) {
+      this.record(slot, { name, type: typeId, offset, numberOfBytes: 32 })
+      return
+    }
+
+    if (type.encoding === 'mapping' && type.key && type.value) {
+      if (mappingDepth >= MAX_MAPPING_DEPTH) return
+      for (const key of this.keysFor(type.key)) {
+        this.addVariable(`${name}[${key.display}]`, mappingValueSlot(slot, key.encoded), type.value, 0, mappingDepth + 1)
+      }
+    } else if (type.encoding === 'dynamic_array' && type.base) {
+      this.record(slot, { name: `${name}.length`, type: 'uint256', offset: 0, numberOfBytes: 32 })
+      this.arrays.push({
+        name,
+        dataSlot: dynamicDataSlot(slot),
+        elementType: type.base,
+        elementBytes: Number(this.type(type.base)?.numberOfBytes ?? 32)
+      })
+    } else if (type.members) {
+      for (const member of type.members) {
+        this.addVariable(`${name}.${member.label}`, slot + BigInt(member.slot), member.type, member.offset, mappingDepth)
+      }
+    } else if (type.base && type.encoding === 'inplace') {
+      // Static array: elements follow the base slot
+      const elementBytes = Number(this.type(type.base)?.numberOfBytes ?? 32)
+      const length = Math.min(Number(/\[(\d+)\]$/.exec(type.label)?.[1] ?? 0), MAX_STATIC_ARRAY_LENGTH)
+      for (let index = 0n; index < BigInt(length); index++) {
+        const element = arrayElementPosition(index, elementBytes)
+        this.addVariable(`${name}[${index}]`, slot + element.slot, type.base, element.offset, mappingDepth)
+      }
+    } else {
+      this.record(slot, { name, type: type.label, offset, numberOfBytes: Number(type.numberOfBytes) })
+    }
+  }
+
+  private record(slot: bigint, variable: StorageVariable): void {
+    const variables = this.slots.get(slot) ?? []
+    if (!variables.some((existing) => existing.name === variable.name)) variables.push(variable)
+    this.slots.set(slot, variables)
+  }
+
+  private keysFor(keyTypeId: string): MappingKey[] {
+    const label = this.type(keyTypeId)?.label ?? keyTypeId.replace(/^t_/, '')
+    if (isAddressType(label)) {
+      return this.addressKeys
+    }
+    if (/^u?int\d*$/.test(label) || /^enum /.test(label)) return [...this.integerKeys, ...this.wordKeys]
+    if (label === 'bytes32') return this.wordKeys
+    return []
+  }
+}
+
+// Decode a resolved variable from its slot word
+export function decodeStorageVariable(word: Hex, variable: StorageVariable): unknown {
+  const encoding = variable.type === 'string' || variable.type === 'bytes' ? 'bytes' : 'inplace'
+  return decodeStorageValue(
+    word,
+    { encoding, label: variable.type, numberOfBytes: String(variable.numberOfBytes) },
+    variable.offset
+  )
+}
+
+// One step of a variable path: `[key]` on mappings and arrays, `.name` on structs
+type PathAccessor = { kind: 'index'; key: string } | { kind: 'member'; name: string }
+
+// Split `balances[0xabc].amount` or `names["alice"]` into the root variable and its accessors
+export function parseStoragePath(path: string): { root: string; accessors: PathAccessor[] } {
+  const match = /^\s*([A-Za-z_$][\w$]*)/.exec(path)
+  if (!match) throw new Error(`Invalid variable path "${path}": expected a variable name first`)
+  const accessors: PathAccessor[] = []
+  let rest = path.slice(match[0].length).trim()
+  while (rest.length > 0) {
+    const member = /^\.\s*([A-Za-z_$][\w$]*)/.exec(rest)
+    const quoted = /^\[\s*(["'])((?:\\.|(?!\1).)*)\1\s*\]/.exec(rest)
+    const plain = /^\[\s*([^\]]+?)\s*\]/.exec(rest)
+    if (member) {
+      accessors.push({ kind: 'member', name: member[1]! })
+      rest = rest.slice(member[0].length).trim()
+    } else if (quoted) {
+      accessors.push({ kind: 'index', key: quoted[2]!.replace(/\\(.)/g, '$1') })
+      rest = rest.slice(quoted[0].length).trim()
+    } else if (plain) {
+      accessors.push({ kind: 'index', key: plain[1]! })
+      rest = rest.slice(plain[0].length).trim()
+    } else {
+      throw new Error(`Invalid variable path "${path}" at "${rest}"`)
+    }
+  }
+  return { root: match[1]!, accessors }
+}
+
+// Encode a mapping key as Solidity hashes it: value types padded to 32 bytes, string and bytes raw
+export function encodeMappingKey(key: string, keyType: StorageLayoutType): Hex {
+  const label = keyType.label
+  const invalid = () => new Error(`Invalid ${label} mapping key "${key}"`)
+  const toInteger = () => {
+    try {
+      return BigInt(key)
+    } catch {
+      throw invalid()
+    }
+  }
+
+  if (isAddressType(label)) {
+    if (!isAddress(key, { strict: false })) throw invalid()
+    return pad(key.toLowerCase() as Hex, { size: 32 })
+  }
+  if (label === 'bool') {
+    if (key !== 'true' && key !== 'false') throw invalid()
+    return numberToHex(key === 'true' ? 1 : 0, { size: 32 })
+  }
+  if (/^uint\d*$/.test(label) || /^enum /.test(label)) {
+    const value = toInteger()
+    if (value < 0n) throw invalid()
+    return numberToHex(value, { size: 32 })
+  }
+  if (/^int\d*$/.test(label)) {
+    return numberToHex(BigInt.asUintN(256, toInteger()), { size: 32 })
+  }
+  const fixedBytes = /^bytes(\d+)$/.exec(label)
+  if (fixedBytes) {
+    if (!isHex(key) || size(key) > Number(fixedBytes[1])) throw invalid()
+    return pad(key, { size: 32, dir: 'right' })
+  }
+  if (label === 'string') return stringToHex(key)
+  if (label === 'bytes') {
+    if (!isHex(key)) throw invalid()
+    return key
+  }
+  throw new Error(`Unsupported mapping key type ${label}`)
+}
+
+// Storage location of a variable path
+export interface ResolvedStoragePath {
+  slot: bigint
+  offset: number
+  typeId: string
+  type: StorageLayoutType
+  // Dynamic array indexes along the path; each must be below the length stored at `lengthSlot`
+  arrayBounds: Array<{ name: string; lengthSlot: bigint; index: bigint }>
+}
+
+// Compute the slot of a variable path from the storage layout, following the rules of
+// https://docs.soliditylang.org/en/latest/internals/layout_in_storage.html
+export function resolveStoragePath(layout: StorageLayout, path: string): ResolvedStoragePath {
+  const { root, accessors } = parseStoragePath(path)
+  const types = layout.types
+  if (!types) throw new Error('The storage layout has no type information')
+  const typeOf = (id: string) => {
+    const type = types[id]
+    if (!type) throw new Error(`The storage layout is missing type ${id}`)
+    return type
+  }
+
+  // Inherited contracts may reuse a name; the most derived declaration comes last
+  const entry = layout.storage.filter((candidate) => candidate.label === root).pop()
+  if (!entry) {
+    const names = layout.storage.map((candidate) => candidate.label).join(', ')
+    throw new Error(`No storage variable "${root}". Variables: ${names}`)
+  }
+
+  let name = root
+  let slot = BigInt(entry.slot)
+  let offset = entry.offset
+  let typeId = entry.type
+  const arrayBounds: ResolvedStoragePath['arrayBounds'] = []
+
+  for (const accessor of accessors) {
+    const type = typeOf(typeId)
+    if (accessor.kind === 'member') {
+      const member = type.members?.find((candidate) => candidate.label === accessor.name)
+      if (!member) {
+        throw new Error(
+          type.members
+            ? `${name} (${type.label}) has no member "${accessor.name}"`
+            : `${name} is a ${type.label}, not a struct`
+        )
+      }
+      slot += BigInt(member.slot)
+      offset = member.offset
+      typeId = member.type
+      name = `${name}.${accessor.name}`
+      continue
+    }
+
+    if (type.encoding === 'mapping' && type.key && type.value) {
+      slot = mappingValueSlot(slot, encodeMappingKey(accessor.key, typeOf(type.key)))
+      offset = 0
+      typeId = type.value
+    } else if (type.base && (type.encoding === 'dynamic_array' || type.encoding === 'inplace')) {
+      let index: bigint
+      try {
+        index = BigInt(accessor.key)
+      } catch {
+        throw new Error(`Invalid index "${accessor.key}" for array ${name}`)
+      }
+      if (index < 0n) throw new Error(`Invalid index "${accessor.key}" for array ${name}`)
+      const element = arrayElementPosition(index, Number(typeOf(type.base).numberOfBytes))
+      if (type.encoding === 'dynamic_array') {
+        arrayBounds.push({ name, lengthSlot: slot, index })
+        slot = dynamicDataSlot(slot) + element.slot
+      } else {
+        const length = BigInt(/\[(\d+)\]$/.exec(type.label)?.[1] ?? 0)
+        if (index >= length) throw new Error(`Index ${index} out of bounds for ${name} (${type.label})`)
+        slot += element.slot
+      }
+      offset = element.offset
+      typeId = type.base
+    } else {
+      throw new Error(`${name} is a ${type.label} and cannot be indexed`)
+    }
+    name = `${name}[${accessor.key}]`
+  }
+
+  return { slot, offset, typeId, type: typeOf(typeId), arrayBounds }
+}
+
+// Read and decode the value at a resolved location. Structs and static arrays are decoded member by
+// member; mappings cannot be read whole and dynamic arrays report their length
+export async function readStorageValue(
+  layout: StorageLayout,
+  location: { slot: bigint; offset: number; typeId: string },
+  read: (slot: bigint) => Promise<Hex>
+): Promise<unknown> {
+  const type = layout.types?.[location.typeId]
+  if (!type) throw new Error(`The storage layout is missing type ${location.typeId}`)
+
+  if (type.encoding === 'mapping') {
+    throw new Error(`The variable is a ${type.label}; add a [key] to read one entry`)
+  }
+  if (type.encoding === 'dynamic_array') {
+    return { length: hexToBigInt(await read(location.slot)) }
+  }
+  if (type.encoding === 'bytes') {
+    const word = await read(location.slot)
+    const decoded = decodeStorageValue(word, type)
+    if (typeof decoded !== 'object' || decoded === null) return decoded
+    // Long value: data lives in ceil(length / 32) slots from keccak256(slot)
+    const { length } = decoded as { length: number }
+    const slotCount = Math.ceil(length / 32)
+    if (slotCount > MAX_BYTES_SLOTS) return { length }
+    const dataSlot = dynamicDataSlot(location.slot)
+    const words = await Promise.all(Array.from({ length: slotCount }, (_, index) => read(dataSlot + BigInt(index))))
+    const data = `0x${words.map((chunk) => pad(chunk, { size: 32 }).slice(2)).join('').slice(0, length * 2)}` as Hex
+    return type.label === 'string' ? hexToString(data) : data
+  }
+  if (type.members) {
+    const values = await Promise.all(
+      type.members.map((member) =>
+        readStorageValue(
+          layout,
+          { slot: location.slot + BigInt(member.slot), offset: member.offset, typeId: member.type },
+          read
+        ).catch((error: Error) => ({ error: error.message }))
+      )
+    )
+    return Object.fromEntries(type.members.map((member, index) => [member.label, values[index]]))
+  }
+  if (type.base) {
+    const elementBytes = Number(layout.types?.[type.base]?.numberOfBytes ?? 32)
+    const length = Math.min(Number(/\[(\d+)\]$/.exec(type.label)?.[1] ?? 0), MAX_STATIC_ARRAY_LENGTH)
+    return Promise.all(
+      Array.from({ length }, (_, index) => {
+        const element = arrayElementPosition(BigInt(index), elementBytes)
+        return readStorageValue(
+          layout,
+          { slot: location.slot + element.slot, offset: element.offset, typeId: type.base! },
+          read
+        )
+      })
+    )
+  }
+  return decodeStorageValue(await read(location.slot), type, location.offset)
+}
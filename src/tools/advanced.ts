@@ -1,7 +1,36 @@
-import { type Address, decodeAbiParameters, isAddress, parseAbiParameters } from 'viem'
+import {
+  type Address,
+  decodeAbiParameters,
+  type Hex,
+  hexToBigInt,
+  isAddress,
+  isHex,
+  numberToHex,
+  parseAbiParameters
+} from 'viem'
 import { z } from 'zod'
 import type { ChainName } from '../types.js'
 import { getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { decodeLogs } from '../decoder.js'
+import { RevertDecoder } from '../revert.js'
+import { decodeStateDiff, fetchStateDiff } from '../state-diff.js'
+import {
+  fetchStorageLayout,
+  parseStorageLayout,
+  readStorageValue,
+  resolveStoragePath,
+  type StorageLayout
+} from '../storage-layout.js'
+import {
+  annotateReverts,
+  buildCallTree,
+  type CallFrame,
+  type CallTree,
+  fetchCallTrace,
+  fetchOpcodeTrace
+} from '../trace.js'
+import { fetchTransactionSummary } from '../transaction-summary.js'
+import { analyzeTransactionTransfers } from '../transfers.js'
 import { createTool, formatResponse } from '../utils.js'
 
 export default {
@@ -24,13 +53,13 @@ export default {
 
       const clientManager = getClientManager()
       const client = clientManager.getClient(args.chain as ChainName)
-      const blockTag = args.blockNumber ? BigInt(args.blockNumber) : 'latest'
+      const block = clientManager.getBlockParameter(args.chain as ChainName, args.blockNumber)
 
       try {
         const storageValue = await client.getStorageAt({
           address: args.address as Address,
           slot: args.slot as `0x${string}`,
-          blockNumber: blockTag === 'latest' ? undefined : blockTag
+          ...block
         })
 
         if (!storageValue) {
@@ -105,7 +134,7 @@ export default {
           slot: args.slot,
           address: args.address,
           chain: args.chain,
-          blockNumber: blockTag === 'latest' ? 'latest' : blockTag.toString()
+          blockNumber: block.blockNumber?.toString() ?? block.blockTag
         })
       } catch (error) {
         throw new Error(`Failed to get storage: ${error}`)
@@ -113,6 +142,90 @@ export default {
     }
   ),
 
+  read_storage_variable: createTool(
+    'Read Storage Variable',
+    'Read a state variable by name from contract storage, e.g. "owner", "balances[0xabc…]", "owners[3]" or "positions[7].liquidity". Slots, packing and decoding come from the compiler storage layout of the verified contract (or implementation, for proxies) or a supplied layout.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
+      address: z.string().describe('The contract address to read'),
+      path: z
+        .string()
+        .describe('Variable path: name, then [key] for mappings and arrays and .member for structs; quote string keys'),
+      storageLayout: z
+        .string()
+        .optional()
+        .describe('Solidity storage layout JSON ({storage, types} from solc outputSelection "storageLayout"), used instead of the verified one'),
+      blockNumber: z.string().optional().describe('Block number (optional, defaults to latest)')
+    }),
+    async (args) => {
+      if (!isAddress(args.address)) {
+        throw new Error('Invalid address format')
+      }
+
+      let layout: StorageLayout | null
+      let contractName: string | undefined
+      if (args.storageLayout) {
+        layout = parseStorageLayout(args.storageLayout)
+        if (!layout) {
+          throw new Error('Failed to parse storageLayout: expected JSON with a non-empty "storage" array')
+        }
+      } else {
+        const verified = await fetchStorageLayout(args.chain as ChainName, args.address)
+        if (!verified) {
+          throw new Error(
+            `No storage layout available for ${args.address}. The contract is not verified with a provider that publishes storage layouts (Sourcify); pass storageLayout from the compiler output instead`
+          )
+        }
+        layout = verified.layout
+        contractName = verified.contractName
+      }
+
+      const location = resolveStoragePath(layout, args.path)
+
+      const clientManager = getClientManager()
+      const client = clientManager.getClient(args.chain as ChainName)
+      const block = clientManager.getBlockParameter(args.chain as ChainName, args.blockNumber)
+      const words = new Map<bigint, Promise<Hex>>()
+      const read = (slot: bigint) => {
+        if (!words.has(slot)) {
+          words.set(
+            slot,
+            client
+              .getStorageAt({ address: args.address as Address, slot: numberToHex(slot, { size: 32 }), ...block })
+              .then((value) => value ?? '0x')
+          )
+        }
+        return words.get(slot)!
+      }
+
+      try {
+        for (const bound of location.arrayBounds) {
+          const length = hexToBigInt(await read(bound.lengthSlot))
+          if (bound.index >= length) {
+            throw new Error(`Index ${bound.index} out of bounds for ${bound.name} (length ${length})`)
+          }
+        }
+
+        const value = await readStorageValue(layout, location, read)
+        return formatResponse({
+          chain: args.chain,
+          address: args.address,
+          contractName,
+          layoutSource: args.storageLayout ? 'provided' : 'verified',
+          path: args.path,
+          type: location.type.label,
+          slot: numberToHex(location.slot, { size: 32 }),
+          offset: location.offset,
+          value,
+          rawValue: await read(location.slot),
+          blockNumber: block.blockNumber?.toString() ?? block.blockTag
+        })
+      } catch (error) {
+        throw new Error(`Failed to read storage variable: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+  ),
+
   get_block_info: createTool(
     'Get Block Information',
     'Retrieve block data including timestamps, hashes, and dates. Use for time-based analysis.',
@@ -123,11 +236,9 @@ export default {
     async (args) => {
       const clientManager = getClientManager()
       const client = clientManager.getClient(args.chain as ChainName)
-      const blockTag = args.blockNumber ? BigInt(args.blockNumber) : 'latest'
-
       try {
         const block = await client.getBlock({
-          blockNumber: blockTag === 'latest' ? undefined : blockTag,
+          ...clientManager.getBlockParameter(args.chain as ChainName, args.blockNumber),
           includeTransactions: false
         })
 
@@ -150,6 +261,85 @@ export default {
     }
   ),
 
+  get_transactions: createTool(
+    'Get Transactions',
+    'Look up transactions with their receipts: status, block, fee breakdown (base fee, priority fee, L1 data fee on OP-stack chains), decoded input and decoded logs. Lightweight (standard RPC only). BATCH OPTIMIZED.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
+      hashes: z.array(z.string()).min(1).max(50).describe('Transaction hashes (0x prefixed)'),
+      decode: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('Decode input and logs with verified ABIs and the local signature database (default: true)'),
+      includeLogs: z.boolean().optional().default(true).describe('Include receipt logs (default: true)')
+    }),
+    async (args) => {
+      const chainName = args.chain as ChainName
+      const blocks = new Map()
+
+      const results = await Promise.all(
+        args.hashes.map(async (hash) => {
+          if (!isHex(hash) || hash.length !== 66) {
+            return { hash, success: false, error: 'Invalid transaction hash' }
+          }
+          try {
+            const summary = await fetchTransactionSummary(
+              chainName,
+              hash,
+              { decode: args.decode, includeLogs: args.includeLogs },
+              blocks
+            )
+            return { success: true, ...summary }
+          } catch (error) {
+            return { hash, success: false, error: error instanceof Error ? error.message : String(error) }
+          }
+        })
+      )
+
+      return formatResponse({
+        chain: args.chain,
+        total: results.length,
+        found: results.filter((result) => result.success).length,
+        transactions: results
+      })
+    }
+  ),
+
+  analyze_transaction_transfers: createTool(
+    'Analyze Transaction Transfers',
+    'Summarize what a transaction moved: ERC20/ERC721/ERC1155 transfers from its logs, native value transfers from the call trace (internal calls included when debug tracing is available), with token symbols/decimals and a net balance change per address.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
+      transactionHash: z.string().describe('Transaction hash (0x prefixed)'),
+      includeGasFee: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include the gas fee in the sender's native balance change (default: true)")
+    }),
+    async (args) => {
+      if (!isHex(args.transactionHash) || args.transactionHash.length !== 66) {
+        throw new Error('Invalid transaction hash')
+      }
+
+      try {
+        const analysis = await analyzeTransactionTransfers(args.chain as ChainName, args.transactionHash, {
+          includeGasFee: args.includeGasFee
+        })
+
+        return formatResponse({
+          chain: args.chain,
+          transactionHash: args.transactionHash,
+          transferCount: analysis.transfers.length,
+          ...analysis
+        })
+      } catch (error) {
+        throw new Error(`Transfer analysis failed: ${error}`)
+      }
+    }
+  ),
+
   trace_transaction: createTool(
     'Trace Transaction',
     '⚠️ INTENSIVE: Detailed transaction analysis including call traces and state changes. Use sparingly.',
@@ -160,9 +350,28 @@ export default {
         .enum(['trace', 'vmTrace', 'stateDiff'])
         .optional()
         .describe(
-          'Trace type: "trace" (call tree, recommended), "vmTrace" (VM execution), "stateDiff" (state changes)'
+          'Trace type: "trace" (call tree, recommended), "vmTrace" (first opcode steps of the VM execution), "stateDiff" (balance, nonce, code and storage changes per account, slots decoded with the storage layout of verified contracts)'
         )
-        .default('trace')
+        .default('trace'),
+      format: z
+        .enum(['tree', 'raw'])
+        .optional()
+        .default('tree')
+        .describe(
+          'Call trace output: "tree" (decoded, depth-limited, compact; default) or "raw" (full callTracer JSON)'
+        ),
+      maxDepth: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(5)
+        .describe('Tree format: call depth to render; deeper subcalls are only counted (default: 5)'),
+      collapseStaticCalls: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('Tree format: merge consecutive identical STATICCALLs (default: true)')
     }),
     async (args) => {
       const clientManager = getClientManager()
@@ -174,40 +383,50 @@ export default {
         const receipt = await client.getTransactionReceipt({ hash: args.transactionHash as `0x${string}` })
 
         let traceResult: unknown = null
+        let callTree: CallTree | undefined
 
         // Perform the requested trace type
         switch (args.traceType) {
           case 'trace':
-            try {
+            {
               // Use debug_traceTransaction for call trace
-              traceResult = await client.request({
-                method: 'debug_traceTransaction',
-                params: [args.transactionHash, { tracer: 'callTracer' }]
-              })
-            } catch (e) {
-              traceResult = { error: (e as Error).message }
+              const { trace, error } = await fetchCallTrace(args.chain as ChainName, args.transactionHash as Hex)
+              if (!trace) {
+                traceResult = { error }
+              } else if (args.format === 'raw') {
+                await annotateReverts(trace, new RevertDecoder({ chainName: args.chain as ChainName }))
+                traceResult = trace
+              } else {
+                callTree = await buildCallTree(trace, {
+                  chainName: args.chain as ChainName,
+                  maxDepth: args.maxDepth,
+                  collapseStaticCalls: args.collapseStaticCalls
+                })
+                traceResult = callTree.root
+              }
             }
             break
 
           case 'vmTrace':
-            try {
-              traceResult = await client.request({
-                method: 'debug_traceTransaction',
-                params: [args.transactionHash, { tracer: 'prestateTracer' }]
-              })
-            } catch (e) {
-              traceResult = { error: (e as Error).message }
+            {
+              const { trace, error } = await fetchOpcodeTrace(args.chain as ChainName, args.transactionHash as Hex)
+              traceResult = trace ?? { error }
             }
             break
 
           case 'stateDiff':
-            try {
-              traceResult = await client.request({
-                method: 'debug_traceTransaction',
-                params: [args.transactionHash, { tracer: 'stateDiffTracer' }]
-              })
-            } catch (e) {
-              traceResult = { error: (e as Error).message }
+            {
+              const { diff, error } = await fetchStateDiff(args.chain as ChainName, args.transactionHash as Hex)
+              if (diff) {
+                // Addresses and topics of the transaction are the likely mapping keys of changed slots
+                const keys = [
+                  transaction.from,
+                  ...(transaction.to ? [transaction.to] : []),
+                  ...receipt.logs.flatMap((log) => [log.address, ...log.topics])
+                ]
+                await decodeStateDiff(args.chain as ChainName, diff.accounts, keys)
+              }
+              traceResult = diff ?? { error }
             }
             break
 
@@ -244,12 +463,12 @@ export default {
             status: receipt.status,
             gasUsed: receipt.gasUsed?.toString() || '0',
             effectiveGasPrice: receipt.effectiveGasPrice?.toString() || '0',
-            logs: receipt.logs.map(log => ({
-              address: log.address,
-              topics: log.topics,
-              data: log.data
-            }))
+            logs: await decodeLogs(receipt.logs, { chainName: args.chain as ChainName })
           },
+          // Why the transaction as a whole reverted (from the frame the revert started in)
+          revert:
+            receipt.status === 'reverted' ? (callTree ? callTree.revert : (traceResult as CallFrame | null)?.revert) : undefined,
+          ...(callTree ? { frameCount: callTree.frameCount, revertPath: callTree.revertPath } : {}),
           trace: traceResult
         }
 
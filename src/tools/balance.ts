@@ -53,7 +53,7 @@ export default {
           const [chain, blockNum] = key.split(':')
           const clientManager = getClientManager()
           const client = clientManager.getClient(chain as ChainName)
-          const blockTag = blockNum === 'latest' ? 'latest' : BigInt(blockNum)
+          const block = clientManager.getBlockParameter(chain as ChainName, blockNum === 'latest' ? undefined : blockNum)
 
           // Process all queries in this group
           const results = await Promise.allSettled(
@@ -68,7 +68,7 @@ export default {
               if (!query.tokenAddress) {
                 const balance = await client.getBalance({
                   address: query.address as Address,
-                  blockNumber: blockTag === 'latest' ? undefined : blockTag
+                  ...block
                 })
 
                 return {
@@ -101,7 +101,7 @@ export default {
                 ],
                 functionName: 'balanceOf',
                 args: [query.address as Address],
-                blockNumber: blockTag === 'latest' ? undefined : blockTag
+                ...block
               })
 
               // Try to get decimals
@@ -119,7 +119,7 @@ export default {
                     }
                   ],
                   functionName: 'decimals',
-                  blockNumber: blockTag === 'latest' ? undefined : blockTag
+                  ...block
                 })) as number
               } catch {
                 // Use default decimals if call fails
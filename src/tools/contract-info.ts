@@ -1,99 +1,47 @@
-import { isAddress } from 'viem'
+import { type Abi, isAddress } from 'viem'
 import { z } from 'zod'
 import type { ChainName } from '../types.js'
-import { CHAINS, getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import {
+  fetchContractInfo,
+  fetchCreationInfo,
+  getCacheKey,
+  getContractCache,
+  getProxyCache,
+  resolveImplementations
+} from '../contract-providers.js'
+import { detectProxy } from '../proxy.js'
 import { createTool, formatResponse } from '../utils.js'
 
-// Type for raw Etherscan contract info
-interface EtherscanContractInfo {
-  SourceCode: string
-  ABI: string
-  ContractName: string
-  CompilerVersion: string
-  OptimizationUsed: string
-  Runs: string
-  ConstructorArguments: string
-  EVMVersion: string
-  Library: string
-  LicenseType: string
-  Proxy: string
-  Implementation: string
-  SwarmSource: string
+// Link to a page on the chain's block explorer; undefined for chains without one (e.g. localhost)
+function explorerLink(chainName: ChainName, path: string): string | undefined {
+  const explorerUrl = getClientManager().getExplorerUrl(chainName)
+  return explorerUrl ? `${explorerUrl}${path}` : undefined
 }
 
-// Cache for contract source code and ABIs
-interface CachedContract {
-  rawInfo: EtherscanContractInfo // Cache the raw Etherscan response
-  sourceFiles: Record<string, string>
-  abi?: any[]
-  metadata: {
-    contractName: string
-    compilerVersion: string
-    isProxy: boolean
-    implementationAddress?: string
+// Function/event/error/constructor counts for an ABI
+function getAbiStats(abi: Abi) {
+  return {
+    functions: abi.filter((item) => item.type === 'function').length,
+    events: abi.filter((item) => item.type === 'event').length,
+    errors: abi.filter((item) => item.type === 'error').length,
+    constructors: abi.filter((item) => item.type === 'constructor').length
   }
-  timestamp: number
 }
 
-const contractCache = new Map<string, CachedContract>()
-// No TTL - contracts are immutable, cache never expires
-
-// Helper to generate cache key
-function getCacheKey(chainId: number, address: string): string {
-  return `${chainId}:${address.toLowerCase()}`
-}
-
-// Shared helper to fetch contract info from Etherscan (with caching)
-async function fetchContractInfo(
-  chainId: number,
-  address: string,
-  etherscanApiKey: string
-): Promise<EtherscanContractInfo> {
-  // Check cache first
-  const cacheKey = getCacheKey(chainId, address)
-  const cached = contractCache.get(cacheKey)
-
-  if (cached?.rawInfo) {
-    return cached.rawInfo
-  }
-
-  // Fetch from Etherscan API
-  const sourceUrl = `https://api.etherscan.io/v2/api?chainid=${chainId}&module=contract&action=getsourcecode&address=${address}&apikey=${etherscanApiKey}`
-
-  const sourceResponse = await fetch(sourceUrl)
-  const sourceData = (await sourceResponse.json()) as {
-    status: string
-    message?: string
-    result: Array<EtherscanContractInfo>
-  }
-
-  if (sourceData.status !== '1' || !sourceData.result || sourceData.result.length === 0) {
-    throw new Error(`Etherscan API error: ${sourceData.message || 'No contract source found'}`)
-  }
-
-  const contractInfo = sourceData.result[0]
-
-  // Cache the raw info immediately
-  const isProxy = contractInfo.Proxy === '1'
-  contractCache.set(cacheKey, {
-    rawInfo: contractInfo,
-    sourceFiles: {},
-    metadata: {
-      contractName: contractInfo.ContractName,
-      compilerVersion: contractInfo.CompilerVersion,
-      isProxy,
-      implementationAddress: isProxy ? contractInfo.Implementation : undefined
-    },
-    timestamp: Date.now()
-  })
-
-  return contractInfo
+// Per-file line counts and sizes for summary mode
+function getFileStats(sourceFiles: Record<string, string>) {
+  return Object.entries(sourceFiles).map(([path, content]) => ({
+    path,
+    lines: content.split('\n').length,
+    size: content.length
+  }))
 }
 
 export default {
   get_contract_abi: createTool(
     'Get Contract ABI',
-    'Retrieve contract ABI, proxy info, and verification status from Etherscan. Use for contract analysis.',
+    'Retrieve contract ABI, proxy info, and verification status from Etherscan, Blockscout or Sourcify (see "source" in the response). Use for contract analysis.',
     z.object({
       chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
       address: z.string().describe('The contract address to get ABI for'),
@@ -108,13 +56,6 @@ export default {
     }),
     async (args) => {
       const clientManager = getClientManager()
-      const config = (clientManager as any).config
-
-      if (!config.etherscanApiKey) {
-        throw new Error(
-          'Etherscan API key is required for contract information retrieval. Use --etherscan-api-key or set ETHERSCAN_API_KEY environment variable.'
-        )
-      }
 
       if (!isAddress(args.address)) {
         throw new Error('Invalid contract address')
@@ -124,28 +65,16 @@ export default {
       const include = args.include || ['abi', 'metadata']
       const includeSet = new Set(include)
 
-      const chains = CHAINS(config)
-      const chainId = chains[args.chain as ChainName].chain.id
-
-      // Use shared helper to fetch contract info
-      const contractInfo = await fetchContractInfo(chainId, args.address, config.etherscanApiKey)
+      const chainId = clientManager.getChainId(args.chain as ChainName)
 
-      // Parse ABI if requested
-      let abi: Array<{ type: string; [key: string]: unknown }> = []
-      if (includeSet.has('abi') || includeSet.has('stats')) {
-        if (contractInfo.ABI && contractInfo.ABI !== 'Contract source code not verified') {
-          try {
-            abi = JSON.parse(contractInfo.ABI)
-          } catch {
-            // ABI parsing failed, continue without it
-          }
-        }
-      }
-
-      // Parse the source information
-      const isProxy = contractInfo.Proxy === '1'
-      const hasSourceCode = contractInfo.SourceCode !== ''
-      const isVerified = hasSourceCode
+      // Use shared helper to fetch contract info from the configured providers
+      const contractInfo = await fetchContractInfo(args.chain as ChainName, args.address)
+      const abi: Abi = contractInfo.abi ?? []
+      // Proxy implementations from on-chain slots and bytecode, falling back to the provider's fields
+      const implementations =
+        includeSet.has('metadata') || includeSet.has('implementationAbi')
+          ? await resolveImplementations(args.chain as ChainName, args.address, contractInfo)
+          : []
 
       // Build base result
       const abiResult: Record<string, unknown> = {
@@ -153,30 +82,37 @@ export default {
         chain: args.chain,
         chainId,
         address: args.address,
-        etherscanUrl: `https://${clientManager.getEtherscanDomain(args.chain as ChainName)}/address/${args.address}`
+        source: contractInfo.source,
+        etherscanUrl: explorerLink(args.chain as ChainName, `/address/${args.address}`)
+      }
+      if (contractInfo.match) {
+        abiResult.match = contractInfo.match
       }
 
       // Add metadata if requested
       if (includeSet.has('metadata')) {
-        abiResult.isVerified = isVerified
-        abiResult.contractName = contractInfo.ContractName
-        abiResult.hasSourceCode = hasSourceCode
-        abiResult.licenseType = contractInfo.LicenseType
-        if (isProxy) {
-          abiResult.isProxy = isProxy
-          if (contractInfo.Implementation) {
-            abiResult.implementationAddress = contractInfo.Implementation
+        abiResult.isVerified = contractInfo.verified
+        abiResult.contractName = contractInfo.contractName
+        abiResult.hasSourceCode = Object.keys(contractInfo.sourceFiles).length > 0
+        abiResult.licenseType = contractInfo.licenseType
+        if (implementations.length > 0 || contractInfo.isProxy) {
+          abiResult.isProxy = true
+          if (implementations.length > 0) {
+            abiResult.implementationAddress = implementations[0]
+          }
+          if (implementations.length > 1) {
+            abiResult.implementationAddresses = implementations
           }
         }
       }
 
       // Add compilation info if requested
       if (includeSet.has('compilation')) {
-        abiResult.compilerVersion = contractInfo.CompilerVersion
-        abiResult.optimizationUsed = contractInfo.OptimizationUsed === '1'
-        abiResult.optimizationRuns = contractInfo.Runs
-        abiResult.evmVersion = contractInfo.EVMVersion
-        abiResult.constructorArguments = contractInfo.ConstructorArguments
+        abiResult.compilerVersion = contractInfo.compilerVersion
+        abiResult.optimizationUsed = contractInfo.optimizationUsed
+        abiResult.optimizationRuns = String(contractInfo.optimizationRuns)
+        abiResult.evmVersion = contractInfo.evmVersion
+        abiResult.constructorArguments = contractInfo.constructorArguments
       }
 
       // Add ABI if requested
@@ -187,90 +123,52 @@ export default {
       // Add stats if requested
       if (includeSet.has('stats')) {
         abiResult.abiSize = abi.length
-        abiResult.functions = abi.filter((item: { type: string }) => item.type === 'function').length
-        abiResult.events = abi.filter((item: { type: string }) => item.type === 'event').length
-        abiResult.errors = abi.filter((item: { type: string }) => item.type === 'error').length
-        abiResult.constructors = abi.filter((item: { type: string }) => item.type === 'constructor').length
+        Object.assign(abiResult, getAbiStats(abi))
       }
 
       // Try to get creation info if requested
       if (includeSet.has('creation')) {
-        try {
-          const creationUrl = `https://api.etherscan.io/v2/api?chainid=${chainId}&module=contract&action=getcontractcreation&contractaddresses=${args.address}&apikey=${config.etherscanApiKey}`
-          const creationResponse = await fetch(creationUrl)
-          const creationData = (await creationResponse.json()) as {
-            status: string
-            result?: Array<{ contractCreator: string; txHash: string }>
-          }
-          if (creationData.status === '1' && creationData.result && creationData.result.length > 0) {
-            const result = creationData.result[0]
-            if (result) {
-              abiResult.creationInfo = {
-                creator: result.contractCreator,
-                transactionHash: result.txHash
-              }
-            }
-          }
-        } catch {
-          // Creation info is optional
+        const creationInfo = await fetchCreationInfo(args.chain as ChainName, args.address)
+        if (creationInfo) {
+          abiResult.creationInfo = creationInfo
         }
       }
 
-      // If it's a proxy and implementation ABI is requested, try to get it
-      if (
-        includeSet.has('implementationAbi') &&
-        isProxy &&
-        contractInfo.Implementation &&
-        isAddress(contractInfo.Implementation)
-      ) {
-        try {
-          const implContractInfo = await fetchContractInfo(chainId, contractInfo.Implementation, config.etherscanApiKey)
-
-          if (implContractInfo?.ABI && implContractInfo.ABI !== 'Contract source code not verified') {
-            try {
-              const implementationAbi = JSON.parse(implContractInfo.ABI)
-              abiResult.implementationAbi = implementationAbi
-
-              // Add implementation stats if stats are requested
-              if (includeSet.has('stats')) {
-                abiResult.implementationAbiSize = implementationAbi.length
-                abiResult.implementationFunctions = implementationAbi.filter(
-                  (item: { type: string }) => item.type === 'function'
-                ).length
-                abiResult.implementationEvents = implementationAbi.filter(
-                  (item: { type: string }) => item.type === 'event'
-                ).length
-                abiResult.implementationErrors = implementationAbi.filter(
-                  (item: { type: string }) => item.type === 'error'
-                ).length
-                abiResult.implementationConstructors = implementationAbi.filter(
-                  (item: { type: string }) => item.type === 'constructor'
-                ).length
-              }
-            } catch {
-              // Implementation ABI parsing failed, continue without it
-            }
+      // If it's a proxy and implementation ABI is requested, try to get it (every facet's, for diamonds)
+      if (includeSet.has('implementationAbi') && implementations.length > 0) {
+        const implementationAbi = (
+          await Promise.all(
+            implementations.map((implementation) =>
+              fetchContractInfo(args.chain as ChainName, implementation)
+                .then((info) => info.abi ?? [])
+                // Implementation ABI fetch failed, continue without it
+                .catch(() => [])
+            )
+          )
+        ).flat()
+
+        if (implementationAbi.length > 0) {
+          abiResult.implementationAbi = implementationAbi
+
+          // Add implementation stats if stats are requested
+          if (includeSet.has('stats')) {
+            const stats = getAbiStats(implementationAbi)
+            abiResult.implementationAbiSize = implementationAbi.length
+            abiResult.implementationFunctions = stats.functions
+            abiResult.implementationEvents = stats.events
+            abiResult.implementationErrors = stats.errors
+            abiResult.implementationConstructors = stats.constructors
           }
-        } catch {
-          // Implementation ABI fetch failed, continue without it
         }
       }
 
-      // Update cache with ABI (rawInfo already cached by fetchContractInfo)
-      const cacheKey = getCacheKey(chainId, args.address)
-      const existing = contractCache.get(cacheKey)!
-      contractCache.set(cacheKey, {
-        ...existing,
-        abi
-      })
-
       return formatResponse(abiResult)
     }
   ),
 
   get_contract_source_code: createTool(
     'Get Contract Source Code',
-    'Retrieve verified contract source code from Etherscan. PROXY AWARE - automatically fetches implementation source for proxies.',
+    'Retrieve verified contract source code from Etherscan, Blockscout or Sourcify (see "source" in the response). PROXY AWARE - automatically fetches implementation source for proxies.',
     z.object({
       chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
       address: z.string().describe('The contract address to get source code for'),
@@ -289,99 +187,52 @@ export default {
     }),
     async (args) => {
       const clientManager = getClientManager()
-      const config = (clientManager as any).config
-
-      if (!config.etherscanApiKey) {
-        throw new Error(
-          'Etherscan API key is required. Use --etherscan-api-key or set ETHERSCAN_API_KEY environment variable.'
-        )
-      }
 
       if (!isAddress(args.address)) {
         throw new Error('Invalid contract address')
       }
 
-      const chains = CHAINS(config)
-      const chainId = chains[args.chain as ChainName].chain.id
+      const chainId = clientManager.getChainId(args.chain as ChainName)
 
       try {
         // Fetch main contract source using shared helper
-        const contractInfo = await fetchContractInfo(chainId, args.address, config.etherscanApiKey)
-
-        if (!contractInfo) {
-          throw new Error('No contract information found')
-        }
-
-        const isVerified = contractInfo.SourceCode !== ''
-        const isProxy = contractInfo.Proxy === '1'
+        const contractInfo = await fetchContractInfo(args.chain as ChainName, args.address)
 
-        if (!isVerified) {
+        if (!contractInfo.verified) {
           return formatResponse({
             success: false,
             chain: args.chain,
             chainId,
             address: args.address,
             isVerified: false,
-            message: 'Contract source code is not verified on Etherscan',
-            etherscanUrl: `https://${clientManager.getEtherscanDomain(args.chain as ChainName)}/address/${args.address}`
+            message: 'Contract source code is not verified on any configured provider',
+            etherscanUrl: explorerLink(args.chain as ChainName, `/address/${args.address}`)
           })
         }
 
-        // Parse source code
-        let sourceFiles: Record<string, string> = {}
-        let sourceCodeString = contractInfo.SourceCode
-
-        // Handle multi-file sources (wrapped in {{ }} or [ ])
-        if (sourceCodeString.startsWith('{{') || sourceCodeString.startsWith('[')) {
-          try {
-            // Remove outer braces/brackets if present
-            if (sourceCodeString.startsWith('{{')) {
-              sourceCodeString = sourceCodeString.slice(1, -1)
-            }
-            const parsed = JSON.parse(sourceCodeString)
-
-            if (parsed.sources) {
-              // Standard JSON format
-              sourceFiles = Object.fromEntries(
-                Object.entries(parsed.sources).map(([path, data]: [string, any]) => [path, data.content || ''])
-              )
-            } else if (typeof parsed === 'object') {
-              // Simple object format
-              sourceFiles = parsed
-            }
-          } catch {
-            // If parsing fails, treat as single file
-            sourceFiles = { [contractInfo.ContractName + '.sol']: sourceCodeString }
-          }
-        } else {
-          // Single file source
-          sourceFiles = { [contractInfo.ContractName + '.sol']: sourceCodeString }
-        }
-
-        // Calculate file stats for summary mode
-        const fileStats = Object.entries(sourceFiles).map(([path, content]) => ({
-          path,
-          lines: (content as string).split('\n').length,
-          size: (content as string).length
-        }))
+        const sourceFiles = contractInfo.sourceFiles
+        const implementations = await resolveImplementations(args.chain as ChainName, args.address, contractInfo)
+        const fileStats = getFileStats(sourceFiles)
 
         const result: Record<string, unknown> = {
           success: true,
           chain: args.chain,
           chainId,
           address: args.address,
+          source: contractInfo.source,
+          ...(contractInfo.match ? { match: contractInfo.match } : {}),
           isVerified: true,
-          isProxy,
-          contractName: contractInfo.ContractName,
-          compilerVersion: contractInfo.CompilerVersion,
-          optimizationUsed: contractInfo.OptimizationUsed === '1',
-          optimizationRuns: parseInt(contractInfo.Runs) || 0,
-          evmVersion: contractInfo.EVMVersion,
-          licenseType: contractInfo.LicenseType,
-          constructorArguments: contractInfo.ConstructorArguments,
-          fileCount: Object.keys(sourceFiles).length,
+          isProxy: contractInfo.isProxy || implementations.length > 0,
+          contractName: contractInfo.contractName,
+          compilerVersion: contractInfo.compilerVersion,
+          optimizationUsed: contractInfo.optimizationUsed,
+          optimizationRuns: contractInfo.optimizationRuns,
+          evmVersion: contractInfo.evmVersion,
+          licenseType: contractInfo.licenseType,
+          constructorArguments: contractInfo.constructorArguments,
+          fileCount: fileStats.length,
           totalLines: fileStats.reduce((sum, stat) => sum + stat.lines, 0),
-          etherscanUrl: `https://${clientManager.getEtherscanDomain(args.chain as ChainName)}/address/${args.address}#code`
+          etherscanUrl: explorerLink(args.chain as ChainName, `/address/${args.address}#code`)
         }
 
         // Add source based on includeSource parameter
@@ -393,96 +244,48 @@ export default {
         // 'none' mode: no source files added
 
         // If proxy and implementation requested, fetch implementation source
-        if (
-          isProxy &&
-          args.includeImplementation &&
-          contractInfo.Implementation &&
-          isAddress(contractInfo.Implementation)
-        ) {
+        const implementationAddress = implementations[0]
+        if (implementations.length > 1) {
+          result.implementationAddresses = implementations
+        }
+        if (args.includeImplementation && implementationAddress && isAddress(implementationAddress)) {
           try {
-            const implInfo = await fetchContractInfo(chainId, contractInfo.Implementation, config.etherscanApiKey)
-
-            if (implInfo && implInfo.SourceCode !== '') {
-              // Parse implementation source code
-              let implSourceFiles: Record<string, string> = {}
-              let implSourceCodeString = implInfo.SourceCode
-
-              if (implSourceCodeString.startsWith('{{') || implSourceCodeString.startsWith('[')) {
-                try {
-                  if (implSourceCodeString.startsWith('{{')) {
-                    implSourceCodeString = implSourceCodeString.slice(1, -1)
-                  }
-                  const parsed = JSON.parse(implSourceCodeString)
-
-                  if (parsed.sources) {
-                    implSourceFiles = Object.fromEntries(
-                      Object.entries(parsed.sources).map(([path, data]: [string, any]) => [path, data.content || ''])
-                    )
-                  } else if (typeof parsed === 'object') {
-                    implSourceFiles = parsed
-                  }
-                } catch {
-                  implSourceFiles = { [implInfo.ContractName + '.sol']: implSourceCodeString }
-                }
-              } else {
-                implSourceFiles = { [implInfo.ContractName + '.sol']: implSourceCodeString }
-              }
+            const implInfo = await fetchContractInfo(args.chain as ChainName, implementationAddress)
 
-              // Calculate implementation file stats
-              const implFileStats = Object.entries(implSourceFiles).map(([path, content]) => ({
-                path,
-                lines: (content as string).split('\n').length,
-                size: (content as string).length
-              }))
+            if (implInfo.verified) {
+              const implFileStats = getFileStats(implInfo.sourceFiles)
 
               const implResult: Record<string, unknown> = {
-                address: contractInfo.Implementation,
-                contractName: implInfo.ContractName,
-                compilerVersion: implInfo.CompilerVersion,
-                optimizationUsed: implInfo.OptimizationUsed === '1',
-                optimizationRuns: parseInt(implInfo.Runs) || 0,
-                evmVersion: implInfo.EVMVersion,
-                licenseType: implInfo.LicenseType,
-                fileCount: Object.keys(implSourceFiles).length,
+                address: implementationAddress,
+                source: implInfo.source,
+                contractName: implInfo.contractName,
+                compilerVersion: implInfo.compilerVersion,
+                optimizationUsed: implInfo.optimizationUsed,
+                optimizationRuns: implInfo.optimizationRuns,
+                evmVersion: implInfo.evmVersion,
+                licenseType: implInfo.licenseType,
+                fileCount: implFileStats.length,
                 totalLines: implFileStats.reduce((sum, stat) => sum + stat.lines, 0),
-                etherscanUrl: `https://${clientManager.getEtherscanDomain(args.chain as ChainName)}/address/${contractInfo.Implementation}#code`
+                etherscanUrl: explorerLink(args.chain as ChainName, `/address/${implementationAddress}#code`)
               }
 
               // Add implementation source based on includeSource parameter
               if (args.includeSource === 'full') {
-                implResult.sourceFiles = implSourceFiles
+                implResult.sourceFiles = implInfo.sourceFiles
               } else if (args.includeSource === 'summary') {
                 implResult.files = implFileStats
               }
 
               result.implementation = implResult
-
-              // Update cache with implementation source (rawInfo already cached by fetchContractInfo)
-              if (contractInfo.Implementation) {
-                const implCacheKey = getCacheKey(chainId, contractInfo.Implementation)
-                const existingImpl = contractCache.get(implCacheKey)!
-                contractCache.set(implCacheKey, {
-                  ...existingImpl,
-                  sourceFiles: implSourceFiles
-                })
-              }
             }
           } catch (error) {
             // Implementation fetch failed, continue without it
             result.implementationError = error instanceof Error ? error.message : 'Failed to fetch implementation source'
           }
-        } else if (isProxy && contractInfo.Implementation) {
-          result.implementationAddress = contractInfo.Implementation
+        } else if (implementationAddress) {
+          result.implementationAddress = implementationAddress
         }
 
-        // Update cache with main contract source (rawInfo already cached by fetchContractInfo)
-        const cacheKey = getCacheKey(chainId, args.address)
-        const existing = contractCache.get(cacheKey)!
-        contractCache.set(cacheKey, {
-          ...existing,
-          sourceFiles
-        })
-
         return formatResponse(result)
       } catch (error) {
         throw new Error(`Failed to fetch source code: ${error}`)
@@ -505,24 +308,21 @@ export default {
     }),
     async (args) => {
       const clientManager = getClientManager()
-      const chains = CHAINS((clientManager as any).config)
-      const chainId = chains[args.chain as ChainName].chain.id
+      const chainId = clientManager.getChainId(args.chain as ChainName)
 
       if (!isAddress(args.address)) {
         throw new Error('Invalid contract address')
       }
 
       // Check cache
-      let cacheKey = getCacheKey(chainId, args.address)
-      let cached = contractCache.get(cacheKey)
+      let cached = await getContractCache().get(getCacheKey(chainId, args.address))
 
       // If useImplementation is true and we have implementation address, use that instead
-      if (args.useImplementation && cached?.metadata.implementationAddress) {
-        cacheKey = getCacheKey(chainId, cached.metadata.implementationAddress)
-        cached = contractCache.get(cacheKey)
+      if (args.useImplementation && cached?.implementationAddress) {
+        cached = await getContractCache().get(getCacheKey(chainId, cached.implementationAddress))
       }
 
-      if (!cached) {
+      if (!cached?.source) {
         return formatResponse({
           success: false,
           chain: args.chain,
@@ -535,18 +335,15 @@ export default {
 
       // If no filePath specified, return list of available files
       if (!args.filePath) {
-        const fileList = Object.keys(cached.sourceFiles).map((path) => ({
-          path,
-          lines: cached.sourceFiles[path].split('\n').length,
-          size: cached.sourceFiles[path].length
-        }))
+        const fileList = getFileStats(cached.sourceFiles)
 
         return formatResponse({
           success: true,
           chain: args.chain,
           chainId,
           address: args.address,
-          contractName: cached.metadata.contractName,
+          source: cached.source,
+          contractName: cached.contractName,
           fileCount: fileList.length,
           files: fileList
         })
@@ -571,12 +368,101 @@ export default {
         chain: args.chain,
         chainId,
         address: args.address,
-        contractName: cached.metadata.contractName,
+        source: cached.source,
+        contractName: cached.contractName,
         filePath: args.filePath,
         content: fileContent,
         lines: fileContent.split('\n').length,
         size: fileContent.length
       })
     }
+  ),
+
+  detect_proxy: createTool(
+    'Detect Proxy',
+    'Detect a proxy from on-chain state: EIP-1967 implementation/admin/beacon slots, EIP-1822 (UUPS) slot, EIP-1167 minimal proxy bytecode, Safe singleton and EIP-2535 diamond facets. Independent of explorer metadata, which can be missing or stale after upgrades.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
+      address: z.string().describe('The contract address to inspect'),
+      blockNumber: z.string().optional().describe('Block number (optional, defaults to latest)')
+    }),
+    async (args) => {
+      if (!isAddress(args.address)) {
+        throw new Error('Invalid contract address')
+      }
+
+      const detection = await detectProxy(args.chain as ChainName, args.address, args.blockNumber)
+      const result: Record<string, unknown> = { success: true, chain: args.chain, ...detection }
+
+      // Name the implementations and compare with what the explorer reports, when a provider is configured
+      if (detection.isProxy) {
+        try {
+          const info = await fetchContractInfo(args.chain as ChainName, args.address)
+          result.providerReported = {
+            source: info.source,
+            isProxy: info.isProxy,
+            implementationAddress: info.implementationAddress
+          }
+          result.implementationContracts = await Promise.all(
+            detection.implementations.map(async (implementation) => {
+              const implementationInfo = await fetchContractInfo(args.chain as ChainName, implementation)
+              return {
+                address: implementation,
+                verified: implementationInfo.verified,
+                contractName: implementationInfo.contractName || undefined
+              }
+            })
+          )
+        } catch {
+          // Verification data is optional for detection
+        }
+      }
+
+      return formatResponse(result)
+    }
+  ),
+
+  clear_contract_cache: createTool(
+    'Clear Contract Cache',
+    'Invalidate cached contract data (ABI, source, proxy info). Clears one contract, one chain, or everything. Use after a proxy upgrade or a new verification.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).optional().describe('Only clear entries for this chain'),
+      address: z.string().optional().describe('Only clear this contract (requires chain)')
+    }),
+    async (args) => {
+      const clientManager = getClientManager()
+      const cache = getContractCache()
+
+      if (args.address && !args.chain) {
+        throw new Error('chain is required when clearing a single address')
+      }
+      if (args.address && !isAddress(args.address)) {
+        throw new Error('Invalid contract address')
+      }
+
+      // Proxy detections go with the contract data so an upgraded proxy is detected again
+      const proxyCache = getProxyCache()
+      let removed: number
+      if (args.chain && args.address) {
+        const key = getCacheKey(clientManager.getChainId(args.chain as ChainName), args.address)
+        await proxyCache.delete(key)
+        removed = (await cache.delete(key)) ? 1 : 0
+      } else if (args.chain) {
+        const prefix = `${clientManager.getChainId(args.chain as ChainName)}:`
+        await proxyCache.clear(prefix)
+        removed = await cache.clear(prefix)
+      } else {
+        await proxyCache.clear()
+        removed = await cache.clear()
+      }
+
+      return formatResponse({
+        success: true,
+        chain: args.chain,
+        address: args.address,
+        removed,
+        cache: await cache.stats()
+      })
+    }
   )
 }
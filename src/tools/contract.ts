@@ -1,7 +1,11 @@
-import { type AbiFunction, type Address, isAddress, parseAbiItem } from "viem";
+import { type AbiFunction, type Address, isAddress, parseAbiItem, toFunctionSignature } from "viem";
 import { z } from "zod";
 import type { ChainName } from "../types.js";
 import { getClientManager, SUPPORTED_CHAINS } from "../client.js";
+import { fetchContractAbi } from "../contract-providers.js";
+import { parseAbiInput } from "../decoder.js";
+import { type DecodedRevert, RevertDecoder } from "../revert.js";
+import { findLocalFunctions, matchesSignature } from "../signature-db.js";
 import { convertArgumentsToTypes, createTool, formatResponse } from "../utils.js";
 
 const ContractCallSchema = z.object({
@@ -13,9 +17,20 @@ const ContractCallSchema = z.object({
     .describe("Contract address to call (must be valid checksummed address)"),
   functionAbi: z
     .string()
+    .optional()
+    .describe(
+      'Function ABI signature string (e.g., "function balanceOf(address owner) view returns (uint256)"). Only view/pure functions allowed. Omit and pass functionName to resolve the ABI automatically.'
+    ),
+  functionName: z
+    .string()
+    .optional()
     .describe(
-      'Function ABI signature string (e.g., "function balanceOf(address owner) view returns (uint256)"). Only view/pure functions allowed.'
+      'Function name (e.g., "balanceOf"). The ABI is resolved from the verified contract (following proxies), falling back to common standard functions.'
     ),
+  functionSignature: z
+    .string()
+    .optional()
+    .describe('Overload to use when functionName is ambiguous (e.g., "balanceOf(address,uint256)")'),
   args: z
     .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
     .optional()
@@ -27,8 +42,72 @@ const ContractCallSchema = z.object({
     .optional()
     .describe("Block number for historical queries (defaults to latest)"),
   label: z.string().optional().describe("Optional label to identify this call in batch results"),
+  errorAbi: z
+    .string()
+    .optional()
+    .describe(
+      "Optional custom error definitions used to decode reverts: JSON ABI array, or human-readable signatures one per line"
+    ),
 });
 
+type ContractCall = z.infer<typeof ContractCallSchema>;
+
+// Pick one function from candidates by overload signature and argument count
+function selectOverload(candidates: AbiFunction[], call: ContractCall): AbiFunction | undefined {
+  const matching = call.functionSignature
+    ? candidates.filter((item) => matchesSignature(item, call.functionSignature!))
+    : candidates;
+  if (matching.length <= 1) {
+    return matching[0];
+  }
+
+  const byArgCount = matching.filter((item) => item.inputs.length === (call.args?.length ?? 0));
+  if (byArgCount.length === 1) {
+    return byArgCount[0];
+  }
+  throw new Error(
+    `Function "${call.functionName}" is overloaded: ${matching.map((item) => toFunctionSignature(item)).join(", ")}. Pass functionSignature to choose one.`
+  );
+}
+
+// Resolve the ABI item for a call: explicit functionAbi, else by name from the verified contract ABI
+// (implementation ABI for proxies), else from the bundled list of standard functions
+async function resolveFunctionAbi(
+  call: ContractCall
+): Promise<{ abiItem: AbiFunction; abiSource: "provided" | "verified" | "local"; signature: string }> {
+  if (call.functionAbi) {
+    const abiItem = parseAbiItem(call.functionAbi) as AbiFunction;
+    return { abiItem, abiSource: "provided", signature: toFunctionSignature(abiItem) };
+  }
+  if (!call.functionName) {
+    throw new Error("Each call requires either functionAbi or functionName");
+  }
+
+  let verifiedFunctions: AbiFunction[] = [];
+  try {
+    const verified = await fetchContractAbi(call.chain as ChainName, call.contractAddress);
+    verifiedFunctions = (verified?.abi ?? []).filter(
+      (item): item is AbiFunction => item.type === "function" && item.name === call.functionName
+    );
+  } catch {
+    // No provider available or lookup failed; use the bundled list
+  }
+
+  const verifiedMatch = selectOverload(verifiedFunctions, call);
+  if (verifiedMatch) {
+    return { abiItem: verifiedMatch, abiSource: "verified", signature: toFunctionSignature(verifiedMatch) };
+  }
+
+  const localMatch = selectOverload(findLocalFunctions(call.functionName, call.functionSignature), call);
+  if (localMatch) {
+    return { abiItem: localMatch, abiSource: "local", signature: toFunctionSignature(localMatch) };
+  }
+
+  throw new Error(
+    `Could not resolve function "${call.functionSignature ?? call.functionName}" on ${call.contractAddress}: not in the verified ABI or the local signature list. Pass functionAbi explicitly.`
+  );
+}
+
 export default {
   call_contract_function: createTool(
     "Call Contract Functions",
@@ -56,9 +135,12 @@ export default {
         label?: string;
         contractAddress: string;
         functionName: string;
+        signature: string;
+        abiSource: string;
         success: boolean;
         result?: unknown;
         error?: string;
+        revert?: DecodedRevert;
         chain: string;
         blockNumber: string;
       }> = [];
@@ -69,18 +151,24 @@ export default {
           const [chain, blockNum] = key.split(":");
           const clientManager = getClientManager();
           const client = clientManager.getClient(chain as ChainName);
-          const blockTag = blockNum === "latest" ? "latest" : BigInt(blockNum);
+          const block = clientManager.getBlockParameter(chain as ChainName, blockNum === "latest" ? undefined : blockNum);
 
-          // Prepare multicall contracts
-          const multicallContracts = calls.map((call) => {
-            if (!isAddress(call.contractAddress)) {
-              throw new Error(`Invalid contract address: ${call.contractAddress}`);
-            }
+          // Resolve ABIs (verified contract lookups run in parallel)
+          const resolved = await Promise.all(
+            calls.map((call) => {
+              if (!isAddress(call.contractAddress)) {
+                throw new Error(`Invalid contract address: ${call.contractAddress}`);
+              }
+              return resolveFunctionAbi(call);
+            })
+          );
 
-            const abiItem = parseAbiItem(call.functionAbi) as AbiFunction;
+          // Prepare multicall contracts
+          const multicallContracts = calls.map((call, idx) => {
+            const { abiItem, signature } = resolved[idx]!;
 
             if (abiItem.stateMutability !== "view" && abiItem.stateMutability !== "pure") {
-              throw new Error(`Only view and pure functions can be called: ${call.functionAbi}`);
+              throw new Error(`Only view and pure functions can be called: ${call.functionAbi ?? signature}`);
             }
 
             const convertedArgs = convertArgumentsToTypes(call.args || [], abiItem.inputs);
@@ -94,18 +182,18 @@ export default {
           });
 
           // Execute multicall
-          // Use deployless mode for localhost/anvil since Multicall3 may not be deployed
-          const useDeployless = chain === "localhost";
+          // Use deployless mode when the chain has no known Multicall3 deployment (localhost/anvil, custom chains)
+          const useDeployless = !client.chain?.contracts?.multicall3;
           const multicallResults = await client.multicall({
             contracts: multicallContracts,
-            blockNumber: blockTag === "latest" ? undefined : blockTag,
+            ...block,
             ...(useDeployless && { deployless: true }),
           });
 
           // Process results
-          multicallResults.forEach((result, idx) => {
+          for (const [idx, result] of multicallResults.entries()) {
             const call = calls[idx]!;
-            const abiItem = parseAbiItem(call.functionAbi) as AbiFunction;
+            const { abiItem, abiSource, signature } = resolved[idx]!;
             const originalIndex = args.calls.indexOf(call);
 
             if (result.status === "success") {
@@ -114,6 +202,8 @@ export default {
                 label: call.label,
                 contractAddress: call.contractAddress,
                 functionName: abiItem.name,
+                signature,
+                abiSource,
                 success: true,
                 result: result.result,
                 chain: call.chain,
@@ -125,13 +215,20 @@ export default {
                 label: call.label,
                 contractAddress: call.contractAddress,
                 functionName: abiItem.name,
+                signature,
+                abiSource,
                 success: false,
                 error: result.error instanceof Error ? result.error.message : String(result.error),
+                revert: await new RevertDecoder({
+                  chainName: call.chain as ChainName,
+                  address: call.contractAddress,
+                  errorAbi: call.errorAbi ? parseAbiInput(call.errorAbi) : undefined,
+                }).decodeError(result.error),
                 chain: call.chain,
                 blockNumber: call.blockNumber || "latest",
               };
             }
-          });
+          }
         }
 
         return formatResponse({
@@ -0,0 +1,44 @@
+import { isAddress } from 'viem'
+import { z } from 'zod'
+import type { ChainName } from '../types.js'
+import { getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { fetchAddressTransactions } from '../contract-providers.js'
+import { createTool, formatResponse } from '../utils.js'
+
+export default {
+  get_address_transactions: createTool(
+    'Get Address Transactions',
+    'List normal (external) transactions sent from or to an address using the chain explorer (Etherscan or Blockscout). Paginated, newest first by default.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to use'),
+      address: z.string().describe('The account or contract address'),
+      page: z.number().int().min(1).optional().default(1).describe('Page number, starting at 1 (default: 1)'),
+      pageSize: z.number().int().min(1).max(100).optional().default(25).describe('Transactions per page (default: 25, max: 100)'),
+      sort: z.enum(['asc', 'desc']).optional().default('desc').describe('Sort by block number (default: desc)')
+    }),
+    async (args) => {
+      if (!isAddress(args.address)) {
+        throw new Error('Invalid address')
+      }
+
+      const chainName = args.chain as ChainName
+      const { source, transactions } = await fetchAddressTransactions(chainName, args.address, {
+        page: args.page,
+        pageSize: args.pageSize,
+        sort: args.sort
+      })
+
+      return formatResponse({
+        chain: args.chain,
+        chainId: getClientManager().getChainId(chainName),
+        address: args.address,
+        source,
+        page: args.page,
+        pageSize: args.pageSize,
+        count: transactions.length,
+        hasMore: transactions.length === args.pageSize,
+        transactions
+      })
+    }
+  )
+}
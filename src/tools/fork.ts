@@ -0,0 +1,198 @@
+import { z } from 'zod'
+import { type Address, formatEther, type Hex, isAddress } from 'viem'
+import type { ChainName } from '../types.js'
+import { FORK_CHAIN, getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { getForkManager } from '../fork.js'
+import { resolveStorageOverrides } from '../simulation.js'
+import { createTool, formatResponse } from '../utils.js'
+
+function parseAddress(address: string): Address {
+  if (!isAddress(address)) {
+    throw new Error(`Invalid address: ${address}`)
+  }
+  return address
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message.split('\n')[0]! : String(error)
+}
+
+export default {
+  start_fork: createTool(
+    'Start Fork',
+    `Start a local anvil fork of a chain at a chosen block. While it runs, every tool accepts chain "${FORK_CHAIN}" to read from it; use the fork_* tools, impersonate_account, set_balance and set_storage to change its state. Requires Foundry's anvil.`,
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('Chain to fork'),
+      blockNumber: z.string().optional().describe('Block to fork at (defaults to the latest block)'),
+      port: z.number().int().min(1).max(65535).optional().describe('Local port for anvil (defaults to a free port)')
+    }),
+    async (args) => {
+      try {
+        const fork = await getForkManager().start({
+          chain: args.chain as ChainName,
+          blockNumber: args.blockNumber !== undefined ? BigInt(args.blockNumber) : undefined,
+          port: args.port
+        })
+        return formatResponse({
+          ...fork,
+          message: `Forked ${fork.forkedFrom} at block ${fork.forkBlockNumber}. Use chain "${FORK_CHAIN}" with any tool to read from the fork.`
+        })
+      } catch (error) {
+        throw new Error(`Failed to start fork: ${errorMessage(error)}`)
+      }
+    }
+  ),
+
+  stop_fork: createTool(
+    'Stop Fork',
+    'Stop the running anvil fork and discard its state',
+    z.object({}),
+    async () => {
+      const fork = await getForkManager().stop()
+      return formatResponse(
+        fork
+          ? { stopped: true, forkedFrom: fork.forkedFrom, rpcUrl: fork.rpcUrl }
+          : { stopped: false, message: 'No fork is running' }
+      )
+    }
+  ),
+
+  fork_snapshot: createTool(
+    'Fork Snapshot',
+    'Snapshot the fork state. Pass the returned id to fork_revert to roll back to it.',
+    z.object({}),
+    async () => {
+      try {
+        const snapshotId = await getForkManager().getClient().snapshot()
+        const blockNumber = await getClientManager().getClient(FORK_CHAIN).getBlockNumber()
+        return formatResponse({ snapshotId, blockNumber })
+      } catch (error) {
+        throw new Error(`Failed to snapshot fork: ${errorMessage(error)}`)
+      }
+    }
+  ),
+
+  fork_revert: createTool(
+    'Fork Revert',
+    'Roll the fork back to a snapshot from fork_snapshot. A snapshot can be reverted to once; take a new one to revert again.',
+    z.object({
+      snapshotId: z.string().describe('Snapshot id returned by fork_snapshot')
+    }),
+    async (args) => {
+      try {
+        // anvil answers false for unknown or already used snapshots
+        const reverted = (await getForkManager()
+          .getClient()
+          .request({ method: 'evm_revert', params: [args.snapshotId as Hex] })) as boolean
+        if (!reverted) {
+          throw new Error(`Unknown or already reverted snapshot ${args.snapshotId}`)
+        }
+        const blockNumber = await getClientManager().getClient(FORK_CHAIN).getBlockNumber()
+        return formatResponse({ reverted, snapshotId: args.snapshotId, blockNumber })
+      } catch (error) {
+        throw new Error(`Failed to revert fork: ${errorMessage(error)}`)
+      }
+    }
+  ),
+
+  fork_mine: createTool(
+    'Fork Mine',
+    'Mine blocks on the fork, optionally moving time forward first (e.g. to pass a timelock or accrue interest)',
+    z.object({
+      blocks: z.number().int().min(1).max(10000).optional().default(1).describe('Number of blocks to mine (default: 1)'),
+      timeIncrease: z.number().int().min(0).optional().describe('Seconds to advance the clock before mining')
+    }),
+    async (args) => {
+      try {
+        const forkClient = getForkManager().getClient()
+        if (args.timeIncrease) {
+          await forkClient.increaseTime({ seconds: args.timeIncrease })
+        }
+        await forkClient.mine({ blocks: args.blocks ?? 1 })
+        const block = await getClientManager().getClient(FORK_CHAIN).getBlock()
+        return formatResponse({ blockNumber: block.number, timestamp: block.timestamp })
+      } catch (error) {
+        throw new Error(`Failed to mine on fork: ${errorMessage(error)}`)
+      }
+    }
+  ),
+
+  impersonate_account: createTool(
+    'Impersonate Account',
+    'Let the fork accept unsigned transactions from an address (e.g. a whale or a protocol admin), or stop doing so',
+    z.object({
+      address: z.string().describe('Account to impersonate'),
+      stop: z.boolean().optional().default(false).describe('Stop impersonating the account instead (default: false)')
+    }),
+    async (args) => {
+      try {
+        const address = parseAddress(args.address)
+        const forkClient = getForkManager().getClient()
+        if (args.stop) {
+          await forkClient.stopImpersonatingAccount({ address })
+        } else {
+          await forkClient.impersonateAccount({ address })
+        }
+        return formatResponse({ address, impersonating: !args.stop })
+      } catch (error) {
+        throw new Error(`Failed to impersonate account: ${errorMessage(error)}`)
+      }
+    }
+  ),
+
+  set_balance: createTool(
+    'Set Balance',
+    'Set the native balance of an address on the fork',
+    z.object({
+      address: z.string().describe('Account to fund'),
+      balance: z.string().describe('New balance in wei (decimal or hex)')
+    }),
+    async (args) => {
+      try {
+        const address = parseAddress(args.address)
+        const value = BigInt(args.balance)
+        await getForkManager().getClient().setBalance({ address, value })
+        const balance = await getClientManager().getClient(FORK_CHAIN).getBalance({ address })
+        return formatResponse({ address, balance, balanceFormatted: formatEther(balance) })
+      } catch (error) {
+        throw new Error(`Failed to set balance: ${errorMessage(error)}`)
+      }
+    }
+  ),
+
+  set_storage: createTool(
+    'Set Storage',
+    'Write a contract storage slot on the fork, by raw slot or by variable path (e.g. "balanceOf[0xabc…]", resolved with the verified storage layout)',
+    z.object({
+      address: z.string().describe('Contract address'),
+      slot: z.string().describe('Storage slot (hex) or variable path such as "balanceOf[0xabc…]" or "config.owner"'),
+      value: z.string().describe('New value: hex word, decimal integer, address or bool')
+    }),
+    async (args) => {
+      try {
+        const address = parseAddress(args.address)
+        const clientManager = getClientManager()
+        // Packed variables are merged into the slot's current word
+        const writes = await resolveStorageOverrides(
+          FORK_CHAIN,
+          address,
+          { [args.slot]: args.value },
+          clientManager.getBlockParameter(FORK_CHAIN)
+        )
+        const forkClient = getForkManager().getClient()
+        for (const { slot, value } of writes) {
+          await forkClient.setStorageAt({ address, index: slot, value })
+        }
+        const client = clientManager.getClient(FORK_CHAIN)
+        return formatResponse({
+          address,
+          writes: await Promise.all(
+            writes.map(async ({ slot }) => ({ slot, value: await client.getStorageAt({ address, slot }) }))
+          )
+        })
+      } catch (error) {
+        throw new Error(`Failed to set storage: ${errorMessage(error)}`)
+      }
+    }
+  )
+}
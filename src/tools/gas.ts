@@ -2,12 +2,65 @@ import { type AbiFunction, type Address, isAddress, parseAbiItem, encodeFunction
 import { z } from "zod";
 import type { ChainName } from "../types.js";
 import { getClientManager, SUPPORTED_CHAINS } from "../client.js";
+import { parseAbiInput } from "../decoder.js";
+import { RevertDecoder } from "../revert.js";
+import { parseBlockOverrides, parseStateOverride, previewAssetChanges, simulateBundle } from "../simulation.js";
 import { convertArgumentsToTypes, createTool, formatResponse } from "../utils.js";
 
+const errorAbiParameter = z
+  .string()
+  .optional()
+  .describe(
+    'Optional custom error definitions used to decode reverts: JSON ABI array, or human-readable signatures (e.g. "error InsufficientBalance(uint256 available, uint256 required)"), one per line'
+  );
+
+function parseErrorAbi(errorAbi?: string) {
+  if (!errorAbi) return undefined;
+  try {
+    return parseAbiInput(errorAbi);
+  } catch (error) {
+    throw new Error(`Failed to parse errorAbi: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const stateOverrideParameter = z
+  .array(
+    z.object({
+      address: z.string().describe("Account to override"),
+      balance: z.string().optional().describe("Balance in wei"),
+      nonce: z.number().int().min(0).optional().describe("Nonce"),
+      code: z.string().optional().describe("Runtime bytecode (0x-prefixed)"),
+      state: z
+        .record(z.string())
+        .optional()
+        .describe("Replace the whole storage: slot -> value"),
+      stateDiff: z
+        .record(z.string())
+        .optional()
+        .describe(
+          'Override individual slots: slot (hex) or variable path (e.g. "balanceOf[0xabc…]", needs a verified storage layout) -> value (hex, decimal, address or bool)'
+        ),
+    })
+  )
+  .optional()
+  .describe("State overrides applied before executing, e.g. give an address a token or ETH balance");
+
+const blockOverridesParameter = z
+  .object({
+    number: z.string().optional().describe("Block number"),
+    time: z.string().optional().describe("Block timestamp (unix seconds)"),
+    gasLimit: z.string().optional().describe("Block gas limit"),
+    baseFeePerGas: z.string().optional().describe("Base fee in wei"),
+    feeRecipient: z.string().optional().describe("Coinbase address"),
+    prevRandao: z.string().optional().describe("PREVRANDAO value"),
+  })
+  .optional()
+  .describe("Block environment overrides (decimal or hex numbers)");
+
 export default {
   simulate_contract: createTool(
     "Simulate Contract Call",
-    "Simulate a contract call (including state-changing functions) without broadcasting. Returns simulation result and estimated gas.",
+    "Simulate a contract call (including state-changing functions) without broadcasting. Returns simulation result, estimated gas and, for writes with a sender, the approvals, transfers and balance changes it would cause.",
     z.object({
       chain: z
         .enum(SUPPORTED_CHAINS)
@@ -36,6 +89,16 @@ export default {
         .string()
         .optional()
         .describe("Block number for simulation (defaults to latest)"),
+      stateOverride: stateOverrideParameter,
+      blockOverrides: blockOverridesParameter,
+      errorAbi: errorAbiParameter,
+      assetChanges: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Preview approvals, token transfers and the sender's balance changes of a state-changing call (needs from and an RPC with eth_simulateV1 or debug_traceCall; default: true)"
+        ),
     }),
     async (args) => {
       if (!isAddress(args.contractAddress)) {
@@ -48,38 +111,48 @@ export default {
 
       const clientManager = getClientManager();
       const client = clientManager.getClient(args.chain as ChainName);
+      const errorAbi = parseErrorAbi(args.errorAbi);
 
       try {
         const abiItem = parseAbiItem(args.functionAbi) as AbiFunction;
         const convertedArgs = convertArgumentsToTypes(args.args || [], abiItem.inputs);
 
-        const blockTag = args.blockNumber ? BigInt(args.blockNumber) : undefined;
+        const block = clientManager.getBlockParameter(args.chain as ChainName, args.blockNumber);
+        const stateOverride = await parseStateOverride(args.chain as ChainName, args.stateOverride, block);
+        const blockOverrides = parseBlockOverrides(args.blockOverrides);
 
         // Simulate the call
+        const data = encodeFunctionData({
+          abi: [abiItem],
+          functionName: abiItem.name,
+          args: convertedArgs,
+        });
         const result = await client.call({
           to: args.contractAddress as Address,
-          data: encodeFunctionData({
-            abi: [abiItem],
-            functionName: abiItem.name,
-            args: convertedArgs,
-          }),
+          data,
           account: args.from ? (args.from as Address) : undefined,
           value: args.value ? BigInt(args.value) : undefined,
-          blockNumber: blockTag,
+          stateOverride,
+          blockOverrides,
+          ...block,
         });
 
-        // Also estimate gas
-        const gasEstimate = await client.estimateGas({
-          to: args.contractAddress as Address,
-          data: encodeFunctionData({
-            abi: [abiItem],
-            functionName: abiItem.name,
-            args: convertedArgs,
-          }),
-          account: args.from ? (args.from as Address) : undefined,
-          value: args.value ? BigInt(args.value) : undefined,
-          blockNumber: blockTag,
-        });
+        // Also estimate gas. eth_estimateGas takes no block overrides, so a call that only succeeds under
+        // them still returns its result, with the estimate left out
+        let gasEstimate: bigint | null = null;
+        let gasEstimateError: string | undefined;
+        try {
+          gasEstimate = await client.estimateGas({
+            to: args.contractAddress as Address,
+            data,
+            account: args.from ? (args.from as Address) : undefined,
+            value: args.value ? BigInt(args.value) : undefined,
+            stateOverride,
+            ...block,
+          });
+        } catch (error) {
+          gasEstimateError = error instanceof Error ? error.message.split("\n")[0] : String(error);
+        }
 
         // Decode the result if the function has outputs
         let decodedResult: unknown = result.data;
@@ -91,6 +164,34 @@ export default {
           });
         }
 
+        // Asset movements only make sense for a known sender and a call that can change state
+        let assetChanges: unknown;
+        let assetChangesError: string | undefined;
+        const isReadOnly = abiItem.stateMutability === "view" || abiItem.stateMutability === "pure";
+        if ((args.assetChanges ?? true) && args.from && !isReadOnly) {
+          try {
+            const preview = await previewAssetChanges(
+              args.chain as ChainName,
+              {
+                from: args.from as Address,
+                to: args.contractAddress as Address,
+                data,
+                value: args.value ? BigInt(args.value) : undefined,
+              },
+              { stateOverride, blockOverrides, blockNumber: args.blockNumber }
+            );
+            assetChanges = {
+              source: preview.source,
+              approvals: preview.approvals,
+              transfers: preview.transfers,
+              senderChanges: preview.senderChanges,
+              balanceChanges: preview.balanceChanges,
+            };
+          } catch (error) {
+            assetChangesError = error instanceof Error ? error.message.split("\n")[0] : String(error);
+          }
+        }
+
         return formatResponse({
           success: true,
           chain: args.chain,
@@ -98,19 +199,28 @@ export default {
           functionName: abiItem.name,
           result: decodedResult,
           rawData: result.data,
-          gasEstimate: gasEstimate.toString(),
+          gasEstimate: gasEstimate?.toString() ?? null,
+          ...(gasEstimateError ? { gasEstimateError } : {}),
           blockNumber: args.blockNumber || "latest",
+          ...(assetChanges ? { assetChanges } : {}),
+          ...(assetChangesError ? { assetChangesError } : {}),
         });
       } catch (error) {
         // Check if it's a revert error
         const errorMessage = error instanceof Error ? error.message : String(error);
+        const revert = await new RevertDecoder({
+          chainName: args.chain as ChainName,
+          address: args.contractAddress,
+          errorAbi,
+        }).decodeError(error);
 
         return formatResponse({
           success: false,
           chain: args.chain,
           contractAddress: args.contractAddress,
           error: errorMessage,
-          reverted: errorMessage.includes("revert") || errorMessage.includes("execution reverted"),
+          reverted: revert !== undefined || errorMessage.includes("revert"),
+          revert,
         });
       }
     }
@@ -147,6 +257,8 @@ export default {
         .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
         .optional()
         .describe("Optional: Function arguments (only used with functionAbi)"),
+      stateOverride: stateOverrideParameter,
+      errorAbi: errorAbiParameter,
     }),
     async (args) => {
       if (args.to && !isAddress(args.to)) {
@@ -159,6 +271,7 @@ export default {
 
       const clientManager = getClientManager();
       const client = clientManager.getClient(args.chain as ChainName);
+      const errorAbi = parseErrorAbi(args.errorAbi);
 
       try {
         let callData = args.data;
@@ -174,11 +287,18 @@ export default {
           });
         }
 
+        const stateOverride = await parseStateOverride(
+          args.chain as ChainName,
+          args.stateOverride,
+          clientManager.getBlockParameter(args.chain as ChainName)
+        );
+
         const gasEstimate = await client.estimateGas({
           to: args.to ? (args.to as Address) : undefined,
           account: args.from ? (args.from as Address) : undefined,
           value: args.value ? BigInt(args.value) : undefined,
           data: callData as `0x${string}` | undefined,
+          stateOverride,
         });
 
         return formatResponse({
@@ -190,11 +310,84 @@ export default {
           value: args.value,
         });
       } catch (error) {
+        const revert = await new RevertDecoder({
+          chainName: args.chain as ChainName,
+          address: args.to,
+          errorAbi,
+        }).decodeError(error);
+        if (revert) {
+          throw new Error(`Gas estimation failed: transaction reverts with ${revert.reason}\n${error}`);
+        }
         throw new Error(`Gas estimation failed: ${error}`);
       }
     }
   ),
 
+  simulate_bundle: createTool(
+    "Simulate Bundle",
+    "Simulate an ordered list of calls (e.g. approve then swap) where each call sees the effects of the previous ones, with optional state and block overrides. Uses eth_simulateV1; nothing is broadcast. Returns per-call success, gas, decoded result, revert reason and decoded logs.",
+    z.object({
+      chain: z
+        .enum(SUPPORTED_CHAINS)
+        .describe("Blockchain network to simulate on"),
+      calls: z
+        .array(
+          z.object({
+            from: z.string().optional().describe("Sender address"),
+            to: z.string().optional().describe("Target address (omit for contract deployment)"),
+            functionAbi: z
+              .string()
+              .optional()
+              .describe('Function ABI signature used to encode args and decode the result (e.g. "function approve(address spender, uint256 amount) returns (bool)")'),
+            args: z
+              .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+              .optional()
+              .describe("Function arguments (with functionAbi)"),
+            data: z.string().optional().describe("Raw calldata, instead of functionAbi and args"),
+            value: z.string().optional().describe("ETH value in wei"),
+            gas: z.string().optional().describe("Gas limit"),
+            newBlock: z
+              .boolean()
+              .optional()
+              .describe("Run this call in a new simulated block (block number and timestamp advance)"),
+          })
+        )
+        .min(1)
+        .max(50)
+        .describe("Calls in execution order"),
+      stateOverride: stateOverrideParameter,
+      blockOverrides: blockOverridesParameter,
+      blockNumber: z
+        .string()
+        .optional()
+        .describe("Block to build on (defaults to latest)"),
+      validation: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Enforce nonces, balances and base fee like a real block (default: false)"),
+    }),
+    async (args) => {
+      try {
+        const simulation = await simulateBundle(args.chain as ChainName, args.calls, {
+          stateOverride: args.stateOverride,
+          blockOverrides: args.blockOverrides,
+          blockNumber: args.blockNumber,
+          validation: args.validation,
+        });
+
+        return formatResponse({
+          success: simulation.calls.every((call) => call.success),
+          chain: args.chain,
+          blocks: simulation.blocks,
+          calls: simulation.calls,
+        });
+      } catch (error) {
+        throw new Error(`Bundle simulation failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  ),
+
   get_gas_price: createTool(
     "Get Gas Price",
     "Get current gas prices for a chain. Returns both legacy gasPrice and EIP-1559 fees (maxFeePerGas, maxPriorityFeePerGas).",
@@ -6,8 +6,11 @@ import balanceTools from './balance.js'
 import contractTools from './contract.js'
 import contractInfoTools from './contract-info.js'
 import ensTools from './ens.js'
+import explorerTools from './explorer.js'
+import forkTools from './fork.js'
 import gasTools from './gas.js'
 import logTools from './logs.js'
+import networkTools from './network.js'
 import signatureTools from './signatures.js'
 import transactionTools from './transactions.js'
 
@@ -15,11 +18,14 @@ const allToolDefinitions = {
   ...signatureTools,
   ...contractTools,
   ...contractInfoTools,
+  ...explorerTools,
   ...balanceTools,
   ...logTools,
+  ...networkTools,
   ...advancedTools,
   ...ensTools,
   ...gasTools,
+  ...forkTools,
   ...transactionTools
 } as const
 
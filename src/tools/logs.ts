@@ -2,7 +2,9 @@ import { HypersyncClient, type Log, LogField } from '@envio-dev/hypersync-client
 import {
   type AbiEvent,
   type Address,
+  type Hex,
   isAddress,
+  isHex,
   keccak256,
   parseAbiItem,
   toBytes,
@@ -11,6 +13,7 @@ import {
 import { z } from 'zod'
 import type { ChainName } from '../types.js'
 import { getClientManager, HYPERSYNC_URLS, SUPPORTED_CHAINS } from '../client.js'
+import { decodeLogs, parseAbiInput, type RawLog } from '../decoder.js'
 import { convertEventArgsToTypes, createTool, formatResponse } from '../utils.js'
 
 async function getLogsWithHypersync(
@@ -147,7 +150,7 @@ export default {
     }),
     async (args) => {
       const clientManager = getClientManager()
-      const config = (clientManager as any).config
+      const config = clientManager.getConfig()
 
       // First try with regular viem client
       try {
@@ -287,5 +290,70 @@ export default {
         }
       }
     }
+  ),
+
+  decode_logs: createTool(
+    'Decode Logs',
+    "Decode every event log of a transaction receipt (or supplied raw logs) using the emitting contract's verified ABI (implementation ABI for proxies), a supplied ABI, or known standard events. Logs that cannot be decoded are returned raw with decoded: false and the reason.",
+    z.object({
+      chain: z
+        .enum(SUPPORTED_CHAINS)
+        .optional()
+        .describe('Blockchain network, needed for txHash and for looking up verified ABIs of the emitting contracts'),
+      txHash: z.string().optional().describe('Transaction hash whose receipt logs to decode (requires chain)'),
+      logs: z
+        .array(
+          z.object({
+            address: z.string().describe('Emitting contract'),
+            topics: z.array(z.string()).describe('Log topics, topic0 first'),
+            data: z.string().describe('Non-indexed data (0x-prefixed hex)')
+          })
+        )
+        .optional()
+        .describe('Raw logs to decode instead of a transaction receipt'),
+      abi: z
+        .string()
+        .optional()
+        .describe('Optional ABI tried first: JSON ABI array, or human-readable event signatures (JSON array or one per line)')
+    }),
+    async (args) => {
+      let logs: RawLog[]
+      if (args.txHash) {
+        if (!args.chain) {
+          throw new Error('chain is required when decoding a transaction by hash')
+        }
+        const client = getClientManager().getClient(args.chain as ChainName)
+        const receipt = await client.getTransactionReceipt({ hash: args.txHash as Hex })
+        logs = receipt.logs
+      } else if (args.logs) {
+        for (const log of args.logs) {
+          if (!isHex(log.data) || !log.topics.every((topic) => isHex(topic))) {
+            throw new Error('Log topics and data must be 0x-prefixed hex')
+          }
+        }
+        logs = args.logs as RawLog[]
+      } else {
+        throw new Error('Either txHash or logs is required')
+      }
+
+      let abi
+      if (args.abi) {
+        try {
+          abi = parseAbiInput(args.abi)
+        } catch (error) {
+          throw new Error(`Failed to parse abi: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+
+      const decoded = await decodeLogs(logs, { chainName: args.chain as ChainName | undefined, abi })
+      return formatResponse({
+        chain: args.chain,
+        transactionHash: args.txHash,
+        total: decoded.length,
+        decoded: decoded.filter((log) => log.decoded).length,
+        undecoded: decoded.filter((log) => !log.decoded).length,
+        logs: decoded
+      })
+    }
   )
 }
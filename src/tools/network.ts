@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import type { ChainName } from '../types.js'
+import { getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { createTool, formatResponse } from '../utils.js'
+
+export default {
+  get_rpc_status: createTool(
+    'Get RPC Endpoint Status',
+    'Show health, latency and head block of each configured RPC endpoint for a chain, in the order they are tried. Use when calls fail or data looks stale.',
+    z.object({
+      chain: z.enum(SUPPORTED_CHAINS).describe('The blockchain network to inspect'),
+      probe: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('Ping every endpoint with eth_blockNumber before reporting (default: true). If false, returns stats from past traffic only.')
+    }),
+    async (args) => {
+      const clientManager = getClientManager()
+      const chainName = args.chain as ChainName
+
+      try {
+        const endpoints = args.probe
+          ? await clientManager.probeRpcHealth(chainName)
+          : clientManager.getHealthTracker(chainName).getStats()
+
+        return formatResponse({
+          chain: args.chain,
+          endpointCount: endpoints.length,
+          healthyEndpoints: endpoints.filter(endpoint => endpoint.status === 'healthy').length,
+          endpoints
+        })
+      } catch (error) {
+        throw new Error(`Failed to get RPC status: ${error}`)
+      }
+    }
+  )
+}
@@ -7,10 +7,15 @@ import {
   toBytes,
   toEventSignature,
   toFunctionSignature,
-  encodeFunctionData
+  encodeFunctionData,
+  type Hex,
+  isHex
 } from 'viem'
 import { z } from 'zod'
-import type { AbiError } from '../types.js'
+import type { AbiError, ChainName } from '../types.js'
+import { getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { CalldataDecoder, parseAbiInput } from '../decoder.js'
+import { getSignatureIndex, indexAbi, lookupSignature } from '../signature-db.js'
 import { createTool, formatResponse } from '../utils.js'
 
 const FunctionAbiSchema = z.object({
@@ -155,5 +160,122 @@ export default {
         throw new Error(`Failed to encode function data: ${error}`)
       }
     }
+  ),
+
+  lookup_signature: createTool(
+    'Lookup Signatures',
+    'Reverse lookup: map 4-byte function/error selectors or 32-byte event topic0 hashes to candidate signatures. Uses an offline database of common standards (ERC20/721/1155/4626, Uniswap, Permit2, Safe, OpenZeppelin errors) plus every ABI the server has fetched. BATCH OPTIMIZED.',
+    z.object({
+      hashes: z
+        .array(z.string())
+        .describe('Selectors (0x + 8 hex chars, functions and errors) or topic0 hashes (0x + 64 hex chars, events)'),
+      type: z.enum(['function', 'event', 'error']).optional().describe('Only return signatures of this kind')
+    }),
+    async (args) => {
+      const results = await Promise.all(
+        args.hashes.map(async (hash) => {
+          if (!isHex(hash) || (hash.length !== 10 && hash.length !== 66)) {
+            return { hash, matches: [], error: 'Expected a 4-byte selector or a 32-byte topic0' }
+          }
+          const matches = await lookupSignature(hash, args.type)
+          return {
+            hash: hash.toLowerCase(),
+            matches: matches.map(({ type, signature, text, source }) => ({ type, signature, text, source }))
+          }
+        })
+      )
+
+      return formatResponse({
+        found: results.filter((result) => result.matches.length > 0).length,
+        total: results.length,
+        results
+      })
+    }
+  ),
+
+  add_signatures: createTool(
+    'Add Signatures',
+    'Add functions, events and errors to the local signature database so lookup_signature and the decoders recognize them. ABIs fetched from verified contracts are added automatically.',
+    z.object({
+      abi: z
+        .string()
+        .describe('JSON ABI array, or human-readable signatures (JSON array or one per line), e.g. "event Deposit(address indexed user, uint256 amount)"')
+    }),
+    async (args) => {
+      let abi
+      try {
+        abi = parseAbiInput(args.abi)
+      } catch (error) {
+        throw new Error(`Failed to parse abi: ${error instanceof Error ? error.message : error}`)
+      }
+
+      const added = await indexAbi(abi)
+      return formatResponse({
+        success: true,
+        added,
+        skipped: abi.filter((item) => ['function', 'event', 'error'].includes(item.type)).length - added,
+        index: await getSignatureIndex().stats()
+      })
+    }
+  ),
+
+  decode_calldata: createTool(
+    'Decode Calldata',
+    'Decode transaction input data (or a transaction by hash) into the function name and named, typed arguments. Resolves the selector from a supplied ABI, the verified contract ABI, or a local signature database, and recursively decodes nested calls (multicall, execute, Safe transactions).',
+    z.object({
+      data: z.string().optional().describe('Raw calldata (0x-prefixed hex). Either data or txHash is required.'),
+      txHash: z.string().optional().describe('Transaction hash to fetch and decode the input of (requires chain)'),
+      chain: z
+        .enum(SUPPORTED_CHAINS)
+        .optional()
+        .describe('Blockchain network, needed for txHash and for looking up the verified ABI of the target contract'),
+      to: z.string().optional().describe('Contract the calldata is sent to (taken from the transaction when txHash is given)'),
+      abi: z
+        .string()
+        .optional()
+        .describe('Optional ABI: JSON ABI array, or human-readable signatures (JSON array or one per line)'),
+      maxDepth: z.number().int().min(0).max(10).optional().default(3).describe('Levels of nested calldata to decode (default: 3)')
+    }),
+    async (args) => {
+      let data = args.data as Hex | undefined
+      let to = args.to
+      let transaction: Record<string, unknown> | undefined
+
+      if (args.txHash) {
+        if (!args.chain) {
+          throw new Error('chain is required when decoding a transaction by hash')
+        }
+        const client = getClientManager().getClient(args.chain as ChainName)
+        const tx = await client.getTransaction({ hash: args.txHash as Hex })
+        data = tx.input
+        to = to ?? tx.to ?? undefined
+        transaction = { hash: tx.hash, from: tx.from, to: tx.to, value: tx.value, blockNumber: tx.blockNumber }
+      }
+
+      if (!data) {
+        throw new Error('Either data or txHash is required')
+      }
+      if (!isHex(data)) {
+        throw new Error('data must be 0x-prefixed hex')
+      }
+
+      let abi
+      if (args.abi) {
+        try {
+          abi = parseAbiInput(args.abi)
+        } catch (error) {
+          throw new Error(`Failed to parse abi: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+
+      const decoder = new CalldataDecoder({ chainName: args.chain as ChainName | undefined, to, abi, maxDepth: args.maxDepth })
+      const decoded = await decoder.decode(data)
+
+      return formatResponse({
+        ...(transaction ? { transaction } : {}),
+        success: !decoded.error,
+        ...decoded
+      })
+    }
   )
 }
@@ -1,59 +1,89 @@
 import { z } from 'zod'
 import { getWalletServer } from '../wallet-server.js'
-import { SUPPORTED_CHAINS } from '../client.js'
-import { parseUnits, encodeFunctionData, parseAbiItem, type AbiFunction } from 'viem'
-import { randomBytes } from 'crypto'
+import { getClientManager, SUPPORTED_CHAINS } from '../client.js'
+import { parseUnits, encodeFunctionData, parseAbiItem, type AbiFunction, type Hex } from 'viem'
+import type { ChainName } from '../types.js'
+import { sendDevTransaction } from '../dev-signer.js'
+import { decodeRevertFromError } from '../revert.js'
+import { getSigner } from '../signers.js'
 import { createTool, formatResponse } from '../utils.js'
 
-function generateRequestId(): string {
-  return randomBytes(16).toString('hex')
+const fromParameter = z
+  .string()
+  .optional()
+  .describe(
+    'Dev chains only (localhost, fork): sender to send from, unlocked on the node or impersonated. Defaults to devSigner.privateKey or the node\'s first account'
+  )
+
+// Dev chains are sent headlessly and answer with the mined receipt; other chains go through the
+// configured signer (the browser wallet unless signer.type selects a keystore or mnemonic)
+async function executeTransaction(chain: string, tx: { to: string; value: string; data?: string }, from?: string) {
+  if (getClientManager().isDevChain(chain as ChainName)) {
+    const { transactionHash, ...receipt } = await sendDevTransaction(chain as ChainName, {
+      from,
+      to: tx.to,
+      data: tx.data as Hex | undefined,
+      value: BigInt(tx.value)
+    })
+    return { success: receipt.status === 'success', transactionHash, receipt }
+  }
+  if (from !== undefined) {
+    throw new Error(`from is only supported on dev chains; ${chain} transactions are sent from the configured signer`)
+  }
+
+  const transactionHash = await getSigner().sendTransaction(chain as ChainName, {
+    to: tx.to,
+    data: tx.data as Hex | undefined,
+    value: BigInt(tx.value)
+  })
+  // Chains without a known explorer (custom chains unless configured) get no link
+  const explorerUrl = getClientManager().getExplorerUrl(chain as ChainName)
+  return { success: true, transactionHash, ...(explorerUrl && { explorerUrl: `${explorerUrl}/tx/${transactionHash}` }) }
+}
+
+// Reverts on dev chains surface while the node estimates gas
+async function decodeDevRevert(chain: string, address: string, error: unknown) {
+  return getClientManager().isDevChain(chain as ChainName)
+    ? decodeRevertFromError(error, { chainName: chain as ChainName, address })
+    : undefined
 }
 
 export default {
   send_native_token: createTool(
     'Send Native Token',
-    'Send native tokens (ETH, MATIC, BNB, etc.) to an address. Opens browser wallet for approval.',
+    'Send native tokens (ETH, MATIC, BNB, etc.) to an address. Opens browser wallet for approval unless a keystore or mnemonic signer is configured; on dev chains (localhost, fork) it is sent directly and returns the receipt.',
     z.object({
       chain: z.enum(SUPPORTED_CHAINS).describe('Blockchain network'),
       to: z.string().describe('Recipient address'),
       amount: z.string().describe('Amount in native token (e.g., "0.1" for 0.1 ETH)'),
-      data: z.string().optional().describe('Optional hex-encoded data to include with transaction')
+      data: z.string().optional().describe('Optional hex-encoded data to include with transaction'),
+      from: fromParameter
     }),
     async (args) => {
-      const walletServer = getWalletServer()
-
       try {
         // Parse amount to wei
         const value = '0x' + parseUnits(args.amount, 18).toString(16)
 
-        const txRequest = {
-          id: generateRequestId(),
-          type: 'send_transaction' as const,
-          chain: args.chain,
-          data: {
-            to: args.to,
-            value,
-            ...(args.data && { data: args.data })
-          }
-        }
-
         console.error(`[Transaction] Sending ${args.amount} native token to ${args.to} on ${args.chain}`)
-        const txHash = await walletServer.sendTransaction(txRequest)
+        const result = await executeTransaction(
+          args.chain,
+          { to: args.to, value, ...(args.data && { data: args.data }) },
+          args.from
+        )
 
         return formatResponse({
-          success: true,
+          ...result,
           chain: args.chain,
-          transactionHash: txHash,
           to: args.to,
           amount: args.amount,
-          message: `Successfully sent ${args.amount} native token`,
-          explorerUrl: `https://etherscan.io/tx/${txHash}`
+          message: result.success ? `Successfully sent ${args.amount} native token` : 'Transaction reverted'
         })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error)
         return formatResponse({
           success: false,
           error: errorMessage,
+          revert: await decodeDevRevert(args.chain, args.to, error),
           message: 'Transaction failed or was rejected'
         })
       }
@@ -62,17 +92,16 @@ export default {
 
   send_erc20_token: createTool(
     'Send ERC20 Token',
-    'Send ERC20 tokens to an address. Opens browser wallet for approval.',
+    'Send ERC20 tokens to an address. Opens browser wallet for approval unless a keystore or mnemonic signer is configured; on dev chains (localhost, fork) it is sent directly and returns the receipt.',
     z.object({
       chain: z.enum(SUPPORTED_CHAINS).describe('Blockchain network'),
       tokenAddress: z.string().describe('ERC20 token contract address'),
       to: z.string().describe('Recipient address'),
       amount: z.string().describe('Amount in token units (e.g., "100" for 100 USDC)'),
-      decimals: z.number().optional().default(18).describe('Token decimals (default: 18)')
+      decimals: z.number().optional().default(18).describe('Token decimals (default: 18)'),
+      from: fromParameter
     }),
     async (args) => {
-      const walletServer = getWalletServer()
-
       try {
         const decimals = args.decimals || 18
         const amountWei = parseUnits(args.amount, decimals)
@@ -80,35 +109,23 @@ export default {
         // ERC20 transfer(address to, uint256 amount)
         const data = `0xa9059cbb${args.to.slice(2).padStart(64, '0')}${amountWei.toString(16).padStart(64, '0')}`
 
-        const txRequest = {
-          id: generateRequestId(),
-          type: 'send_transaction' as const,
-          chain: args.chain,
-          data: {
-            to: args.tokenAddress,
-            data,
-            value: '0x0'
-          }
-        }
-
         console.error(`[Transaction] Sending ${args.amount} tokens to ${args.to} on ${args.chain}`)
-        const txHash = await walletServer.sendTransaction(txRequest)
+        const result = await executeTransaction(args.chain, { to: args.tokenAddress, data, value: '0x0' }, args.from)
 
         return formatResponse({
-          success: true,
+          ...result,
           chain: args.chain,
-          transactionHash: txHash,
           tokenAddress: args.tokenAddress,
           to: args.to,
           amount: args.amount,
-          message: `Successfully sent ${args.amount} tokens`,
-          explorerUrl: `https://etherscan.io/tx/${txHash}`
+          message: result.success ? `Successfully sent ${args.amount} tokens` : 'Token transfer reverted'
         })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error)
         return formatResponse({
           success: false,
           error: errorMessage,
+          revert: await decodeDevRevert(args.chain, args.tokenAddress, error),
           message: 'Token transfer failed or was rejected'
         })
       }
@@ -117,17 +134,16 @@ export default {
 
   call_contract_write: createTool(
     'Call Contract (Write)',
-    'Call a state-changing contract function (write operation). Opens browser wallet for approval.',
+    'Call a state-changing contract function (write operation). Opens browser wallet for approval unless a keystore or mnemonic signer is configured; on dev chains (localhost, fork) it is sent directly and returns the receipt.',
     z.object({
       chain: z.enum(SUPPORTED_CHAINS).describe('Blockchain network'),
       contractAddress: z.string().describe('Contract address'),
       functionAbi: z.string().describe('Function ABI definition (e.g., "function transfer(address to, uint256 amount)")'),
       args: z.array(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Function arguments in order matching the ABI signature'),
-      value: z.string().optional().describe('Optional ETH value to send with transaction (in ETH units, e.g., "0.1")')
+      value: z.string().optional().describe('Optional ETH value to send with transaction (in ETH units, e.g., "0.1")'),
+      from: fromParameter
     }),
     async (args) => {
-      const walletServer = getWalletServer()
-
       try {
         // Parse the function ABI and encode the call data
         console.error(`[Transaction] Parsing ABI: ${args.functionAbi}`)
@@ -145,28 +161,19 @@ export default {
 
         const valueHex = args.value ? '0x' + parseUnits(args.value, 18).toString(16) : '0x0'
 
-        const txRequest = {
-          id: generateRequestId(),
-          type: 'send_transaction' as const,
-          chain: args.chain,
-          data: {
-            to: args.contractAddress,
-            data,
-            value: valueHex
-          }
-        }
-
         console.error(`[Transaction] Calling ${abiItem.name}() on ${args.contractAddress} (${args.chain})`)
-        const txHash = await walletServer.sendTransaction(txRequest)
+        const result = await executeTransaction(
+          args.chain,
+          { to: args.contractAddress, data, value: valueHex },
+          args.from
+        )
 
         return formatResponse({
-          success: true,
+          ...result,
           chain: args.chain,
-          transactionHash: txHash,
           contractAddress: args.contractAddress,
           functionName: abiItem.name,
-          message: `Contract call to ${abiItem.name}() successful`,
-          explorerUrl: `https://etherscan.io/tx/${txHash}`
+          message: result.success ? `Contract call to ${abiItem.name}() successful` : `Contract call to ${abiItem.name}() reverted`
         })
       } catch (error) {
         console.error(`[Transaction] Error:`, error)
@@ -174,6 +181,7 @@ export default {
         return formatResponse({
           success: false,
           error: errorMessage,
+          revert: await decodeDevRevert(args.chain, args.contractAddress, error),
           message: 'Contract call failed or was rejected'
         })
       }
@@ -182,25 +190,14 @@ export default {
 
   sign_message: createTool(
     'Sign Message',
-    'Sign a message with the connected wallet. Opens browser wallet for approval.',
+    'Sign a message with the connected wallet. Opens browser wallet for approval, unless a local signer is configured with signMessages enabled.',
     z.object({
       message: z.string().describe('Message to sign')
     }),
     async (args) => {
-      const walletServer = getWalletServer()
-
       try {
-        const request = {
-          id: generateRequestId(),
-          type: 'sign_message' as const,
-          chain: 'any',
-          data: {
-            message: args.message
-          }
-        }
-
         console.error(`[Transaction] Signing message`)
-        const signature = await walletServer.sendTransaction(request)
+        const signature = await getSigner().signMessage(args.message)
 
         return formatResponse({
           success: true,
@@ -221,9 +218,22 @@ export default {
 
   wallet_status: createTool(
     'Wallet Status',
-    'Check if a wallet is connected to the browser interface',
+    'Check if a wallet is connected to the browser interface, or which local signer is configured instead',
     z.object({}),
     async () => {
+      const signer = getSigner()
+      if (signer.type !== 'browser') {
+        const address = await signer.getAddress()
+        const chains = Object.keys(getClientManager().getSignerSettings()?.policies ?? {})
+        return formatResponse({
+          connected: true,
+          signer: signer.type,
+          address,
+          chains,
+          message: `Transactions are signed by the ${signer.type} account ${address} on ${chains.length > 0 ? chains.join(', ') : 'no chains (add signer.policies)'}`
+        })
+      }
+
       const walletServer = getWalletServer()
       const isConnected = walletServer.isConnected()
       const port = walletServer.getPort()
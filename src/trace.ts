@@ -0,0 +1,312 @@
+import { decodeFunctionResult, type Hash, type Hex, hexToBigInt } from 'viem'
+import type { ChainName } from './types.js'
+import { getClientManager } from './client.js'
+import { CalldataDecoder } from './decoder.js'
+import { type DecodedRevert, RevertDecoder } from './revert.js'
+
+// Frame returned by geth's callTracer (also served by Erigon, Reth, Nethermind and anvil)
+export interface CallFrame {
+  type: string
+  from: string
+  to?: string
+  value?: Hex
+  gas?: Hex
+  gasUsed?: Hex
+  input?: Hex
+  output?: Hex
+  error?: string
+  revertReason?: string
+  calls?: CallFrame[]
+  // Logs emitted by the frame itself, with the callTracer's withLog option
+  logs?: Array<{ address: string; topics: Hex[]; data: Hex }>
+  // Added by this server
+  revert?: DecodedRevert
+}
+
+// Call tree of a mined transaction via debug_traceTransaction. Returns null (with the reason) when the
+// RPC does not offer debug tracing, so callers can fall back to receipt-only data
+export async function fetchCallTrace(
+  chainName: ChainName,
+  hash: Hash
+): Promise<{ trace: CallFrame; error?: undefined } | { trace: null; error: string }> {
+  const client = getClientManager().getClient(chainName)
+  try {
+    const trace = await client.request<{ Parameters: [Hash, { tracer: 'callTracer' }]; ReturnType: CallFrame }>({
+      method: 'debug_traceTransaction',
+      params: [hash, { tracer: 'callTracer' }]
+    })
+    return { trace }
+  } catch (error) {
+    return { trace: null, error: error instanceof Error ? error.message.split('\n')[0]! : String(error) }
+  }
+}
+
+// Opcode steps kept from the struct logger; full logs of busy transactions run to millions of steps
+export const OPCODE_TRACE_LIMIT = 1000
+
+export interface OpcodeTrace {
+  // 'structLogger': debug_traceTransaction without a tracer (geth, Reth, anvil)
+  // 'trace_replayTransaction': Parity-style vmTrace (Erigon, Nethermind)
+  source: 'structLogger' | 'trace_replayTransaction'
+  gas?: number
+  failed?: boolean
+  returnValue?: string
+  steps: unknown[]
+  truncated: boolean
+}
+
+// Instruction-level trace of a mined transaction, limited to the first OPCODE_TRACE_LIMIT steps.
+// Memory and storage are left out of each step to keep the response manageable
+export async function fetchOpcodeTrace(
+  chainName: ChainName,
+  hash: Hash
+): Promise<{ trace: OpcodeTrace; error?: undefined } | { trace: null; error: string }> {
+  const client = getClientManager().getClient(chainName)
+  const errors: string[] = []
+  const message = (error: unknown) => (error instanceof Error ? error.message.split('\n')[0]! : String(error))
+
+  try {
+    const result = await client.request<{
+      Parameters: [Hash, { disableStorage: boolean; enableMemory: boolean; enableReturnData: boolean; limit: number }]
+      ReturnType: { gas?: number; failed?: boolean; returnValue?: string; structLogs?: unknown[] }
+    }>({
+      method: 'debug_traceTransaction',
+      params: [hash, { disableStorage: true, enableMemory: false, enableReturnData: false, limit: OPCODE_TRACE_LIMIT }]
+    })
+    const steps = result.structLogs ?? []
+    return {
+      trace: {
+        source: 'structLogger',
+        gas: result.gas,
+        failed: result.failed,
+        returnValue: result.returnValue,
+        steps: steps.slice(0, OPCODE_TRACE_LIMIT),
+        truncated: steps.length >= OPCODE_TRACE_LIMIT
+      }
+    }
+  } catch (error) {
+    errors.push(`debug_traceTransaction: ${message(error)}`)
+  }
+
+  try {
+    const result = await client.request<{ Parameters: [Hash, ['vmTrace']]; ReturnType: { vmTrace?: { ops?: unknown[] } } }>({
+      method: 'trace_replayTransaction',
+      params: [hash, ['vmTrace']]
+    })
+    const steps = result.vmTrace?.ops ?? []
+    return {
+      trace: {
+        source: 'trace_replayTransaction',
+        steps: steps.slice(0, OPCODE_TRACE_LIMIT),
+        truncated: steps.length > OPCODE_TRACE_LIMIT
+      }
+    }
+  } catch (error) {
+    errors.push(`trace_replayTransaction: ${message(error)}`)
+  }
+
+  return { trace: null, error: errors.join('; ') }
+}
+
+// Depth-first walk over a call tree. Return false from the visitor to skip a frame's children
+export function walkCallFrames(
+  frame: CallFrame,
+  visit: (frame: CallFrame, depth: number) => boolean | void,
+  depth = 0
+): void {
+  if (visit(frame, depth) === false) return
+  for (const call of frame.calls ?? []) {
+    walkCallFrames(call, visit, depth + 1)
+  }
+}
+
+// Frames that failed without revert data for another reason (out of gas, invalid opcode) have no reason to decode
+function hasRevertData(frame: CallFrame): boolean {
+  return Boolean(frame.error && ((frame.output && frame.output !== '0x') || /revert/i.test(frame.error)))
+}
+
+// Attach decoded revert reasons to every reverted frame of a raw callTracer result
+export async function annotateReverts(frame: CallFrame, decoder: RevertDecoder): Promise<void> {
+  if (hasRevertData(frame)) {
+    frame.revert = await decoder.decode(frame.output, frame.to)
+  }
+  await Promise.all((frame.calls ?? []).map((call) => annotateReverts(call, decoder)))
+}
+
+// Compact, decoded view of one call frame
+export interface CallTreeNode {
+  type: string
+  from: string
+  to?: string
+  // Canonical signature when the selector is known, else the raw selector
+  function?: string
+  args?: Record<string, unknown>
+  returns?: unknown
+  value?: bigint
+  gasUsed?: number
+  error?: string
+  // Decoded revert reason
+  revert?: string
+  // The frame the transaction's revert started in (the reason bubbled up from here)
+  revertOrigin?: boolean
+  // Number of identical consecutive static calls merged into this node
+  repeated?: number
+  // Subcalls below maxDepth that were left out
+  omittedCalls?: number
+  calls?: CallTreeNode[]
+}
+
+export interface CallTreeOptions {
+  chainName?: ChainName
+  // Frames deeper than this are counted, not rendered (default 5)
+  maxDepth?: number
+  // Merge consecutive identical STATICCALLs into one node (default true)
+  collapseStaticCalls?: boolean
+  // Decode inputs, outputs and reverts with verified ABIs and the signature database (default true)
+  decode?: boolean
+}
+
+export interface CallTree {
+  root: CallTreeNode
+  frameCount: number
+  // Indexes into the rendered calls (after collapsing static calls) from the root towards the frame where
+  // the revert originated; ends at maxDepth when the origin lies deeper
+  revertPath?: number[]
+  revert?: DecodedRevert
+}
+
+function countFrames(frame: CallFrame): number {
+  return 1 + (frame.calls ?? []).reduce((total, call) => total + countFrames(call), 0)
+}
+
+// Follow a revert down through the subcalls it bubbled up from (same revert data)
+function findRevertPath(root: CallFrame): number[] | undefined {
+  if (!root.error) return undefined
+  const path: number[] = []
+  let frame = root
+  for (;;) {
+    const calls = frame.calls ?? []
+    let next = -1
+    for (let index = calls.length - 1; index >= 0; index--) {
+      const call = calls[index]!
+      if (call.error && (call.output ?? '0x') === (frame.output ?? '0x')) {
+        next = index
+        break
+      }
+    }
+    if (next === -1) return path
+    path.push(next)
+    frame = calls[next]!
+  }
+}
+
+function collapseStaticCalls(calls: CallFrame[]): Array<{ frame: CallFrame; repeated: number }> {
+  const collapsed: Array<{ frame: CallFrame; repeated: number }> = []
+  calls.forEach((frame) => {
+    const previous = collapsed[collapsed.length - 1]
+    if (
+      previous &&
+      frame.type === 'STATICCALL' &&
+      previous.frame.type === 'STATICCALL' &&
+      !frame.error &&
+      !previous.frame.error &&
+      previous.frame.to === frame.to &&
+      previous.frame.input === frame.input
+    ) {
+      previous.repeated++
+    } else {
+      collapsed.push({ frame, repeated: 1 })
+    }
+  })
+  return collapsed
+}
+
+// Post-process a callTracer result into a depth-limited tree with decoded calls, gas per frame and
+// the revert location marked
+export async function buildCallTree(trace: CallFrame, options: CallTreeOptions = {}): Promise<CallTree> {
+  const { chainName, maxDepth = 5, collapseStaticCalls: collapse = true, decode = true } = options
+  const calldataDecoder = new CalldataDecoder({ chainName, maxDepth: 0 })
+  const revertDecoder = new RevertDecoder({ chainName })
+  const revertPath = findRevertPath(trace)
+  const originFrame = revertPath?.reduce((frame, index) => frame.calls![index]!, trace)
+  const childrenOf = (frame: CallFrame) =>
+    collapse ? collapseStaticCalls(frame.calls ?? []) : (frame.calls ?? []).map((call) => ({ frame: call, repeated: 1 }))
+
+  const render = async (frame: CallFrame, depth: number): Promise<CallTreeNode> => {
+    const node: CallTreeNode = { type: frame.type, from: frame.from, to: frame.to }
+    const input = frame.input ?? '0x'
+    const isCreate = frame.type.startsWith('CREATE')
+
+    if (isCreate) {
+      node.function = 'constructor'
+    } else if (input.length >= 10) {
+      node.function = input.slice(0, 10)
+      if (decode) {
+        const decoded = await calldataDecoder.decode(input, frame.to)
+        if (!decoded.error && decoded.signature) {
+          node.function = decoded.signature
+          node.args = Object.fromEntries((decoded.args ?? []).map((arg) => [arg.name, arg.value]))
+        }
+      }
+    }
+
+    const value = frame.value ? hexToBigInt(frame.value) : 0n
+    if (value > 0n) node.value = value
+    if (frame.gasUsed) node.gasUsed = Number(hexToBigInt(frame.gasUsed))
+
+    if (frame.error) {
+      node.error = frame.error
+      if (decode && hasRevertData(frame)) {
+        node.revert = (await revertDecoder.decode(frame.output, frame.to)).reason
+      }
+      if (frame === originFrame) node.revertOrigin = true
+    } else if (decode && !isCreate && frame.output && frame.output !== '0x' && input.length >= 10) {
+      const resolved = await calldataDecoder.resolveFunction(input, frame.to)
+      if (resolved && resolved.item.outputs.length > 0) {
+        try {
+          node.returns = decodeFunctionResult({
+            abi: [resolved.item],
+            functionName: resolved.item.name,
+            data: frame.output
+          })
+        } catch {
+          // Output does not match the resolved function's return types
+        }
+      }
+    }
+
+    const calls = frame.calls ?? []
+    if (calls.length > 0) {
+      if (depth >= maxDepth) {
+        node.omittedCalls = calls.reduce((total, call) => total + countFrames(call), 0)
+      } else {
+        node.calls = await Promise.all(
+          childrenOf(frame).map(async ({ frame: child, repeated }) => {
+            const rendered = await render(child, depth + 1)
+            if (repeated > 1) rendered.repeated = repeated
+            return rendered
+          })
+        )
+      }
+    }
+    return node
+  }
+
+  const root = await render(trace, 0)
+  const tree: CallTree = { root, frameCount: countFrames(trace) }
+  if (revertPath && originFrame) {
+    // Reverted frames are never merged, so each one on the path keeps its own rendered node
+    tree.revertPath = []
+    let frame = trace
+    for (const index of revertPath) {
+      if (tree.revertPath.length >= maxDepth) break
+      const next = frame.calls![index]!
+      tree.revertPath.push(childrenOf(frame).findIndex((child) => child.frame === next))
+      frame = next
+    }
+    if (decode && hasRevertData(originFrame)) {
+      tree.revert = await revertDecoder.decode(originFrame.output, originFrame.to)
+    }
+  }
+  return tree
+}
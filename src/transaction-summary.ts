@@ -0,0 +1,168 @@
+import { formatEther, type Hash, type Hex, hexToBigInt, TransactionReceiptNotFoundError } from 'viem'
+import type { ChainName } from './types.js'
+import { getClientManager } from './client.js'
+import { CalldataDecoder, type DecodedCall, type DecodedLog, LogDecoder } from './decoder.js'
+
+export interface FeeBreakdown {
+  gasUsed: bigint
+  gasLimit: bigint
+  effectiveGasPrice: bigint
+  baseFeePerGas?: bigint
+  // Tip actually paid per gas (effectiveGasPrice - baseFeePerGas)
+  priorityFeePerGas?: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  // gasUsed * baseFeePerGas
+  burnedFee?: bigint
+  // gasUsed * priorityFeePerGas
+  priorityFee?: bigint
+  // gasUsed * effectiveGasPrice
+  executionFee: bigint
+  // OP-stack chains: fee for posting the transaction data to L1
+  l1Fee?: bigint
+  l1GasUsed?: bigint
+  l1GasPrice?: bigint
+  totalFee: bigint
+  totalFeeFormatted: string
+  nativeCurrency: string
+}
+
+export interface TransactionSummary {
+  hash: Hash
+  status: 'success' | 'reverted' | 'pending'
+  blockNumber?: bigint
+  blockHash?: Hex
+  timestamp?: string
+  transactionIndex?: number
+  from: string
+  to: string | null
+  contractAddress?: string | null
+  value: bigint
+  valueFormatted: string
+  nonce: number
+  type: string
+  input: Hex
+  fees?: FeeBreakdown
+  decodedInput?: DecodedCall
+  logs?: DecodedLog[]
+}
+
+export interface TransactionSummaryOptions {
+  // Decode the input and the logs (verified ABIs, local signature database)
+  decode?: boolean
+  includeLogs?: boolean
+}
+
+// OP-stack receipts carry L1 fee fields; chains without viem's OP formatters leave them as hex
+function optionalBigInt(value: unknown): bigint | undefined {
+  if (typeof value === 'bigint') return value
+  if (typeof value === 'string' && value.startsWith('0x')) return hexToBigInt(value as Hex)
+  return undefined
+}
+
+// Transaction, receipt and fee details using only standard eth_* methods (no debug/trace support needed)
+export async function fetchTransactionSummary(
+  chainName: ChainName,
+  hash: Hash,
+  options: TransactionSummaryOptions = {},
+  // Shared between transactions of one batch so each block is fetched once
+  blocks = new Map<bigint, Promise<{ baseFeePerGas: bigint | null; timestamp: bigint }>>()
+): Promise<TransactionSummary> {
+  const client = getClientManager().getClient(chainName)
+  const { decode = true, includeLogs = true } = options
+
+  const transaction = await client.getTransaction({ hash })
+  const receipt = await client.getTransactionReceipt({ hash }).catch((error) => {
+    if (error instanceof TransactionReceiptNotFoundError) return null
+    throw error
+  })
+
+  const summary: TransactionSummary = {
+    hash,
+    status: receipt ? receipt.status : 'pending',
+    from: transaction.from,
+    to: transaction.to,
+    value: transaction.value,
+    valueFormatted: formatEther(transaction.value),
+    nonce: transaction.nonce,
+    type: transaction.type,
+    input: transaction.input
+  }
+
+  if (receipt) {
+    if (!blocks.has(receipt.blockNumber)) {
+      blocks.set(
+        receipt.blockNumber,
+        client.getBlock({ blockNumber: receipt.blockNumber }).then((block) => ({
+          baseFeePerGas: block.baseFeePerGas,
+          timestamp: block.timestamp
+        }))
+      )
+    }
+    const block = await blocks.get(receipt.blockNumber)!
+
+    summary.blockNumber = receipt.blockNumber
+    summary.blockHash = receipt.blockHash
+    summary.timestamp = new Date(Number(block.timestamp) * 1000).toISOString()
+    summary.transactionIndex = receipt.transactionIndex
+    summary.contractAddress = receipt.contractAddress
+    summary.fees = getFeeBreakdown(transaction, receipt, block.baseFeePerGas, client.chain?.nativeCurrency.symbol ?? 'ETH')
+  }
+
+  if (decode && transaction.to && transaction.input !== '0x') {
+    summary.decodedInput = await new CalldataDecoder({ chainName, to: transaction.to }).decode(transaction.input)
+  }
+
+  if (includeLogs && receipt) {
+    summary.logs = decode
+      ? await new LogDecoder({ chainName }).decodeAll(receipt.logs)
+      : receipt.logs.map((log) => ({
+          logIndex: log.logIndex,
+          address: log.address,
+          decoded: false,
+          topics: log.topics,
+          data: log.data
+        }))
+  }
+
+  return summary
+}
+
+export function getFeeBreakdown(
+  transaction: { gas: bigint; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint },
+  receipt: { gasUsed: bigint; effectiveGasPrice: bigint } & Record<string, unknown>,
+  baseFeePerGas: bigint | null,
+  nativeCurrency: string
+): FeeBreakdown {
+  const { gasUsed, effectiveGasPrice } = receipt
+  const executionFee = gasUsed * effectiveGasPrice
+  const l1Fee = optionalBigInt(receipt.l1Fee)
+
+  const fees: FeeBreakdown = {
+    gasUsed,
+    gasLimit: transaction.gas,
+    effectiveGasPrice,
+    executionFee,
+    totalFee: executionFee + (l1Fee ?? 0n),
+    totalFeeFormatted: '',
+    nativeCurrency
+  }
+
+  if (baseFeePerGas !== null) {
+    fees.baseFeePerGas = baseFeePerGas
+    fees.priorityFeePerGas = effectiveGasPrice > baseFeePerGas ? effectiveGasPrice - baseFeePerGas : 0n
+    fees.burnedFee = gasUsed * baseFeePerGas
+    fees.priorityFee = gasUsed * fees.priorityFeePerGas
+  }
+  if (transaction.maxFeePerGas !== undefined) fees.maxFeePerGas = transaction.maxFeePerGas
+  if (transaction.maxPriorityFeePerGas !== undefined) fees.maxPriorityFeePerGas = transaction.maxPriorityFeePerGas
+
+  if (l1Fee !== undefined) {
+    fees.l1Fee = l1Fee
+    fees.l1GasUsed = optionalBigInt(receipt.l1GasUsed)
+    fees.l1GasPrice = optionalBigInt(receipt.l1GasPrice)
+  }
+
+  fees.totalFeeFormatted = formatEther(fees.totalFee)
+  return fees
+}
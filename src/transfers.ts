@@ -0,0 +1,451 @@
+import {
+  type Address,
+  formatUnits,
+  type Hash,
+  type Hex,
+  hexToBigInt,
+  maxUint256,
+  parseAbi,
+  toEventSelector,
+  zeroAddress
+} from 'viem'
+import type { ChainName } from './types.js'
+import { getClientManager } from './client.js'
+import type { RawLog } from './decoder.js'
+import { getFeeBreakdown } from './transaction-summary.js'
+import { type CallFrame, fetchCallTrace, walkCallFrames } from './trace.js'
+
+export type AssetStandard = 'native' | 'erc20' | 'erc721' | 'erc1155'
+
+export interface AssetTransfer {
+  standard: AssetStandard
+  // Token contract, or null for the chain's native currency
+  token: string | null
+  from: string
+  to: string
+  amount: bigint
+  tokenId?: bigint
+  // Log that recorded a token transfer, or call depth of a native value transfer
+  logIndex?: number
+  depth?: number
+  symbol?: string
+  decimals?: number
+  amountFormatted?: string
+}
+
+export interface BalanceChange {
+  token: string | null
+  standard: AssetStandard
+  tokenId?: bigint
+  symbol?: string
+  delta: bigint
+  deltaFormatted?: string
+}
+
+export interface TokenApproval {
+  // erc20: allowance set by Approval(owner, spender, value); erc721: single token approved;
+  // operator: ApprovalForAll over every ERC721/ERC1155 token of the collection
+  kind: 'erc20' | 'erc721' | 'operator'
+  token: string
+  owner: string
+  spender: string
+  amount?: bigint
+  // ERC20 allowance of type(uint256).max
+  unlimited?: boolean
+  tokenId?: bigint
+  // ApprovalForAll granted (true) or revoked (false)
+  approved?: boolean
+  logIndex: number
+  symbol?: string
+  decimals?: number
+  amountFormatted?: string
+}
+
+export interface TokenMetadata {
+  symbol?: string
+  decimals?: number
+}
+
+const TRANSFER_TOPIC = toEventSelector('Transfer(address,address,uint256)')
+const TRANSFER_SINGLE_TOPIC = toEventSelector('TransferSingle(address,address,address,uint256,uint256)')
+const TRANSFER_BATCH_TOPIC = toEventSelector('TransferBatch(address,address,address,uint256[],uint256[])')
+// WETH-style wrappers mint and burn without Transfer events. Staking contracts, vaults and bridges emit
+// the same event shapes, so they only count for the chain's wrapped native token
+const DEPOSIT_TOPIC = toEventSelector('Deposit(address,uint256)')
+const WITHDRAWAL_TOPIC = toEventSelector('Withdrawal(address,uint256)')
+const APPROVAL_TOPIC = toEventSelector('Approval(address,address,uint256)')
+const APPROVAL_FOR_ALL_TOPIC = toEventSelector('ApprovalForAll(address,address,bool)')
+
+// ERC-7528 native currency address; eth_simulateV1 with traceTransfers reports native value transfers as
+// ERC20 Transfer logs emitted by it
+export const NATIVE_TOKEN_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+
+// Wrapped native token per chain ID (WETH, WPOL, WBNB, ...). Keyed by ID so the fork, which keeps the
+// forked chain's ID, resolves too
+const WRAPPED_NATIVE_TOKENS: Record<number, string> = {
+  1: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+  10: '0x4200000000000000000000000000000000000006',
+  56: '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c',
+  100: '0xe91d153e0b41518a2ce8dd3d7944fa863463a97d',
+  130: '0x4200000000000000000000000000000000000006',
+  137: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
+  146: '0x039e2fb66102314ce7b64ce5ce3e5183bc94ad38',
+  324: '0x5aea5775959fbc2557cc8789bc1bf90a239d9a91',
+  8453: '0x4200000000000000000000000000000000000006',
+  42161: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+  43114: '0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7',
+  59144: '0xe5d7c2a44ffddf6b295a15c148167daaaf5cf34f',
+  84532: '0x4200000000000000000000000000000000000006',
+  421614: '0x980b62da83eff3d4576c647993b0c1d7faf17c73',
+  11155111: '0xfff9976782d46cc05630d1f6ebab18b2324d6b14',
+  11155420: '0x4200000000000000000000000000000000000006'
+}
+
+export function getWrappedNativeToken(chainName: ChainName): string | undefined {
+  return WRAPPED_NATIVE_TOKENS[getClientManager().getChainId(chainName)]
+}
+
+const metadataAbi = parseAbi(['function symbol() view returns (string)', 'function decimals() view returns (uint8)'])
+
+function topicToAddress(topic: Hex): string {
+  return `0x${topic.slice(26)}`
+}
+
+// 32-byte words of non-indexed log data
+function dataWords(data: Hex): bigint[] {
+  const words: bigint[] = []
+  for (let offset = 2; offset + 64 <= data.length; offset += 64) {
+    words.push(hexToBigInt(`0x${data.slice(offset, offset + 64)}`))
+  }
+  return words
+}
+
+// ERC20, ERC721 and ERC1155 transfers (plus deposits and withdrawals of wrappedNative) recorded in logs.
+// ERC20 and ERC721 Transfer share topic0 and differ by the number of indexed topics
+export function extractTokenTransfers(
+  logs: readonly RawLog[],
+  options: { wrappedNative?: string } = {}
+): AssetTransfer[] {
+  const wrappedNative = options.wrappedNative?.toLowerCase()
+  const transfers: AssetTransfer[] = []
+  for (const [position, log] of logs.entries()) {
+    const [topic0, ...indexed] = log.topics
+    const logIndex = log.logIndex !== undefined && log.logIndex !== null ? Number(log.logIndex) : position
+    const token = log.address.toLowerCase()
+
+    if (topic0 === TRANSFER_TOPIC && indexed.length === 2 && token === NATIVE_TOKEN_ADDRESS) {
+      const [amount] = dataWords(log.data)
+      if (amount === undefined) continue
+      transfers.push({
+        standard: 'native',
+        token: null,
+        from: topicToAddress(indexed[0]!),
+        to: topicToAddress(indexed[1]!),
+        amount,
+        logIndex
+      })
+    } else if (topic0 === TRANSFER_TOPIC && indexed.length === 2) {
+      const [amount] = dataWords(log.data)
+      if (amount === undefined) continue
+      transfers.push({
+        standard: 'erc20',
+        token,
+        from: topicToAddress(indexed[0]!),
+        to: topicToAddress(indexed[1]!),
+        amount,
+        logIndex
+      })
+    } else if (topic0 === TRANSFER_TOPIC && indexed.length === 3) {
+      transfers.push({
+        standard: 'erc721',
+        token,
+        from: topicToAddress(indexed[0]!),
+        to: topicToAddress(indexed[1]!),
+        amount: 1n,
+        tokenId: hexToBigInt(indexed[2]!),
+        logIndex
+      })
+    } else if (topic0 === TRANSFER_SINGLE_TOPIC && indexed.length === 3) {
+      const [tokenId, amount] = dataWords(log.data)
+      if (tokenId === undefined || amount === undefined) continue
+      transfers.push({
+        standard: 'erc1155',
+        token,
+        from: topicToAddress(indexed[1]!),
+        to: topicToAddress(indexed[2]!),
+        amount,
+        tokenId,
+        logIndex
+      })
+    } else if (topic0 === TRANSFER_BATCH_TOPIC && indexed.length === 3) {
+      // data: offset(ids), offset(values), ids length, ids..., values length, values...
+      const words = dataWords(log.data)
+      const idsStart = Number(words[0] ?? 0n) / 32
+      const valuesStart = Number(words[1] ?? 0n) / 32
+      const count = Number(words[idsStart] ?? 0n)
+      for (let i = 0; i < count; i++) {
+        const tokenId = words[idsStart + 1 + i]
+        const amount = words[valuesStart + 1 + i]
+        if (tokenId === undefined || amount === undefined) break
+        transfers.push({
+          standard: 'erc1155',
+          token,
+          from: topicToAddress(indexed[1]!),
+          to: topicToAddress(indexed[2]!),
+          amount,
+          tokenId,
+          logIndex
+        })
+      }
+    } else if (
+      (topic0 === DEPOSIT_TOPIC || topic0 === WITHDRAWAL_TOPIC) &&
+      indexed.length === 1 &&
+      token === wrappedNative
+    ) {
+      const [amount] = dataWords(log.data)
+      if (amount === undefined) continue
+      const account = topicToAddress(indexed[0]!)
+      const deposit = topic0 === DEPOSIT_TOPIC
+      transfers.push({
+        standard: 'erc20',
+        token,
+        from: deposit ? zeroAddress : account,
+        to: deposit ? account : zeroAddress,
+        amount,
+        logIndex
+      })
+    }
+  }
+  return transfers
+}
+
+// Allowances and operator approvals granted or revoked in logs. ERC20 and ERC721 Approval share topic0
+// and differ by the number of indexed topics, like Transfer
+export function extractTokenApprovals(logs: readonly RawLog[]): TokenApproval[] {
+  const approvals: TokenApproval[] = []
+  for (const [position, log] of logs.entries()) {
+    const [topic0, ...indexed] = log.topics
+    const logIndex = log.logIndex !== undefined && log.logIndex !== null ? Number(log.logIndex) : position
+    const token = log.address.toLowerCase()
+
+    if (topic0 === APPROVAL_TOPIC && indexed.length === 2) {
+      const [amount] = dataWords(log.data)
+      if (amount === undefined) continue
+      approvals.push({
+        kind: 'erc20',
+        token,
+        owner: topicToAddress(indexed[0]!),
+        spender: topicToAddress(indexed[1]!),
+        amount,
+        ...(amount === maxUint256 ? { unlimited: true } : {}),
+        logIndex
+      })
+    } else if (topic0 === APPROVAL_TOPIC && indexed.length === 3) {
+      approvals.push({
+        kind: 'erc721',
+        token,
+        owner: topicToAddress(indexed[0]!),
+        spender: topicToAddress(indexed[1]!),
+        tokenId: hexToBigInt(indexed[2]!),
+        logIndex
+      })
+    } else if (topic0 === APPROVAL_FOR_ALL_TOPIC && indexed.length === 2) {
+      const [approved] = dataWords(log.data)
+      if (approved === undefined) continue
+      approvals.push({
+        kind: 'operator',
+        token,
+        owner: topicToAddress(indexed[0]!),
+        spender: topicToAddress(indexed[1]!),
+        approved: approved !== 0n,
+        logIndex
+      })
+    }
+  }
+  return approvals
+}
+
+// Native value moved by successful calls of a call tree. Reverted frames (and everything below them)
+// moved nothing; DELEGATECALL and STATICCALL frames never carry value of their own
+export function extractNativeTransfers(trace: CallFrame): AssetTransfer[] {
+  const transfers: AssetTransfer[] = []
+  walkCallFrames(trace, (frame, depth) => {
+    if (frame.error) return false
+    const type = frame.type.toUpperCase()
+    const value = frame.value ? hexToBigInt(frame.value) : 0n
+    if (value > 0n && frame.to && type !== 'DELEGATECALL' && type !== 'STATICCALL') {
+      transfers.push({
+        standard: 'native',
+        token: null,
+        from: frame.from.toLowerCase(),
+        to: frame.to.toLowerCase(),
+        amount: value,
+        depth
+      })
+    }
+  })
+  return transfers
+}
+
+// Symbol and decimals of each token (one multicall); tokens that do not implement them are left blank
+export async function fetchTokenMetadata(chainName: ChainName, tokens: string[]): Promise<Map<string, TokenMetadata>> {
+  const metadata = new Map<string, TokenMetadata>()
+  const unique = [...new Set(tokens.map((token) => token.toLowerCase()))]
+  if (unique.length === 0) return metadata
+
+  const client = getClientManager().getClient(chainName)
+  const useDeployless = !client.chain?.contracts?.multicall3
+  try {
+    const results = await client.multicall({
+      contracts: unique.flatMap((token) => [
+        { address: token as Address, abi: metadataAbi, functionName: 'symbol' as const },
+        { address: token as Address, abi: metadataAbi, functionName: 'decimals' as const }
+      ]),
+      ...(useDeployless && { deployless: true })
+    })
+    unique.forEach((token, index) => {
+      const symbol = results[index * 2]
+      const decimals = results[index * 2 + 1]
+      metadata.set(token, {
+        symbol: symbol?.status === 'success' ? (symbol.result as string) : undefined,
+        decimals: decimals?.status === 'success' ? Number(decimals.result) : undefined
+      })
+    })
+  } catch {
+    // Metadata is cosmetic; amounts stay raw
+  }
+  return metadata
+}
+
+// Attach symbols and formatted amounts. Native amounts use the chain's native currency
+export function applyTokenMetadata(
+  transfers: AssetTransfer[],
+  metadata: Map<string, TokenMetadata>,
+  nativeCurrency: { symbol: string; decimals: number }
+): AssetTransfer[] {
+  return transfers.map((transfer) => {
+    const info = transfer.token ? metadata.get(transfer.token) : nativeCurrency
+    const decimals = transfer.standard === 'erc20' || transfer.standard === 'native' ? info?.decimals : 0
+    return {
+      ...transfer,
+      symbol: info?.symbol,
+      decimals,
+      amountFormatted: decimals !== undefined ? formatUnits(transfer.amount, decimals) : undefined
+    }
+  })
+}
+
+// Net change per address and asset (token + tokenId). Zero-net entries are dropped
+export function computeBalanceChanges(transfers: AssetTransfer[]): Record<string, BalanceChange[]> {
+  const changes = new Map<string, Map<string, BalanceChange & { decimals?: number }>>()
+
+  const apply = (address: string, transfer: AssetTransfer, delta: bigint) => {
+    const account = address.toLowerCase()
+    if (account === zeroAddress) return
+    const assetKey = `${transfer.token ?? 'native'}:${transfer.tokenId ?? ''}`
+    const assets = changes.get(account) ?? new Map()
+    const change = assets.get(assetKey) ?? {
+      token: transfer.token,
+      standard: transfer.standard,
+      ...(transfer.tokenId !== undefined ? { tokenId: transfer.tokenId } : {}),
+      symbol: transfer.symbol,
+      decimals: transfer.decimals,
+      delta: 0n
+    }
+    change.delta += delta
+    assets.set(assetKey, change)
+    changes.set(account, assets)
+  }
+
+  for (const transfer of transfers) {
+    apply(transfer.from, transfer, -transfer.amount)
+    apply(transfer.to, transfer, transfer.amount)
+  }
+
+  const table: Record<string, BalanceChange[]> = {}
+  for (const [account, assets] of changes) {
+    const rows = [...assets.values()]
+      .filter((change) => change.delta !== 0n)
+      .map(({ decimals, ...change }) => ({
+        ...change,
+        ...(decimals !== undefined ? { deltaFormatted: formatUnits(change.delta, decimals) } : {})
+      }))
+    if (rows.length > 0) table[account] = rows
+  }
+  return table
+}
+
+export interface TransferAnalysis {
+  transfers: AssetTransfer[]
+  balanceChanges: Record<string, BalanceChange[]>
+  gasFee?: { payer: string; amount: bigint }
+  // 'trace' when internal native transfers come from the callTracer, 'transaction' when only the
+  // top-level value is known because the RPC has no debug tracing
+  nativeTransfersSource: 'trace' | 'transaction'
+  traceError?: string
+}
+
+// All asset movements of a mined transaction and the resulting net balance change per address
+export async function analyzeTransactionTransfers(
+  chainName: ChainName,
+  hash: Hash,
+  options: { includeGasFee?: boolean } = {}
+): Promise<TransferAnalysis> {
+  const client = getClientManager().getClient(chainName)
+  const [transaction, receipt] = await Promise.all([
+    client.getTransaction({ hash }),
+    client.getTransactionReceipt({ hash })
+  ])
+  const nativeCurrency = client.chain?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 }
+
+  const { trace, error: traceError } = await fetchCallTrace(chainName, hash)
+  let native: AssetTransfer[]
+  if (trace) {
+    native = extractNativeTransfers(trace)
+  } else {
+    const to = transaction.to ?? receipt.contractAddress
+    native =
+      receipt.status === 'success' && transaction.value > 0n && to
+        ? [
+            {
+              standard: 'native',
+              token: null,
+              from: transaction.from.toLowerCase(),
+              to: to.toLowerCase(),
+              amount: transaction.value,
+              depth: 0
+            }
+          ]
+        : []
+  }
+
+  const tokenTransfers = extractTokenTransfers(receipt.logs, { wrappedNative: getWrappedNativeToken(chainName) })
+  const metadata = await fetchTokenMetadata(chainName, tokenTransfers.map((transfer) => transfer.token!))
+  const transfers = applyTokenMetadata([...native, ...tokenTransfers], metadata, nativeCurrency)
+
+  const analysis: TransferAnalysis = {
+    transfers,
+    balanceChanges: {},
+    nativeTransfersSource: trace ? 'trace' : 'transaction',
+    ...(traceError ? { traceError } : {})
+  }
+
+  const movements = [...transfers]
+  if (options.includeGasFee ?? true) {
+    // Same total as get_transactions, including the L1 data fee on OP-stack chains
+    const amount = getFeeBreakdown(transaction, receipt, null, nativeCurrency.symbol).totalFee
+    analysis.gasFee = { payer: transaction.from, amount }
+    // The fee leaves the sender; modelled as a transfer to the zero address, which is not tabulated
+    movements.push({
+      standard: 'native',
+      token: null,
+      from: transaction.from,
+      to: zeroAddress,
+      amount,
+      symbol: nativeCurrency.symbol,
+      decimals: nativeCurrency.decimals
+    })
+  }
+  analysis.balanceChanges = computeBalanceChanges(movements)
+  return analysis
+}
@@ -1,4 +1,4 @@
-import type { AbiParameter } from 'viem'
+import type { AbiParameter, BlockTag } from 'viem'
 
 // Define AbiError type since it's not exported by viem
 export interface AbiError {
@@ -7,17 +7,104 @@ export interface AbiError {
   inputs: readonly AbiParameter[]
 }
 
+// Per-chain configuration overrides. Entries for names that are not built in define custom chains
+export interface ChainSettings {
+  rpc?: string[]
+  defaultBlockTag?: BlockTag
+  maxBlockLag?: number
+  chainId?: number
+  name?: string
+  nativeCurrency?: { name: string; symbol: string; decimals: number }
+  explorerUrl?: string
+  explorerApiUrl?: string
+  explorerType?: 'etherscan' | 'blockscout'
+  contractProviders?: ContractProviderName[]
+  multicall3?: string
+  hypersyncUrl?: string
+  testnet?: boolean
+}
+
+// Contract data cache. "filesystem" persists entries under `directory` across restarts
+export interface CacheSettings {
+  type?: 'memory' | 'filesystem'
+  directory?: string
+  maxSizeMb?: number
+}
+
+// Sources of verified contract data (ABI, source code), tried in the configured order
+export type ContractProviderName = 'etherscan' | 'sourcify' | 'blockscout'
+
+// Etherscan client limits, applied per API key
+export interface EtherscanSettings {
+  requestsPerSecond?: number
+  maxRetries?: number
+}
+
+// Local anvil fork options
+export interface AnvilSettings {
+  path?: string
+}
+
+// Headless signing on dev chains (anvil, hardhat, the fork). privateKey signs locally; without it
+// transactions are sent from the node's unlocked or impersonated accounts
+export interface DevSignerSettings {
+  chains?: string[]
+  privateKey?: string
+}
+
+// Per-chain limits for the keystore and mnemonic signers; amounts are decimal (e.g. "0.1"), in native or token units
+export interface SpendingPolicy {
+  maxValue?: string
+  // Total value sent over the last 24 hours by this server process; a restart resets it
+  dailyLimit?: string
+  // Transaction targets (recipients or contracts) the signer may send to; omitted allows any
+  allowedAddresses?: string[]
+  // ERC20 transfer, transferFrom, approve and increaseAllowance amounts per token address, in token units
+  tokenLimits?: Record<string, { maxAmount?: string; dailyLimit?: string }>
+  // Allow calldata other than the ERC20 calls of tokens listed in tokenLimits
+  allowContractCalls?: boolean
+}
+
+// Signer used for transactions outside dev chains. browser (the default) asks the connected wallet;
+// keystore and mnemonic sign locally, only on chains listed in policies
+export interface SignerSettings {
+  type: 'browser' | 'keystore' | 'mnemonic'
+  keystore?: {
+    path: string
+    // Environment variable holding the keystore password (default: KEYSTORE_PASSWORD)
+    passwordEnv?: string
+  }
+  mnemonic?: {
+    // Environment variable holding the phrase (default: SIGNER_MNEMONIC)
+    env?: string
+    accountIndex?: number
+    addressIndex?: number
+  }
+  signMessages?: boolean
+  policies?: Record<string, SpendingPolicy>
+}
+
 // Configuration interface
 export interface Config {
   etherscanApiKey?: string
+  etherscanApiKeys?: string[]
+  etherscan?: EtherscanSettings
   alchemyApiKey?: string
   infuraApiKey?: string
   customRpcUrls?: Record<string, string>
   hypersyncApiKey?: string
+  defaultBlockTag?: BlockTag
+  chains?: Record<string, ChainSettings>
+  cache?: CacheSettings
+  contractProviders?: ContractProviderName[]
+  sourcifyApiUrl?: string
+  anvil?: AnvilSettings
+  devSigner?: DevSignerSettings
+  signer?: SignerSettings
 }
 
-// Chain names
-export type ChainName =
+// Built-in chain names
+export type BuiltinChainName =
   | 'mainnet'
   | 'arbitrum'
   | 'avalanche'
@@ -30,8 +117,22 @@ export type ChainName =
   | 'zksync'
   | 'linea'
   | 'unichain'
+  | 'sepolia'
+  | 'holesky'
+  | 'base-sepolia'
+  | 'arbitrum-sepolia'
+  | 'optimism-sepolia'
+  | 'polygon-amoy'
+  | 'avalanche-fuji'
+  | 'bnb-testnet'
+  | 'linea-sepolia'
+  | 'zksync-sepolia'
+  | 'unichain-sepolia'
   | 'localhost'
 
+// Chain names, including custom chains registered from config
+export type ChainName = BuiltinChainName | (string & {})
+
 // Tool handler result type
 export interface ToolResult {
   [x: string]: unknown
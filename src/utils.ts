@@ -1,6 +1,7 @@
 import type { AbiParameter } from 'viem'
-import type { ToolResult } from './types.js'
+import type { Config, ContractProviderName, ToolResult } from './types.js'
 import { z } from 'zod'
+import { loadConfigFile } from './config.js'
 
 // Create tool helper
 export function createTool<T extends z.ZodType>(
@@ -168,21 +169,28 @@ export function formatResponse(data: unknown): ToolResult {
   }
 }
 
-// Parse command line arguments
-export function parseCommandLineArgs(): {
-  etherscanApiKey?: string
-  alchemyApiKey?: string
-  infuraApiKey?: string
-  customRpcUrls?: Record<string, string>
-  hypersyncApiKey?: string
+// Parse command line arguments, environment variables and the optional config file.
+// Precedence: environment variables > command line flags > config file profile > config file defaults
+export function parseCommandLineArgs(): Config & {
+  transport?: 'stdio' | 'http'
+  httpPort?: number
+  httpHost?: string
+  authToken?: string
+  allowedOrigins?: string[]
+  configPath?: string
+  profile?: string
+  clearCache?: boolean
   showHelp?: boolean
 } {
-  const config: {
-    etherscanApiKey?: string
-    alchemyApiKey?: string
-    infuraApiKey?: string
-    customRpcUrls?: Record<string, string>
-    hypersyncApiKey?: string
+  const config: Config & {
+    transport?: 'stdio' | 'http'
+    httpPort?: number
+    httpHost?: string
+    authToken?: string
+    allowedOrigins?: string[]
+    configPath?: string
+    profile?: string
+    clearCache?: boolean
     showHelp?: boolean
   } = {}
 
@@ -202,20 +210,95 @@ export function parseCommandLineArgs(): {
     return config
   }
 
+  // Load config file first so env vars and flags can override it
+  config.configPath = process.env.WEB3_TOOLS_CONFIG || getArgValue('--config')
+  config.profile = process.env.WEB3_TOOLS_PROFILE || getArgValue('--profile')
+  if (config.profile && !config.configPath) {
+    throw new Error('--profile requires a config file (--config <path>)')
+  }
+  const fileConfig = config.configPath ? loadConfigFile(config.configPath, config.profile) : {}
+
   // Parse environment variables and command line arguments
-  config.etherscanApiKey = process.env.ETHERSCAN_API_KEY || getArgValue('--etherscan-api-key')
-  config.alchemyApiKey = process.env.ALCHEMY_API_KEY || getArgValue('--alchemy-api-key')
-  config.infuraApiKey = process.env.INFURA_API_KEY || getArgValue('--infura-api-key')
-  config.hypersyncApiKey = process.env.HYPERSYNC_API_KEY || getArgValue('--hypersync-api-key')
+  // Several Etherscan keys can be given comma-separated; they are rotated round-robin
+  const etherscanKeys = process.env.ETHERSCAN_API_KEY || getArgValue('--etherscan-api-key')
+  config.etherscanApiKeys = etherscanKeys
+    ? etherscanKeys.split(',').map(key => key.trim()).filter(Boolean)
+    : fileConfig.etherscanApiKeys ?? (fileConfig.etherscanApiKey ? [fileConfig.etherscanApiKey] : undefined)
+  config.etherscanApiKey = config.etherscanApiKeys?.[0]
+  config.etherscan = fileConfig.etherscan
+  config.alchemyApiKey = process.env.ALCHEMY_API_KEY || getArgValue('--alchemy-api-key') || fileConfig.alchemyApiKey
+  config.infuraApiKey = process.env.INFURA_API_KEY || getArgValue('--infura-api-key') || fileConfig.infuraApiKey
+  config.hypersyncApiKey = process.env.HYPERSYNC_API_KEY || getArgValue('--hypersync-api-key') || fileConfig.hypersyncApiKey
+  config.defaultBlockTag = fileConfig.defaultBlockTag
+  config.chains = fileConfig.chains
+
+  // Parse contract data provider priority, e.g. "sourcify,etherscan"
+  const providers = getArgValue('--contract-providers')
+  if (providers) {
+    const names = providers.split(',').map(name => name.trim())
+    const invalid = names.filter(name => !['etherscan', 'sourcify', 'blockscout'].includes(name))
+    if (invalid.length > 0) {
+      throw new Error(
+        `Invalid --contract-providers value: ${invalid.join(', ')}. Expected "etherscan", "sourcify" or "blockscout"`
+      )
+    }
+    config.contractProviders = names as ContractProviderName[]
+  } else {
+    config.contractProviders = fileConfig.contractProviders
+  }
+  config.sourcifyApiUrl = fileConfig.sourcifyApiUrl
+  config.anvil = process.env.ANVIL_PATH ? { ...fileConfig.anvil, path: process.env.ANVIL_PATH } : fileConfig.anvil
+  config.devSigner = process.env.DEV_SIGNER_PRIVATE_KEY
+    ? { ...fileConfig.devSigner, privateKey: process.env.DEV_SIGNER_PRIVATE_KEY }
+    : fileConfig.devSigner
+  config.signer = fileConfig.signer
+
+  // Parse cache options; a cache directory implies the filesystem cache
+  const cacheDir = process.env.WEB3_TOOLS_CACHE_DIR || getArgValue('--cache-dir')
+  config.cache = cacheDir ? { ...fileConfig.cache, type: 'filesystem', directory: cacheDir } : fileConfig.cache
+  config.clearCache = hasArg('--clear-cache')
+
+  // Parse transport options
+  const transport = process.env.MCP_TRANSPORT || getArgValue('--transport') || fileConfig.transport || 'stdio'
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid --transport value: ${transport}. Expected "stdio" or "http"`)
+  }
+  config.transport = transport
+
+  const port = process.env.MCP_HTTP_PORT || getArgValue('--port')
+  if (port) {
+    config.httpPort = Number.parseInt(port)
+    if (!Number.isInteger(config.httpPort) || config.httpPort < 0 || config.httpPort > 65535) {
+      throw new Error(`Invalid --port value: ${port}`)
+    }
+  } else {
+    config.httpPort = fileConfig.http?.port
+  }
+  config.httpHost = process.env.MCP_HTTP_HOST || getArgValue('--host') || fileConfig.http?.host
+  config.authToken = process.env.MCP_AUTH_TOKEN || getArgValue('--auth-token') || fileConfig.http?.authToken
+  const allowedOrigins = process.env.MCP_ALLOWED_ORIGINS || getArgValue('--allowed-origins')
+  config.allowedOrigins = allowedOrigins
+    ? allowedOrigins.split(',').map(origin => origin.trim()).filter(Boolean)
+    : fileConfig.http?.allowedOrigins
 
   // Parse custom RPC URLs
   const customRpcs = getArgValue('--custom-rpc')
   if (customRpcs) {
+    let parsed: unknown
     try {
-      config.customRpcUrls = JSON.parse(customRpcs)
+      parsed = JSON.parse(customRpcs)
     } catch {
-      console.error('Invalid JSON for --custom-rpc:', customRpcs)
+      throw new Error(`Invalid JSON for --custom-rpc: ${customRpcs}`)
+    }
+    const result = z.record(z.string(), z.string().url()).safeParse(parsed)
+    if (!result.success) {
+      throw new Error(
+        `Invalid --custom-rpc value. Expected an object mapping chain names to RPC URLs: ${result.error.issues
+          .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join(', ')}`
+      )
     }
+    config.customRpcUrls = result.data
   }
 
   return config
@@ -5,6 +5,11 @@ import { createServer } from 'http'
 import { fileURLToPath } from 'url'
 import { dirname, join } from 'path'
 import { exec } from 'child_process'
+import { type Address, type Hex, isAddress, isHex } from 'viem'
+import { FORK_CHAIN, getCustomChains, SUPPORTED_CHAINS } from './client.js'
+import { previewAssetChanges } from './simulation.js'
+import type { ChainName } from './types.js'
+import { convertBigIntToString } from './utils.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -54,6 +59,50 @@ export class WalletServer {
       res.sendFile(join(__dirname, '..', 'public', 'wallet.html'))
     })
 
+    // Custom chains from the server config, in the wallet app's CHAIN_CONFIGS format
+    this.app.get('/chains', (_req, res) => {
+      res.json(
+        Object.fromEntries(
+          getCustomChains().map(({ name, chain }) => [
+            name,
+            {
+              chainId: `0x${chain.id.toString(16)}`,
+              name: chain.name,
+              explorer: chain.blockExplorers?.default.url,
+              rpcUrls: chain.rpcUrls.default.http,
+              nativeCurrency: chain.nativeCurrency
+            }
+          ])
+        )
+      )
+    })
+
+    // Asset changes of a pending transaction for the approval screen; the wallet app supplies the
+    // connected account as the sender
+    this.app.post('/preview', async (req, res) => {
+      const { chain, from, to, data, value } = req.body ?? {}
+      if (!SUPPORTED_CHAINS.includes(chain) || !isAddress(from) || (to !== undefined && !isAddress(to))) {
+        res.status(400).json({ error: 'chain, from and to must be a configured chain and valid addresses' })
+        return
+      }
+      if ((data !== undefined && !isHex(data)) || (value !== undefined && !isHex(value))) {
+        res.status(400).json({ error: 'data and value must be hex' })
+        return
+      }
+
+      try {
+        const preview = await previewAssetChanges(chain as ChainName, {
+          from: from as Address,
+          to: to as Address | undefined,
+          data: data as Hex | undefined,
+          value: value !== undefined ? BigInt(value) : undefined
+        })
+        res.json(convertBigIntToString(preview))
+      } catch (error) {
+        res.status(502).json({ error: error instanceof Error ? error.message.split('\n')[0] : String(error) })
+      }
+    })
+
     this.app.get('/health', (_req, res) => {
       res.json({
         status: 'ok',
@@ -206,6 +255,11 @@ export class WalletServer {
   }
 
   async sendTransaction(request: TransactionRequest): Promise<unknown> {
+    // The fork shares the forked chain's ID, so a browser wallet would sign for the real network
+    if (request.chain === FORK_CHAIN) {
+      throw new Error(`The browser wallet cannot sign for the local "${FORK_CHAIN}" chain; add it to devSigner.chains`)
+    }
+
     if (!this.isStarted) {
       await this.start()
     }
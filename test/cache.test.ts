@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createCacheStore, FileSystemCacheStore, MemoryCacheStore, TieredCacheStore } from '../src/cache.js'
+
+describe('Contract Cache', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'web3-tools-cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should keep entries in memory by default', async () => {
+    const cache = createCacheStore<{ name: string }>()
+    expect(cache).toBeInstanceOf(MemoryCacheStore)
+
+    await cache.set('1:0xabc', { name: 'Token' })
+    expect(await cache.get('1:0xabc')).toEqual({ name: 'Token' })
+    expect(await cache.clear('1:')).toBe(1)
+    expect(await cache.get('1:0xabc')).toBeUndefined()
+  })
+
+  it('should persist entries on disk keyed by chainId and address', async () => {
+    const key = '1:0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+    await new FileSystemCacheStore(dir).set(key, { name: 'USDC' })
+
+    expect(existsSync(join(dir, '1', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48.json'))).toBe(true)
+
+    // A fresh store (e.g. after a restart) reads the same entry
+    const reopened = new FileSystemCacheStore<{ name: string }>(dir)
+    expect(await reopened.get(key)).toEqual({ name: 'USDC' })
+    expect((await reopened.stats()).entries).toBe(1)
+  })
+
+  it('should evict least recently used entries beyond the size limit', async () => {
+    const entry = { data: 'x'.repeat(100) }
+    const size = JSON.stringify(entry).length
+    const cache = new FileSystemCacheStore<typeof entry>(dir, size * 2)
+
+    await cache.set('1:0x01', entry)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await cache.set('1:0x02', entry)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await cache.get('1:0x01')
+    await cache.set('1:0x03', entry)
+
+    expect(await cache.get('1:0x02')).toBeUndefined()
+    expect(await cache.get('1:0x01')).toEqual(entry)
+    expect(await cache.get('1:0x03')).toEqual(entry)
+    expect((await cache.stats()).sizeBytes).toBeLessThanOrEqual(size * 2)
+  })
+
+  it('should invalidate single entries, chains or everything', async () => {
+    const cache = new TieredCacheStore(new FileSystemCacheStore<number>(dir))
+    await cache.set('1:0x01', 1)
+    await cache.set('1:0x02', 2)
+    await cache.set('8453:0x01', 3)
+
+    expect(await cache.delete('1:0x01')).toBe(true)
+    expect(await cache.get('1:0x01')).toBeUndefined()
+    expect(await cache.clear('1:')).toBe(1)
+    expect(await cache.get('8453:0x01')).toBe(3)
+    expect(await cache.clear()).toBe(1)
+    expect((await cache.stats()).entries).toBe(0)
+  })
+})
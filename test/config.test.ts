@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { loadConfigFile, resolveProfile, validateConfigFile } from '../src/config.js'
+import { BUILTIN_CHAINS, ClientManager, HYPERSYNC_URLS, registerCustomChains, SUPPORTED_CHAINS } from '../src/client.js'
+import { parseCommandLineArgs } from '../src/utils.js'
+
+describe('Config File', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'web3-tools-config-'))
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('validateConfigFile', () => {
+    it('should normalize a single RPC URL into a list', () => {
+      const file = validateConfigFile({ chains: { mainnet: { rpc: 'https://rpc.example.com' } } })
+      expect(file.chains?.mainnet?.rpc).toEqual(['https://rpc.example.com'])
+    })
+
+    it('should report the path of invalid values', () => {
+      expect(() => validateConfigFile({ chains: { mainnet: { rpc: ['not-a-url'] } } })).toThrow(
+        /chains\.mainnet\.rpc\.0/
+      )
+    })
+
+    it('should reject unknown keys and chains', () => {
+      expect(() => validateConfigFile({ etherscanKey: 'abc' })).toThrow(/Unrecognized key/)
+      expect(() => resolveProfile(validateConfigFile({ chains: { notachain: {} } }))).toThrow(
+        /Unknown chain "notachain"/
+      )
+    })
+
+    it('should reject invalid block tags', () => {
+      expect(() => validateConfigFile({ defaultBlockTag: 'newest' })).toThrow(/defaultBlockTag/)
+    })
+  })
+
+  describe('resolveProfile', () => {
+    const file = validateConfigFile({
+      etherscanApiKey: 'base-key',
+      defaultBlockTag: 'latest',
+      chains: { mainnet: { rpc: 'https://base.example.com', defaultBlockTag: 'safe' } },
+      defaultProfile: 'dev',
+      profiles: {
+        dev: { chains: { base: { rpc: 'https://dev-base.example.com' } } },
+        prod: {
+          etherscanApiKey: 'prod-key',
+          chains: { mainnet: { rpc: ['https://a.example.com', 'https://b.example.com'] } }
+        }
+      }
+    })
+
+    it('should apply the default profile when none is requested', () => {
+      const settings = resolveProfile(file)
+      expect(settings.etherscanApiKey).toBe('base-key')
+      expect(settings.chains?.base?.rpc).toEqual(['https://dev-base.example.com'])
+      expect(settings.chains?.mainnet?.rpc).toEqual(['https://base.example.com'])
+    })
+
+    it('should merge chain settings from the requested profile', () => {
+      const settings = resolveProfile(file, 'prod')
+      expect(settings.etherscanApiKey).toBe('prod-key')
+      expect(settings.chains?.mainnet?.rpc).toEqual(['https://a.example.com', 'https://b.example.com'])
+      expect(settings.chains?.mainnet?.defaultBlockTag).toBe('safe')
+    })
+
+    it('should list available profiles when the profile is missing', () => {
+      expect(() => resolveProfile(file, 'staging')).toThrow(/Available profiles: dev, prod/)
+    })
+  })
+
+  describe('loadConfigFile', () => {
+    it('should load YAML files', () => {
+      const path = join(dir, 'web3-tools.yaml')
+      writeFileSync(
+        path,
+        ['alchemyApiKey: yaml-key', 'chains:', '  base:', '    rpc:', '      - https://base.example.com'].join('\n')
+      )
+
+      const settings = loadConfigFile(path)
+      expect(settings.alchemyApiKey).toBe('yaml-key')
+      expect(settings.chains?.base?.rpc).toEqual(['https://base.example.com'])
+    })
+
+    it('should load JSON files', () => {
+      const path = join(dir, 'web3-tools.json')
+      writeFileSync(path, JSON.stringify({ profiles: { dev: { infuraApiKey: 'json-key' } } }))
+
+      expect(loadConfigFile(path, 'dev').infuraApiKey).toBe('json-key')
+    })
+
+    it('should fail with a clear message on malformed files', () => {
+      const path = join(dir, 'broken.json')
+      writeFileSync(path, '{ "chains": ')
+
+      expect(() => loadConfigFile(path)).toThrow(/Failed to parse config file/)
+      expect(() => loadConfigFile(join(dir, 'missing.json'))).toThrow(/Failed to read config file/)
+    })
+  })
+
+  describe('parseCommandLineArgs', () => {
+    const originalArgv = process.argv
+
+    afterEach(() => {
+      process.argv = originalArgv
+    })
+
+    it('should merge config file values below CLI flags', () => {
+      const path = join(dir, 'cli.json')
+      writeFileSync(path, JSON.stringify({ alchemyApiKey: 'file-key', hypersyncApiKey: 'file-hypersync' }))
+      process.argv = ['node', 'index.js', '--config', path, '--hypersync-api-key', 'cli-hypersync']
+
+      const config = parseCommandLineArgs()
+      expect(config.alchemyApiKey).toBe(process.env.ALCHEMY_API_KEY || 'file-key')
+      expect(config.hypersyncApiKey).toBe(process.env.HYPERSYNC_API_KEY || 'cli-hypersync')
+    })
+
+    it('should enable the filesystem cache from --cache-dir', () => {
+      const path = join(dir, 'cache.json')
+      writeFileSync(path, JSON.stringify({ cache: { maxSizeMb: 50 } }))
+      process.argv = ['node', 'index.js', '--config', path, '--cache-dir', join(dir, 'cache')]
+
+      expect(parseCommandLineArgs().cache).toEqual({
+        type: 'filesystem',
+        directory: process.env.WEB3_TOOLS_CACHE_DIR || join(dir, 'cache'),
+        maxSizeMb: 50
+      })
+    })
+
+    it('should reject invalid --custom-rpc JSON instead of ignoring it', () => {
+      process.argv = ['node', 'index.js', '--custom-rpc', '{mainnet:']
+      expect(() => parseCommandLineArgs()).toThrow(/Invalid JSON for --custom-rpc/)
+    })
+  })
+
+  describe('ClientManager block parameters', () => {
+    const clientManager = new ClientManager({
+      defaultBlockTag: 'safe',
+      chains: { base: { defaultBlockTag: 'finalized' } }
+    })
+
+    it('should use per-chain and global default block tags', () => {
+      expect(clientManager.getBlockParameter('base')).toEqual({ blockTag: 'finalized' })
+      expect(clientManager.getBlockParameter('mainnet')).toEqual({ blockTag: 'safe' })
+    })
+
+    it('should prefer explicit block numbers and tags', () => {
+      expect(clientManager.getBlockParameter('mainnet', '18000000')).toEqual({ blockNumber: 18000000n })
+      expect(clientManager.getBlockParameter('mainnet', 'latest')).toEqual({ blockTag: 'latest' })
+    })
+  })
+
+  describe('Built-in chains', () => {
+    const clientManager = new ClientManager({})
+
+    it('should define a chain, RPC and explorer for every built-in network', () => {
+      for (const chainName of BUILTIN_CHAINS) {
+        const entry = clientManager.getChainEntry(chainName)
+        expect(entry.rpc).toMatch(/^https?:\/\//)
+        expect(clientManager.getEtherscanDomain(chainName)).toBeTruthy()
+      }
+    })
+
+    it('should map testnets to their own chain IDs and endpoints', () => {
+      expect(clientManager.getChainId('sepolia')).toBe(11155111)
+      expect(clientManager.getChainId('base-sepolia')).toBe(84532)
+      expect(clientManager.getChainId('polygon-amoy')).toBe(80002)
+      expect(clientManager.getEtherscanDomain('optimism-sepolia')).toBe('sepolia-optimism.etherscan.io')
+      expect(HYPERSYNC_URLS['arbitrum-sepolia']).toBe('https://arbitrum-sepolia.hypersync.xyz')
+      expect(clientManager.getChainEntry('unichain').rpc).not.toContain('sepolia')
+    })
+  })
+
+  describe('Custom chains', () => {
+    it('should require chainId and rpc once profiles are merged', () => {
+      const file = validateConfigFile({
+        chains: { devnet: { chainId: 424242 } },
+        profiles: { dev: { chains: { devnet: { rpc: 'http://devnet.example.com:8545' } } } }
+      })
+
+      expect(() => resolveProfile(file)).toThrow(/chains\.devnet\.rpc/)
+      expect(resolveProfile(file, 'dev').chains?.devnet).toEqual({
+        chainId: 424242,
+        rpc: ['http://devnet.example.com:8545']
+      })
+    })
+
+    it('should not allow changing the identity of built-in chains', () => {
+      expect(() => validateConfigFile({ chains: { mainnet: { chainId: 5 } } })).toThrow(/chains\.mainnet\.chainId/)
+    })
+
+    it('should reserve the fork chain name', () => {
+      expect(() =>
+        validateConfigFile({ chains: { fork: { chainId: 1, rpc: ['http://127.0.0.1:8545'] } } })
+      ).toThrow(/reserved for the local fork/)
+    })
+
+    it('should keep public chains out of the dev signer', () => {
+      expect(() => validateConfigFile({ devSigner: { chains: ['localhost', 'mainnet'] } })).toThrow(/devSigner\.chains\.1/)
+      expect(() => validateConfigFile({ devSigner: { privateKey: '0x1234' } })).toThrow(/32-byte hex private key/)
+      expect(new ClientManager({ devSigner: { chains: ['localhost', 'my-devnet'] } }).isDevChain('fork')).toBe(false)
+      expect(new ClientManager({}).isDevChain('fork')).toBe(true)
+    })
+
+    it('should require an explorer URL for Blockscout chains', () => {
+      expect(() => resolveProfile(validateConfigFile({ chains: { base: { explorerType: 'blockscout' } } }))).toThrow(
+        /chains\.base\.explorerUrl/
+      )
+      const clientManager = new ClientManager({
+        chains: { base: { explorerType: 'blockscout', explorerUrl: 'https://base.blockscout.com/' } }
+      })
+      expect(clientManager.getExplorerApiUrl('base')).toBe('https://base.blockscout.com/api')
+      expect(new ClientManager({}).getExplorerUrl('localhost')).toBeNull()
+    })
+
+    it('should reject invalid custom chain names', () => {
+      expect(() => validateConfigFile({ chains: { 'My Chain': { chainId: 1 } } })).toThrow(/lowercase/)
+    })
+
+    it('should register custom chains for every tool', () => {
+      const config = {
+        chains: {
+          devnet: {
+            chainId: 424242,
+            name: 'Team Devnet',
+            rpc: ['http://devnet.example.com:8545'],
+            nativeCurrency: { name: 'Dev Ether', symbol: 'DETH', decimals: 18 },
+            explorerUrl: 'https://explorer.devnet.example.com',
+            explorerApiUrl: 'https://explorer.devnet.example.com/api',
+            multicall3: '0xcA11bde05977b3631167028862bE2a173976CA11',
+            hypersyncUrl: 'https://devnet.hypersync.example.com'
+          }
+        }
+      }
+      registerCustomChains(config)
+      const clientManager = new ClientManager(config)
+
+      expect(SUPPORTED_CHAINS).toContain('devnet')
+      expect(HYPERSYNC_URLS.devnet).toBe('https://devnet.hypersync.example.com')
+      expect(clientManager.getChainId('devnet')).toBe(424242)
+      expect(clientManager.getExplorerApiUrl('devnet')).toBe('https://explorer.devnet.example.com/api')
+      expect(clientManager.getEtherscanDomain('devnet')).toBe('explorer.devnet.example.com')
+
+      const client = clientManager.getClient('devnet')
+      expect(client.chain?.nativeCurrency.symbol).toBe('DETH')
+      expect(client.chain?.contracts?.multicall3?.address).toBe('0xcA11bde05977b3631167028862bE2a173976CA11')
+    })
+
+    it('should fail clearly for unknown chains', () => {
+      const clientManager = new ClientManager({})
+      expect(() => clientManager.getClient('unknown-chain')).toThrow(/Unsupported chain: unknown-chain/)
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { initializeClientManager } from '../src/client.js'
+import {
+  fetchAddressTransactions,
+  fetchContractInfo,
+  fetchCreationInfo,
+  getContractProviders,
+  parseEtherscanSourceCode
+} from '../src/contract-providers.js'
+
+const VERIFIED = '0x1111111111111111111111111111111111111111'
+const PARTIAL = '0x2222222222222222222222222222222222222222'
+const UNKNOWN = '0x3333333333333333333333333333333333333333'
+
+const abi = [{ type: 'function', name: 'totalSupply', inputs: [], outputs: [{ type: 'uint256' }], stateMutability: 'view' }]
+
+// Fake Etherscan (/etherscan) and Sourcify (/sourcify) APIs. Etherscan only knows VERIFIED
+function startProviderServer(): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      res.setHeader('Content-Type', 'application/json')
+
+      if (url.pathname.startsWith('/etherscan')) {
+        const known = url.searchParams.get('address')?.toLowerCase() === VERIFIED
+        res.end(
+          JSON.stringify({
+            status: '1',
+            message: 'OK',
+            result: [
+              {
+                SourceCode: known ? 'contract Token {}' : '',
+                ABI: known ? JSON.stringify(abi) : 'Contract source code not verified',
+                ContractName: known ? 'Token' : '',
+                CompilerVersion: 'v0.8.20+commit.a1b79de6',
+                OptimizationUsed: '1',
+                Runs: '200',
+                ConstructorArguments: '',
+                EVMVersion: 'paris',
+                Library: '',
+                LicenseType: 'MIT',
+                Proxy: '0',
+                Implementation: '',
+                SwarmSource: ''
+              }
+            ]
+          })
+        )
+        return
+      }
+
+      const address = url.pathname.split('/').pop()?.toLowerCase()
+      if (address !== PARTIAL) {
+        res.statusCode = 404
+        res.end(JSON.stringify({ customCode: 'not_found' }))
+        return
+      }
+      res.end(
+        JSON.stringify({
+          match: 'match',
+          abi,
+          sources: { 'contracts/Vault.sol': { content: 'contract Vault {}' } },
+          metadata: {
+            compiler: { version: '0.8.24+commit.e11b9ed9' },
+            settings: {
+              compilationTarget: { 'contracts/Vault.sol': 'Vault' },
+              evmVersion: 'shanghai',
+              optimizer: { enabled: true, runs: 1000 }
+            },
+            sources: { 'contracts/Vault.sol': { license: 'GPL-3.0' } }
+          },
+          storageLayout: { storage: [], types: null }
+        })
+      )
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` })
+    })
+  })
+}
+
+// Fake Blockscout explorer serving the v2 REST API and the Etherscan-compatible /api
+function startBlockscoutServer(): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      res.setHeader('Content-Type', 'application/json')
+
+      if (url.pathname === `/api/v2/smart-contracts/${VERIFIED}`) {
+        res.end(
+          JSON.stringify({
+            is_verified: true,
+            name: 'TransparentProxy',
+            abi,
+            file_path: 'contracts/Proxy.sol',
+            source_code: 'contract TransparentProxy {}',
+            additional_sources: [{ file_path: 'contracts/Lib.sol', source_code: 'library Lib {}' }],
+            compiler_version: 'v0.8.19+commit.7dd6d404',
+            optimization_enabled: true,
+            optimization_runs: 200,
+            proxy_type: 'eip1967',
+            implementations: [{ address: PARTIAL, name: 'Vault' }]
+          })
+        )
+      } else if (url.pathname === `/api/v2/addresses/${VERIFIED}`) {
+        res.end(JSON.stringify({ creator_address_hash: UNKNOWN, creation_transaction_hash: '0xabc' }))
+      } else if (url.pathname === '/api' && url.searchParams.get('action') === 'txlist') {
+        res.end(
+          JSON.stringify({
+            status: '1',
+            message: 'OK',
+            result: [
+              {
+                blockNumber: '100',
+                timeStamp: '1700000000',
+                hash: '0xdef',
+                from: UNKNOWN,
+                to: VERIFIED,
+                value: '0',
+                gasUsed: '21000',
+                gasPrice: '1000000000',
+                isError: '1',
+                input: '0xa9059cbb0000'
+              }
+            ]
+          })
+        )
+      } else {
+        res.statusCode = 404
+        res.end(JSON.stringify({ message: 'Not found' }))
+      }
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` })
+    })
+  })
+}
+
+describe('Contract Providers', () => {
+  let server: Server
+  let blockscout: Server
+
+  beforeAll(async () => {
+    const started = await startProviderServer()
+    const explorer = await startBlockscoutServer()
+    server = started.server
+    blockscout = explorer.server
+    initializeClientManager({
+      etherscanApiKey: 'test-key',
+      sourcifyApiUrl: `${started.url}/sourcify`,
+      chains: {
+        mainnet: { explorerApiUrl: `${started.url}/etherscan` },
+        base: { explorerType: 'blockscout', explorerUrl: explorer.url }
+      }
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    await new Promise((resolve) => blockscout.close(resolve))
+  })
+
+  it('should use the first provider that has verified source', async () => {
+    const info = await fetchContractInfo('mainnet', VERIFIED)
+    expect(info.source).toBe('etherscan')
+    expect(info.contractName).toBe('Token')
+    expect(info.abi).toEqual(abi)
+    expect(info.sourceFiles).toEqual({ 'Token.sol': 'contract Token {}' })
+  })
+
+  it('should fall back to Sourcify and parse its metadata', async () => {
+    const info = await fetchContractInfo('mainnet', PARTIAL)
+    expect(info.source).toBe('sourcify')
+    expect(info.match).toBe('partial')
+    expect(info.contractName).toBe('Vault')
+    expect(info.compilerVersion).toBe('0.8.24+commit.e11b9ed9')
+    expect(info.optimizationRuns).toBe(1000)
+    expect(info.licenseType).toBe('GPL-3.0')
+    expect(info.sourceFiles['contracts/Vault.sol']).toBe('contract Vault {}')
+  })
+
+  it('should report unverified contracts when no provider has them', async () => {
+    const info = await fetchContractInfo('mainnet', UNKNOWN)
+    expect(info.verified).toBe(false)
+    expect(info.abi).toBeNull()
+  })
+
+  it('should use Blockscout instead of Etherscan on chains configured for it', async () => {
+    expect(getContractProviders('base').map((provider) => provider.name)).toEqual(['blockscout', 'sourcify'])
+
+    const info = await fetchContractInfo('base', VERIFIED)
+    expect(info.source).toBe('blockscout')
+    expect(info.isProxy).toBe(true)
+    expect(info.implementationAddress).toBe(PARTIAL)
+    expect(Object.keys(info.sourceFiles)).toEqual(['contracts/Proxy.sol', 'contracts/Lib.sol'])
+    expect(await fetchCreationInfo('base', VERIFIED)).toEqual({ creator: UNKNOWN, transactionHash: '0xabc' })
+  })
+
+  it('should list transactions from the Blockscout explorer', async () => {
+    const { source, transactions } = await fetchAddressTransactions('base', VERIFIED, { page: 1, pageSize: 10, sort: 'desc' })
+    expect(source).toBe('blockscout')
+    expect(transactions[0]).toMatchObject({
+      hash: '0xdef',
+      status: 'reverted',
+      methodId: '0xa9059cbb',
+      timestamp: '2023-11-14T22:13:20.000Z'
+    })
+  })
+
+  it('should parse Etherscan multi-file sources', () => {
+    const standardJson = `{${JSON.stringify({ language: 'Solidity', sources: { 'A.sol': { content: 'a' }, 'B.sol': { content: 'b' } } })}}`
+    expect(parseEtherscanSourceCode(standardJson, 'A')).toEqual({ 'A.sol': 'a', 'B.sol': 'b' })
+    expect(parseEtherscanSourceCode('contract A {}', 'A')).toEqual({ 'A.sol': 'contract A {}' })
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import type { Server } from 'http'
+import { defineChain, encodeAbiParameters, encodeErrorResult, encodeEventTopics, getAddress, type Hex, parseAbi } from 'viem'
+import { privateKeyToAddress } from 'viem/accounts'
+import { FORK_CHAIN, getClientManager, initializeClientManager } from '../src/client.js'
+import transactionTools from '../src/tools/transactions.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const UNLOCKED = getAddress('0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266')
+const WHALE = getAddress('0x00000000000000000000000000000000000a11ce')
+const TOKEN = getAddress('0x000000000000000000000000000000000000c0de')
+const DEV_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+const TX_HASH = `0x${'ab'.repeat(32)}` as Hex
+const erc20 = parseAbi(['event Transfer(address indexed from, address indexed to, uint256 value)'])
+
+const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text)
+
+describe('Dev chain signing', () => {
+  let server: Server
+  let url: string
+  let sender: string
+  let calls: Array<{ method: string; params: unknown[] }>
+  let impersonated: Set<string>
+  let revertWith: string | null
+
+  const receipt = () => ({
+    transactionHash: TX_HASH,
+    transactionIndex: '0x0',
+    blockHash: `0x${'11'.repeat(32)}`,
+    blockNumber: '0x65',
+    from: sender,
+    to: TOKEN,
+    status: '0x1',
+    type: '0x2',
+    gasUsed: '0xb41e',
+    cumulativeGasUsed: '0xb41e',
+    effectiveGasPrice: '0x3b9aca00',
+    contractAddress: null,
+    logsBloom: `0x${'00'.repeat(256)}`,
+    logs: [
+      {
+        address: TOKEN.toLowerCase(),
+        topics: encodeEventTopics({ abi: erc20, eventName: 'Transfer', args: { from: sender as Hex, to: UNLOCKED } }).map(
+          (topic) => (topic as Hex).toLowerCase()
+        ),
+        data: encodeAbiParameters([{ type: 'uint256' }], [5n]),
+        blockNumber: '0x65',
+        blockHash: `0x${'11'.repeat(32)}`,
+        transactionHash: TX_HASH,
+        transactionIndex: '0x0',
+        logIndex: '0x0',
+        removed: false
+      }
+    ]
+  })
+
+  beforeAll(async () => {
+    const record = (method: string, params: unknown[]) => calls.push({ method, params })
+    const started = await startFakeRpc({
+      eth_chainId: () => '0x7a69',
+      eth_blockNumber: () => '0x65',
+      eth_accounts: () => [UNLOCKED.toLowerCase()],
+      eth_getCode: () => '0x',
+      anvil_impersonateAccount: ([address]) => {
+        record('anvil_impersonateAccount', [address])
+        impersonated.add((address as string).toLowerCase())
+        return null
+      },
+      anvil_stopImpersonatingAccount: ([address]) => {
+        record('anvil_stopImpersonatingAccount', [address])
+        impersonated.delete((address as string).toLowerCase())
+        return null
+      },
+      eth_sendTransaction: ([tx]) => {
+        const { from } = tx as { from: string }
+        record('eth_sendTransaction', [tx])
+        if (from.toLowerCase() !== UNLOCKED.toLowerCase() && !impersonated.has(from.toLowerCase())) {
+          throw { code: -32000, message: 'No Signer available' }
+        }
+        if (revertWith) {
+          throw {
+            code: 3,
+            message: `execution reverted: ${revertWith}`,
+            data: encodeErrorResult({ abi: parseAbi(['error Error(string)']), errorName: 'Error', args: [revertWith] })
+          }
+        }
+        sender = from
+        return TX_HASH
+      },
+      // Locally signed transactions
+      eth_getTransactionCount: () => '0x0',
+      eth_estimateGas: () => '0xb41e',
+      eth_maxPriorityFeePerGas: () => '0x3b9aca00',
+      eth_getBlockByNumber: () => ({
+        number: '0x65',
+        hash: `0x${'11'.repeat(32)}`,
+        timestamp: '0x6553f100',
+        baseFeePerGas: '0x3b9aca00',
+        transactions: []
+      }),
+      eth_sendRawTransaction: ([raw]) => {
+        record('eth_sendRawTransaction', [raw])
+        sender = privateKeyToAddress(DEV_KEY)
+        return TX_HASH
+      },
+      // Fetched by viem to detect replaced transactions while waiting for the receipt
+      eth_getTransactionByHash: ([hash]) =>
+        hash === TX_HASH
+          ? {
+              hash: TX_HASH,
+              from: sender,
+              to: TOKEN,
+              nonce: '0x0',
+              value: '0x0',
+              input: '0x',
+              gas: '0xb41e',
+              type: '0x2',
+              maxFeePerGas: '0x77359400',
+              maxPriorityFeePerGas: '0x3b9aca00',
+              blockNumber: '0x65',
+              blockHash: `0x${'11'.repeat(32)}`,
+              transactionIndex: '0x0',
+              chainId: '0x7a69',
+              v: '0x0',
+              r: '0x1',
+              s: '0x1'
+            }
+          : null,
+      eth_getTransactionReceipt: ([hash]) => (hash === TX_HASH ? receipt() : null)
+    })
+    server = started.server
+    url = started.url
+  })
+
+  beforeEach(() => {
+    calls = []
+    impersonated = new Set()
+    revertWith = null
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } } })
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should send from the first unlocked account and return the receipt with decoded logs', async () => {
+    const result = parse(
+      await transactionTools.send_native_token.handler({ chain: 'localhost', to: TOKEN, amount: '1' })
+    )
+
+    expect(result).toMatchObject({
+      success: true,
+      transactionHash: TX_HASH,
+      receipt: { from: UNLOCKED, signer: 'unlocked', status: 'success', blockNumber: '101', gasUsed: '46110' }
+    })
+    expect(result.receipt.logs[0]).toMatchObject({ decoded: true, eventName: 'Transfer' })
+    expect(result.explorerUrl).toBeUndefined()
+    expect(calls[0]!.params[0]).toMatchObject({ from: UNLOCKED, value: '0xde0b6b3a7640000' })
+  })
+
+  it('should impersonate a sender the node holds no key for, only for that transaction', async () => {
+    const result = parse(
+      await transactionTools.call_contract_write.handler({
+        chain: 'localhost',
+        contractAddress: TOKEN,
+        functionAbi: 'function transfer(address to, uint256 amount) returns (bool)',
+        args: [UNLOCKED, '5'],
+        from: WHALE
+      })
+    )
+
+    expect(result).toMatchObject({ success: true, functionName: 'transfer', receipt: { from: WHALE, signer: 'impersonated' } })
+    expect(calls.map(({ method }) => method)).toEqual([
+      'eth_sendTransaction',
+      'anvil_impersonateAccount',
+      'eth_sendTransaction',
+      'anvil_stopImpersonatingAccount'
+    ])
+    expect(impersonated.size).toBe(0)
+  })
+
+  it('should sign locally with the configured dev private key', async () => {
+    initializeClientManager({
+      contractProviders: [],
+      chains: { localhost: { rpc: [url] } },
+      devSigner: { privateKey: DEV_KEY }
+    })
+
+    const result = parse(
+      await transactionTools.send_erc20_token.handler({ chain: 'localhost', tokenAddress: TOKEN, to: UNLOCKED, amount: '5', decimals: 0 })
+    )
+
+    expect(result).toMatchObject({ success: true, receipt: { from: privateKeyToAddress(DEV_KEY), signer: 'private-key' } })
+    expect(calls.map(({ method }) => method)).toEqual(['eth_sendRawTransaction'])
+  })
+
+  it('should not sign fork transactions with the dev private key', async () => {
+    initializeClientManager({
+      contractProviders: [],
+      chains: { localhost: { rpc: [url] } },
+      devSigner: { privateKey: DEV_KEY }
+    })
+    const clientManager = getClientManager()
+    clientManager.registerDynamicChain(
+      FORK_CHAIN,
+      defineChain({ ...clientManager.getChainEntry('localhost').chain, rpcUrls: { default: { http: [url] } } }),
+      [url]
+    )
+
+    try {
+      const result = parse(await transactionTools.send_native_token.handler({ chain: FORK_CHAIN, to: TOKEN, amount: '1' }))
+
+      expect(result).toMatchObject({ success: true, receipt: { from: UNLOCKED, signer: 'unlocked' } })
+      expect(calls.map(({ method }) => method)).toEqual(['eth_sendTransaction'])
+    } finally {
+      clientManager.unregisterDynamicChain(FORK_CHAIN)
+    }
+  })
+
+  it('should decode reverts reported while the node estimates gas', async () => {
+    revertWith = 'insufficient balance'
+
+    const result = parse(
+      await transactionTools.send_erc20_token.handler({ chain: 'localhost', tokenAddress: TOKEN, to: WHALE, amount: '5' })
+    )
+
+    expect(result).toMatchObject({ success: false, revert: { kind: 'error', reason: 'insufficient balance' } })
+  })
+
+  it('should only accept from on dev chains', async () => {
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } }, devSigner: { chains: [] } })
+
+    const result = parse(
+      await transactionTools.send_native_token.handler({ chain: 'localhost', to: TOKEN, amount: '1', from: WHALE })
+    )
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('only supported on dev chains') })
+    expect(calls).toEqual([])
+  })
+})
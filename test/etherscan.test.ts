@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { EtherscanClient, TokenBucket } from '../src/etherscan.js'
+
+// Fake Etherscan API that answers with the queued responses and records the API key of every request
+function startEtherscanServer(responses: unknown[]): Promise<{ server: Server; url: string; keys: string[] }> {
+  const keys: string[] = []
+  return new Promise((resolve) => {
+    const server = createServer((req, res) => {
+      keys.push(new URL(req.url ?? '/', 'http://localhost').searchParams.get('apikey') ?? '')
+      const response = responses.length > 1 ? responses.shift() : responses[0]
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(response))
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2/api`, keys })
+    })
+  })
+}
+
+const rateLimited = { status: '0', message: 'NOTOK', result: 'Max calls per sec rate limit reached (5/sec)' }
+const ok = { status: '1', message: 'OK', result: [{ ContractName: 'Token' }] }
+
+describe('EtherscanClient', () => {
+  const servers: Server[] = []
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))))
+    servers.length = 0
+  })
+
+  it('should retry rate-limited responses with the next key', async () => {
+    const etherscan = await startEtherscanServer([rateLimited, rateLimited, ok])
+    servers.push(etherscan.server)
+
+    const client = new EtherscanClient({ apiKeys: ['key-a', 'key-b'], baseDelayMs: 1 })
+    const data = await client.request(etherscan.url, { chainid: 1, module: 'contract', action: 'getsourcecode' })
+
+    expect(data).toEqual(ok)
+    expect(etherscan.keys).toEqual(['key-a', 'key-b', 'key-a'])
+  })
+
+  it('should give up after the configured number of retries', async () => {
+    const etherscan = await startEtherscanServer([rateLimited])
+    servers.push(etherscan.server)
+
+    const client = new EtherscanClient({ apiKeys: ['key-a'], maxRetries: 2, baseDelayMs: 1 })
+    await expect(client.request(etherscan.url, { module: 'contract' })).rejects.toThrow(/rate limit reached after 2 retries/)
+    expect(etherscan.keys).toHaveLength(3)
+  })
+
+  it('should return other API errors to the caller without retrying', async () => {
+    const notVerified = { status: '0', message: 'NOTOK', result: 'Invalid Address format' }
+    const etherscan = await startEtherscanServer([notVerified])
+    servers.push(etherscan.server)
+
+    const client = new EtherscanClient({ apiKeys: ['key-a'], baseDelayMs: 1 })
+    expect(await client.request(etherscan.url, { module: 'contract' })).toEqual(notVerified)
+    expect(etherscan.keys).toHaveLength(1)
+  })
+})
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to capacity and then throttle', async () => {
+    const bucket = new TokenBucket(2, 20)
+    const start = Date.now()
+
+    await bucket.take()
+    await bucket.take()
+    expect(Date.now() - start).toBeLessThan(40)
+
+    await bucket.take()
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40)
+  })
+})
@@ -0,0 +1,37 @@
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+
+export type RpcHandler = (params: any[]) => unknown
+
+// JSON-RPC endpoint answering from a method -> handler map (single and batched requests).
+// Unknown methods fail with -32601 like a node that does not support them; handlers may throw
+// { code, message, data } to return a JSON-RPC error
+export function startFakeRpc(handlers: Record<string, RpcHandler>): Promise<{ server: Server; url: string }> {
+  const answer = (request: { id: number; method: string; params?: any[] }) => {
+    const handler = handlers[request.method]
+    if (!handler) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `the method ${request.method} does not exist` } }
+    }
+    try {
+      return { jsonrpc: '2.0', id: request.id, result: handler(request.params ?? []) ?? null }
+    } catch (error) {
+      const { code = -32000, message = String(error), data } = error as { code?: number; message?: string; data?: unknown }
+      return { jsonrpc: '2.0', id: request.id, error: { code, message, data } }
+    }
+  }
+
+  return new Promise((resolve) => {
+    const server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        const request = JSON.parse(body)
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(Array.isArray(request) ? request.map(answer) : answer(request)))
+      })
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` })
+    })
+  })
+}
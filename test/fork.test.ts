@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Server } from 'http'
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { initializeClientManager, getClientManager } from '../src/client.js'
+import { ForkManager, getForkManager } from '../src/fork.js'
+import forkTools from '../src/tools/fork.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const WHALE = '0x00000000000000000000000000000000000a11ce'
+
+// Stand-in for anvil: serves the cheat methods the fork tools use on --port, starting at --fork-block-number
+const FAKE_ANVIL = `#!/usr/bin/env node
+const { createServer } = require('http')
+const args = process.argv.slice(2)
+const option = (name) => args[args.indexOf(name) + 1]
+const state = { block: BigInt(option('--fork-block-number')), time: 1700000000n, balances: {} }
+const snapshots = []
+const hex = (value) => '0x' + value.toString(16)
+const handlers = {
+  test_args: () => args,
+  test_fork_url: () => process.env.ETH_RPC_URL,
+  eth_chainId: () => '0x1',
+  eth_blockNumber: () => hex(state.block),
+  eth_getBlockByNumber: () => ({ number: hex(state.block), timestamp: hex(state.time), hash: '0x' + '1'.repeat(64), transactions: [] }),
+  eth_getBalance: ([address]) => hex(state.balances[address.toLowerCase()] ?? 0n),
+  anvil_setBalance: ([address, value]) => { state.balances[address.toLowerCase()] = BigInt(value); return null },
+  evm_increaseTime: ([seconds]) => { state.time += BigInt(seconds); return seconds },
+  anvil_mine: ([blocks]) => { state.block += BigInt(blocks); return null },
+  evm_snapshot: () => { snapshots.push(JSON.stringify(state, (_, v) => typeof v === 'bigint' ? v.toString() : v)); return hex(snapshots.length) },
+  evm_revert: ([id]) => {
+    const saved = snapshots[Number(id) - 1]
+    if (!saved) return false
+    snapshots.length = Number(id) - 1
+    const parsed = JSON.parse(saved)
+    Object.assign(state, { block: BigInt(parsed.block), time: BigInt(parsed.time), balances: Object.fromEntries(Object.entries(parsed.balances).map(([k, v]) => [k, BigInt(v)])) })
+    return true
+  }
+}
+createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    const { id, method, params } = JSON.parse(body)
+    const handler = handlers[method]
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify(handler ? { jsonrpc: '2.0', id, result: handler(params ?? []) } : { jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } }))
+  })
+}).listen(Number(option('--port')), option('--host'))
+`
+
+const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text)
+
+describe('Local Fork', () => {
+  let server: Server
+  let sourceUrl: string
+  let directory: string
+  let anvilPath: string
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'fake-anvil-'))
+    anvilPath = join(directory, 'anvil.cjs')
+    writeFileSync(anvilPath, FAKE_ANVIL)
+    chmodSync(anvilPath, 0o755)
+
+    const started = await startFakeRpc({
+      eth_chainId: () => '0x1',
+      eth_blockNumber: () => '0x64'
+    })
+    server = started.server
+    sourceUrl = started.url
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [sourceUrl] } }, anvil: { path: anvilPath } })
+  })
+
+  afterAll(async () => {
+    await getForkManager().stop()
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should fork the source RPC at its latest block and expose it as the fork chain', async () => {
+    // A second start while anvil is still starting must not spawn another process
+    const [started, concurrent] = await Promise.allSettled([
+      forkTools.start_fork.handler({ chain: 'localhost' }),
+      forkTools.start_fork.handler({ chain: 'localhost' })
+    ])
+    expect(concurrent).toMatchObject({
+      status: 'rejected',
+      reason: expect.objectContaining({ message: expect.stringContaining('already starting') })
+    })
+    const fork = parse((started as PromiseFulfilledResult<{ content: Array<{ text: string }> }>).value)
+    expect(fork).toMatchObject({ chain: 'fork', forkedFrom: 'localhost', forkBlockNumber: '100', chainId: 1 })
+
+    const args = await getForkManager()
+      .getClient()
+      .request<{ Parameters: []; ReturnType: string[] }>({ method: 'test_args' })
+    expect(args).toEqual(expect.arrayContaining(['--fork-block-number', '100']))
+    // The source RPC URL stays off the command line
+    expect(args).not.toContain(sourceUrl)
+    expect(
+      await getForkManager().getClient().request<{ Parameters?: undefined; ReturnType: string }>({ method: 'test_fork_url' })
+    ).toBe(sourceUrl)
+    expect(await getClientManager().getClient('fork').getBlockNumber()).toBe(100n)
+
+    await expect(forkTools.start_fork.handler({ chain: 'localhost' })).rejects.toThrow('already running')
+  })
+
+  it('should set balances, mine and roll back to snapshots', async () => {
+    const { snapshotId } = parse(await forkTools.fork_snapshot.handler({}))
+
+    expect(parse(await forkTools.set_balance.handler({ address: WHALE, balance: '5000000000000000000' }))).toMatchObject({
+      balance: '5000000000000000000',
+      balanceFormatted: '5'
+    })
+    expect(parse(await forkTools.fork_mine.handler({ blocks: 10, timeIncrease: 3600 }))).toEqual({
+      blockNumber: '110',
+      timestamp: '1700003600'
+    })
+
+    expect(parse(await forkTools.fork_revert.handler({ snapshotId }))).toMatchObject({ reverted: true, blockNumber: '100' })
+    expect(await getClientManager().getClient('fork').getBalance({ address: WHALE })).toBe(0n)
+    await expect(forkTools.fork_revert.handler({ snapshotId })).rejects.toThrow('already reverted')
+  })
+
+  it('should remove the fork chain when stopped', async () => {
+    expect(parse(await forkTools.stop_fork.handler({}))).toMatchObject({ stopped: true, forkedFrom: 'localhost' })
+    expect(() => getClientManager().getClient('fork')).toThrow('No fork is running')
+    await expect(forkTools.fork_snapshot.handler({})).rejects.toThrow('No fork is running')
+  })
+
+  it('should explain a missing anvil binary', async () => {
+    initializeClientManager({
+      contractProviders: [],
+      chains: { localhost: { rpc: [sourceUrl] } },
+      anvil: { path: join(directory, 'missing-anvil') }
+    })
+    await expect(new ForkManager().start({ chain: 'localhost', blockNumber: 1n })).rejects.toThrow('anvil not found')
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { request } from 'http'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpHttpServer } from '../src/http-server.js'
+import { registerAllTools } from '../src/tools/index.js'
+
+function createMcpServer(): McpServer {
+  const server = new McpServer({ name: 'web3-tools-mcp-test', version: '0.0.0' })
+  registerAllTools(server)
+  return server
+}
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+}
+
+const MCP_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream'
+}
+
+describe('McpHttpServer', () => {
+  const servers: McpHttpServer[] = []
+
+  afterEach(async () => {
+    for (const server of servers) {
+      await server.stop()
+    }
+    servers.length = 0
+  })
+
+  async function startServer(authToken?: string, allowedOrigins?: string[]): Promise<string> {
+    const server = new McpHttpServer(createMcpServer, { port: 0, host: '127.0.0.1', authToken, allowedOrigins })
+    servers.push(server)
+    await server.start()
+    return `http://127.0.0.1:${server.getPort()}`
+  }
+
+  it('should expose an unauthenticated health endpoint', async () => {
+    const baseUrl = await startServer('secret')
+
+    const response = await fetch(`${baseUrl}/health`)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.status).toBe('ok')
+    expect(body.sessions).toBe(0)
+  })
+
+  it('should reject requests without a valid bearer token', async () => {
+    const baseUrl = await startServer('secret')
+
+    const missing = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST)
+    })
+    expect(missing.status).toBe(401)
+
+    const wrong = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, Authorization: 'Bearer wrong' },
+      body: JSON.stringify(INITIALIZE_REQUEST)
+    })
+    expect(wrong.status).toBe(401)
+  })
+
+  it('should initialize a session and list tools over Streamable HTTP', async () => {
+    const baseUrl = await startServer('secret')
+    const headers = { ...MCP_HEADERS, Authorization: 'Bearer secret' }
+
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(INITIALIZE_REQUEST)
+    })
+    expect(init.status).toBe(200)
+    const sessionId = init.headers.get('mcp-session-id')
+    expect(sessionId).toBeTruthy()
+    await init.text()
+
+    await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    })
+
+    const list = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    })
+    const text = await list.text()
+
+    expect(list.status).toBe(200)
+    expect(text).toContain('get_function_signature')
+  })
+
+  it('should refuse other web origins and DNS-rebound hosts', async () => {
+    const baseUrl = await startServer(undefined, ['https://app.example.com'])
+    const initialize = (headers: Record<string, string>) =>
+      fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...MCP_HEADERS, ...headers }, body: JSON.stringify(INITIALIZE_REQUEST) })
+
+    const foreign = await initialize({ Origin: 'https://evil.example' })
+    expect(foreign.status).toBe(403)
+    expect(foreign.headers.get('access-control-allow-origin')).toBeNull()
+
+    // fetch always sends the URL's host, so a rebound name needs a raw request
+    const rebound = await new Promise<number | undefined>((resolve, reject) => {
+      const url = new URL(baseUrl)
+      const headers = { ...MCP_HEADERS, Host: 'rebind.evil.example' }
+      request({ host: url.hostname, port: url.port, path: '/mcp', method: 'POST', headers }, (res) => {
+        res.resume()
+        resolve(res.statusCode)
+      })
+        .on('error', reject)
+        .end(JSON.stringify(INITIALIZE_REQUEST))
+    })
+    expect(rebound).toBe(403)
+
+    const allowed = await initialize({ Origin: 'https://app.example.com' })
+    expect(allowed.status).toBe(200)
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    await allowed.text()
+    const local = await initialize({ Origin: 'http://localhost:5173' })
+    expect(local.status).toBe(200)
+    await local.text()
+  })
+
+  it('should reject unknown session ids', async () => {
+    const baseUrl = await startServer()
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'Mcp-Session-Id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    })
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import type { Server } from 'http'
+import { encodeFunctionResult, getAddress, type Hex, pad, parseAbi, toFunctionSelector } from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import { type ContractInfo, resolveImplementations } from '../src/contract-providers.js'
+import {
+  detectProxy,
+  EIP1822_PROXIABLE_SLOT,
+  EIP1967_ADMIN_SLOT,
+  EIP1967_BEACON_SLOT,
+  EIP1967_IMPLEMENTATION_SLOT
+} from '../src/proxy.js'
+import contractInfoTools from '../src/tools/contract-info.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const IMPLEMENTATION = '0x43506849D7C04F9138D1A2050bbF3A0c054402dd'
+const ADMIN = getAddress('0x0000000000000000000000000000000000000add')
+const BEACON = getAddress('0x000000000000000000000000000000000000beef')
+const FACET = getAddress('0x000000000000000000000000000000000000face')
+
+const TRANSPARENT = '0x0000000000000000000000000000000000001967'
+const BEACON_PROXY = '0x0000000000000000000000000000000000000b01'
+const UUPS = '0x0000000000000000000000000000000000001822'
+const CLONE = '0x0000000000000000000000000000000000001167'
+const SAFE = '0x000000000000000000000000000000000000005a'
+const DIAMOND = '0x0000000000000000000000000000000000002535'
+const PLAIN = '0x0000000000000000000000000000000000000001'
+const EOA = '0x0000000000000000000000000000000000000002'
+
+const abi = parseAbi([
+  'function implementation() view returns (address)',
+  'function masterCopy() view returns (address)',
+  'struct Facet { address facetAddress; bytes4[] functionSelectors; }',
+  'function facets() view returns (Facet[])'
+])
+
+const storage: Record<string, Record<string, string>> = {
+  [TRANSPARENT]: { [EIP1967_IMPLEMENTATION_SLOT]: IMPLEMENTATION, [EIP1967_ADMIN_SLOT]: ADMIN },
+  [BEACON_PROXY]: { [EIP1967_BEACON_SLOT]: BEACON },
+  [UUPS]: { [EIP1822_PROXIABLE_SLOT]: IMPLEMENTATION },
+  [SAFE]: { '0x0': IMPLEMENTATION },
+  // An ordinary contract whose first variable happens to be an address
+  [PLAIN]: { '0x0': ADMIN }
+}
+
+function call(to: string, data: Hex): Hex {
+  const selector = data.slice(0, 10)
+  if (to === BEACON && selector === toFunctionSelector('implementation()')) {
+    return encodeFunctionResult({ abi, functionName: 'implementation', result: IMPLEMENTATION })
+  }
+  if (to === SAFE && selector === toFunctionSelector('masterCopy()')) {
+    return encodeFunctionResult({ abi, functionName: 'masterCopy', result: IMPLEMENTATION })
+  }
+  if (to === DIAMOND && selector === toFunctionSelector('facets()')) {
+    return encodeFunctionResult({
+      abi,
+      functionName: 'facets',
+      result: [
+        { facetAddress: DIAMOND, functionSelectors: ['0x7a0ed627'] },
+        { facetAddress: FACET, functionSelectors: ['0xa9059cbb', '0x70a08231'] }
+      ]
+    })
+  }
+  throw { code: 3, message: 'execution reverted', data: '0x' }
+}
+
+describe('Proxy Detection', () => {
+  let server: Server
+  let url: string
+  let requests: string[]
+
+  beforeAll(async () => {
+    const find = (address: string) => Object.keys(storage).find((key) => key.toLowerCase() === address.toLowerCase())
+    requests = []
+    const started = await startFakeRpc({
+      eth_chainId: () => '0x7a69',
+      eth_getCode: ([address]) => {
+        requests.push(`eth_getCode ${address.toLowerCase()}`)
+        if (address.toLowerCase() === EOA) return '0x'
+        if (address.toLowerCase() === CLONE) {
+          return `0x363d3d373d3d3d363d73${IMPLEMENTATION.slice(2).toLowerCase()}5af43d82803e903d91602b57fd5bf3`
+        }
+        return '0x6080604052'
+      },
+      eth_getStorageAt: ([address, slot]) => {
+        const value = storage[find(address) ?? '']?.[slot]
+        return value ? pad(value.toLowerCase() as Hex) : pad('0x0')
+      },
+      eth_call: ([request]) => {
+        requests.push(`eth_call ${request.to.toLowerCase()}`)
+        const to = Object.values({ BEACON, SAFE, DIAMOND }).find((known) => known.toLowerCase() === request.to.toLowerCase())
+        return call(to ?? request.to, request.data ?? request.input)
+      }
+    })
+    server = started.server
+    url = started.url
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } } })
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should read EIP-1967 implementation and admin slots', async () => {
+    expect(await detectProxy('localhost', TRANSPARENT)).toMatchObject({
+      isProxy: true,
+      kind: 'eip1967',
+      implementations: [IMPLEMENTATION],
+      admin: ADMIN
+    })
+  })
+
+  it('should follow beacons and read the UUPS slot and minimal proxy bytecode', async () => {
+    expect(await detectProxy('localhost', BEACON_PROXY)).toMatchObject({
+      kind: 'eip1967-beacon',
+      beacon: BEACON,
+      implementations: [IMPLEMENTATION]
+    })
+    expect(await detectProxy('localhost', UUPS)).toMatchObject({ kind: 'eip1822', implementations: [IMPLEMENTATION] })
+    expect(await detectProxy('localhost', CLONE)).toMatchObject({ kind: 'eip1167', implementations: [IMPLEMENTATION] })
+  })
+
+  it('should confirm Safe singletons and list diamond facets', async () => {
+    expect(await detectProxy('localhost', SAFE)).toMatchObject({ kind: 'safe', implementations: [IMPLEMENTATION] })
+
+    const diamond = await detectProxy('localhost', DIAMOND)
+    expect(diamond).toMatchObject({ kind: 'diamond', implementations: [FACET] })
+    expect(diamond.facets).toHaveLength(2)
+    expect(diamond.facets![1]!.selectors).toEqual(['0xa9059cbb', '0x70a08231'])
+  })
+
+  it('should not report plain contracts or accounts without code', async () => {
+    expect(await detectProxy('localhost', PLAIN)).toMatchObject({ isProxy: false, isContract: true, implementations: [] })
+    expect(await detectProxy('localhost', EOA)).toMatchObject({ isProxy: false, isContract: false })
+  })
+
+  it('should find diamonds whose own code lacks the facets() selector', async () => {
+    // The loupe lives in a facet reached through the fallback
+    requests = []
+    expect(await detectProxy('localhost', DIAMOND)).toMatchObject({ isProxy: true, kind: 'diamond' })
+    expect(requests).toContain(`eth_call ${DIAMOND}`)
+
+    // Slot-based proxies are settled before facets() is tried
+    requests = []
+    await detectProxy('localhost', UUPS)
+    expect(requests.filter((request) => request.startsWith('eth_call'))).toEqual([])
+  })
+
+  it('should not cache detections on dev chains', async () => {
+    const unverified = { isProxy: false } as ContractInfo
+    await resolveImplementations('localhost', TRANSPARENT, unverified)
+    requests = []
+    expect(await resolveImplementations('localhost', TRANSPARENT, unverified)).toEqual([IMPLEMENTATION])
+    expect(requests).toEqual([`eth_getCode ${TRANSPARENT}`])
+  })
+
+  it('should cache detections for a few minutes or until the contract cache is cleared', async () => {
+    // Treat localhost as a public chain
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } }, devSigner: { chains: [] } })
+    const unverified = { isProxy: false } as ContractInfo
+    const now = Date.now()
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now)
+
+    try {
+      expect(await resolveImplementations('localhost', TRANSPARENT, unverified)).toEqual([IMPLEMENTATION])
+      requests = []
+      expect(await resolveImplementations('localhost', TRANSPARENT, unverified)).toEqual([IMPLEMENTATION])
+      expect(requests).toEqual([])
+
+      clock.mockReturnValue(now + 11 * 60 * 1000)
+      await resolveImplementations('localhost', TRANSPARENT, unverified)
+      expect(requests).toEqual([`eth_getCode ${TRANSPARENT}`])
+
+      requests = []
+      await contractInfoTools.clear_contract_cache.handler({ chain: 'localhost', address: TRANSPARENT })
+      await resolveImplementations('localhost', TRANSPARENT, unverified)
+      expect(requests).toEqual([`eth_getCode ${TRANSPARENT}`])
+    } finally {
+      clock.mockRestore()
+      initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } } })
+    }
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { BaseError, encodeAbiParameters, encodeErrorResult, parseAbi } from 'viem'
+import { decodeRevert, decodeRevertFromError, extractRevertData } from '../src/revert.js'
+
+const errorAbi = parseAbi(['error InsufficientLiquidity(uint256 available, uint256 required)'])
+
+describe('Revert Decoder', () => {
+  it('should decode Error(string) reasons', async () => {
+    const data = `0x08c379a0${encodeAbiParameters([{ type: 'string' }], ['Ownable: caller is not the owner']).slice(2)}` as const
+    const revert = await decodeRevert(data)
+    expect(revert.kind).toBe('error')
+    expect(revert.reason).toBe('Ownable: caller is not the owner')
+  })
+
+  it('should describe panic codes', async () => {
+    const data = `0x4e487b71${encodeAbiParameters([{ type: 'uint256' }], [0x11n]).slice(2)}` as const
+    const revert = await decodeRevert(data)
+    expect(revert.kind).toBe('panic')
+    expect(revert.panicCode).toBe(0x11)
+    expect(revert.reason).toBe('Panic(0x11): arithmetic underflow or overflow')
+  })
+
+  it('should decode custom errors from a supplied ABI before the bundled list', async () => {
+    const data = encodeErrorResult({ abi: errorAbi, errorName: 'InsufficientLiquidity', args: [5n, 10n] })
+    const revert = await decodeRevert(data, { errorAbi })
+    expect(revert).toMatchObject({
+      kind: 'custom',
+      errorName: 'InsufficientLiquidity',
+      signature: 'InsufficientLiquidity(uint256,uint256)',
+      abiSource: 'provided',
+      reason: 'InsufficientLiquidity(available=5, required=10)'
+    })
+
+    expect((await decodeRevert(data)).kind).toBe('unknown')
+  })
+
+  it('should decode common custom errors from the bundled list', async () => {
+    const data = encodeErrorResult({
+      abi: parseAbi(['error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)']),
+      errorName: 'ERC20InsufficientBalance',
+      args: ['0x0000000000000000000000000000000000000001', 0n, 100n]
+    })
+    expect(data.slice(0, 10)).toBe('0xe450d38c')
+
+    const revert = await decodeRevert(data)
+    expect(revert.abiSource).toBe('local')
+    expect(revert.errorName).toBe('ERC20InsufficientBalance')
+    expect(revert.args?.[2]).toEqual({ name: 'needed', type: 'uint256', value: 100n })
+  })
+
+  it('should find revert data in error chains', async () => {
+    const data = encodeErrorResult({ abi: errorAbi, errorName: 'InsufficientLiquidity', args: [1n, 2n] })
+    const error = new BaseError('Execution reverted', {
+      cause: Object.assign(new Error('execution reverted'), { data: { data } })
+    })
+    expect(extractRevertData(error)).toBe(data)
+
+    const revert = await decodeRevertFromError(error, { errorAbi })
+    expect(revert?.errorName).toBe('InsufficientLiquidity')
+
+    expect(await decodeRevertFromError(new Error('execution reverted'))).toMatchObject({ kind: 'empty' })
+    expect(await decodeRevertFromError(new Error('network timeout'))).toBeUndefined()
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { createPublicClient } from 'viem'
+import { mainnet } from 'viem/chains'
+import { rankedTransport, redactUrl, RpcHealthTracker } from '../src/rpc-health.js'
+
+// Minimal JSON-RPC endpoint that answers eth_blockNumber (or fails with the given HTTP status)
+function startRpcServer(options: { blockNumber?: number; status?: number }): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        if (options.status) {
+          res.writeHead(options.status)
+          res.end('unavailable')
+          return
+        }
+        const request = JSON.parse(body)
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: `0x${(options.blockNumber ?? 1).toString(16)}` }))
+      })
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` })
+    })
+  })
+}
+
+describe('RpcHealthTracker', () => {
+  it('should keep config order while endpoints are healthy', () => {
+    const tracker = new RpcHealthTracker(['https://a.example', 'https://b.example', 'https://c.example'])
+    expect(tracker.rankedUrls()).toEqual(['https://a.example', 'https://b.example', 'https://c.example'])
+  })
+
+  it('should demote endpoints after consecutive errors', () => {
+    const tracker = new RpcHealthTracker(['https://a.example', 'https://b.example'], { errorThreshold: 2 })
+
+    tracker.recordFailure('https://a.example', 10, new Error('boom'))
+    tracker.recordFailure('https://a.example', 10, new Error('boom'))
+
+    expect(tracker.rankedUrls()).toEqual(['https://b.example', 'https://a.example'])
+    const stats = tracker.getStats()
+    expect(stats[1].status).toBe('demoted')
+    expect(stats[1].errors).toBe(2)
+    expect(stats[1].lastError).toBe('boom')
+  })
+
+  it('should restore an endpoint after a successful request', () => {
+    const tracker = new RpcHealthTracker(['https://a.example', 'https://b.example'], { errorThreshold: 1 })
+
+    tracker.recordFailure('https://a.example', 10, new Error('boom'))
+    tracker.recordSuccess('https://a.example', 10)
+
+    expect(tracker.rankedUrls()[0]).toBe('https://a.example')
+  })
+
+  it('should demote endpoints that trail the best known head block', () => {
+    const tracker = new RpcHealthTracker(['https://a.example', 'https://b.example'], { maxBlockLag: 5 })
+
+    tracker.recordSuccess('https://a.example', 10, 'eth_blockNumber', '0x64') // 100
+    tracker.recordSuccess('https://b.example', 10, 'eth_blockNumber', '0x78') // 120
+
+    expect(tracker.rankedUrls()).toEqual(['https://b.example', 'https://a.example'])
+    const stale = tracker.getStats().find((stat) => stat.url === 'https://a.example/')
+    expect(stale?.status).toBe('stale')
+    expect(stale?.blocksBehind).toBe(20)
+  })
+
+  it('should prefer clearly faster endpoints', () => {
+    const tracker = new RpcHealthTracker(['https://slow.example', 'https://fast.example'])
+
+    tracker.recordSuccess('https://slow.example', 900)
+    tracker.recordSuccess('https://fast.example', 50)
+
+    expect(tracker.rankedUrls()[0]).toBe('https://fast.example')
+  })
+
+  it('should redact API keys from reported URLs', () => {
+    expect(redactUrl('https://eth-mainnet.g.alchemy.com/v2/secret-key')).toBe('https://eth-mainnet.g.alchemy.com/v2/***')
+    expect(redactUrl('https://rpc.example.com/?apikey=secret')).toBe('https://rpc.example.com/?***')
+  })
+})
+
+describe('rankedTransport', () => {
+  const servers: Server[] = []
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))))
+    servers.length = 0
+  })
+
+  it('should fail over to the next endpoint and record the failure', async () => {
+    const broken = await startRpcServer({ status: 503 })
+    const healthy = await startRpcServer({ blockNumber: 1234 })
+    servers.push(broken.server, healthy.server)
+
+    const tracker = new RpcHealthTracker([broken.url, healthy.url])
+    const client = createPublicClient({ chain: mainnet, transport: rankedTransport(tracker) })
+
+    const blockNumber = await client.getBlockNumber({ cacheTime: 0 })
+
+    expect(blockNumber).toBe(1234n)
+    const stats = tracker.getStats()
+    expect(stats.find((stat) => stat.url.startsWith(broken.url))?.errors).toBeGreaterThan(0)
+    expect(stats.find((stat) => stat.url.startsWith(healthy.url))?.latestBlock).toBe('1234')
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { type AbiFunction, parseAbi, parseAbiItem, toFunctionSelector } from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import { findLocalFunctions, indexAbi, lookupSignature, matchesSignature } from '../src/signature-db.js'
+
+describe('Signature Database', () => {
+  it('should find bundled functions by name and overload', () => {
+    expect(findLocalFunctions('balanceOf')).toHaveLength(2)
+    const [erc1155] = findLocalFunctions('balanceOf', 'balanceOf(address, uint256)')
+    expect(erc1155.outputs[0].type).toBe('uint256')
+    expect(findLocalFunctions('doesNotExist')).toEqual([])
+  })
+
+  it('should match signatures regardless of parameter names and whitespace', () => {
+    const item = parseAbiItem('function allowance(address owner, address spender) view returns (uint256)') as AbiFunction
+    expect(matchesSignature(item, 'allowance(address,address)')).toBe(true)
+    expect(matchesSignature(item, 'function allowance(address a, address b)')).toBe(true)
+    expect(matchesSignature(item, 'allowance')).toBe(true)
+    expect(matchesSignature(item, 'allowance(address)')).toBe(false)
+  })
+
+  it('should keep every entry when ABIs are indexed concurrently', async () => {
+    initializeClientManager({ contractProviders: [] })
+    const added = await Promise.all([
+      indexAbi(parseAbi(['function sweepDust(address token, uint256 amount)'])),
+      indexAbi(parseAbi(['function sweepDust(address to, uint256 value)']))
+    ])
+
+    expect(added).toEqual([1, 1])
+    const matches = await lookupSignature(toFunctionSelector('sweepDust(address,uint256)'))
+    expect(matches.map((match) => match.text)).toEqual([
+      'function sweepDust(address token, uint256 amount)',
+      'function sweepDust(address to, uint256 value)'
+    ])
+  })
+})
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import type { Server } from 'http'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAddress,
+  type Hex,
+  maxUint256,
+  parseAbi,
+  parseEther,
+  parseUnits,
+  recoverTransactionAddress,
+  verifyMessage
+} from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import { validateConfigFile } from '../src/config.js'
+import { createSigner, decryptKeystore } from '../src/signers.js'
+import transactionTools from '../src/tools/transactions.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+// anvil's third default account, encrypted with "correct horse" (scrypt n=1024 to keep the test fast)
+const KEYSTORE_ADDRESS = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')
+const KEYSTORE = JSON.stringify({
+  version: 3,
+  id: 'b2f0f2f4-3c4e-4f0a-9d1e-6f5b8a7c9d10',
+  address: '3c44cdddb6a900fa2b585dd299e03d12fa4293bc',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    ciphertext: '065230e6e94dd0b4534a7c27bb01e449d4f7a3964f32d76631448addc7e5cb3e',
+    cipherparams: { iv: 'e8b5be39a70ab5c8ab0b973e32c03b60' },
+    kdf: 'scrypt',
+    kdfparams: { dklen: 32, n: 1024, r: 8, p: 1, salt: '2a0700fb8fa7901dfd0be3df445a0b725b791616abfaf4bcb3cf5661fccd91fe' },
+    mac: 'f5ffb30867d4473b75d3d0dde35413c050a3e7bdc29b0eeac55ed4b2a2d983f8'
+  }
+})
+const MNEMONIC = 'test test test test test test test test test test test junk'
+const MNEMONIC_ADDRESS = getAddress('0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266')
+const RECIPIENT = getAddress('0x00000000000000000000000000000000000a11ce')
+const TOKEN = getAddress('0x000000000000000000000000000000000000c0de')
+const erc20 = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function mint(address to, uint256 amount)'
+])
+const TX_HASH = `0x${'ab'.repeat(32)}` as Hex
+
+const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text)
+
+describe('Signers', () => {
+  let server: Server
+  let url: string
+  let directory: string
+  let broadcast: Hex[]
+  let failBroadcast: boolean
+  let failEstimate: boolean
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'signers-'))
+    writeFileSync(join(directory, 'bot.json'), KEYSTORE)
+    process.env.TEST_KEYSTORE_PASSWORD = 'correct horse'
+    process.env.TEST_MNEMONIC = MNEMONIC
+
+    const started = await startFakeRpc({
+      eth_chainId: () => '0x7a69',
+      eth_getTransactionCount: () => '0x0',
+      eth_estimateGas: () => {
+        if (failEstimate) throw { code: -32000, message: 'insufficient funds for gas * price + value' }
+        return '0x5208'
+      },
+      eth_maxPriorityFeePerGas: () => '0x3b9aca00',
+      // decimals() of TOKEN
+      eth_call: () => encodeAbiParameters([{ type: 'uint8' }], [6]),
+      eth_getBlockByNumber: () => ({
+        number: '0x64',
+        hash: `0x${'11'.repeat(32)}`,
+        timestamp: '0x6553f100',
+        baseFeePerGas: '0x3b9aca00',
+        transactions: []
+      }),
+      eth_sendRawTransaction: ([raw]) => {
+        if (failBroadcast) throw { code: -32000, message: 'nonce too low' }
+        broadcast.push(raw as Hex)
+        return TX_HASH
+      }
+    })
+    server = started.server
+    url = started.url
+  })
+
+  beforeEach(() => {
+    broadcast = []
+    failBroadcast = false
+    failEstimate = false
+  })
+
+  afterAll(async () => {
+    delete process.env.TEST_KEYSTORE_PASSWORD
+    delete process.env.TEST_MNEMONIC
+    rmSync(directory, { recursive: true, force: true })
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should decrypt v3 keystores and reject a wrong password', async () => {
+    expect(await decryptKeystore(KEYSTORE, 'correct horse')).toBe(
+      '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+    )
+    await expect(decryptKeystore(KEYSTORE, 'battery staple')).rejects.toThrow('Wrong keystore password')
+  })
+
+  it('should sign and broadcast tool transactions with the keystore signer instead of the browser', async () => {
+    // localhost is a dev chain by default; take it out so the configured signer is used
+    initializeClientManager({
+      contractProviders: [],
+      chains: { localhost: { rpc: [url], explorerUrl: 'https://explorer.devnet.example/' } },
+      devSigner: { chains: [] },
+      signer: {
+        type: 'keystore',
+        keystore: { path: join(directory, 'bot.json'), passwordEnv: 'TEST_KEYSTORE_PASSWORD' },
+        policies: { localhost: { maxValue: '1' } }
+      }
+    })
+
+    const result = parse(await transactionTools.send_native_token.handler({ chain: 'localhost', to: RECIPIENT, amount: '0.5' }))
+    expect(result).toMatchObject({
+      success: true,
+      transactionHash: TX_HASH,
+      explorerUrl: `https://explorer.devnet.example/tx/${TX_HASH}`
+    })
+    expect(await recoverTransactionAddress({ serializedTransaction: broadcast[0] as any })).toBe(KEYSTORE_ADDRESS)
+
+    expect(parse(await transactionTools.wallet_status.handler({}))).toMatchObject({
+      connected: true,
+      signer: 'keystore',
+      address: KEYSTORE_ADDRESS,
+      chains: ['localhost']
+    })
+  })
+
+  it('should enforce per-chain spending policies', async () => {
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } } })
+    const signer = createSigner({
+      type: 'mnemonic',
+      mnemonic: { env: 'TEST_MNEMONIC' },
+      policies: { localhost: { maxValue: '1', dailyLimit: '1.5', allowedAddresses: [RECIPIENT] } }
+    })
+    const send = (value: string, to: string = RECIPIENT) => signer.sendTransaction('localhost', { to, value: parseEther(value) })
+
+    expect(await signer.getAddress()).toBe(MNEMONIC_ADDRESS)
+    await expect(signer.sendTransaction('mainnet', { to: RECIPIENT, value: 0n })).rejects.toThrow(
+      'no spending policy for mainnet'
+    )
+    await expect(send('0', KEYSTORE_ADDRESS)).rejects.toThrow(`does not allow transactions to ${KEYSTORE_ADDRESS}`)
+    await expect(send('1.1')).rejects.toThrow('at most 1 native token per transaction')
+
+    // Failing before the broadcast does not use up the daily limit
+    failEstimate = true
+    await expect(send('1')).rejects.toThrow('insufficient funds')
+    failEstimate = false
+
+    expect(await send('1')).toBe(TX_HASH)
+    await expect(send('0.6')).rejects.toThrow('at most 1.5 native token per 24 hours')
+
+    // A failed broadcast may have reached the network, so it still counts
+    failBroadcast = true
+    await expect(send('0.4')).rejects.toThrow('nonce too low')
+    failBroadcast = false
+    await expect(send('0.2')).rejects.toThrow('at most 1.5 native token per 24 hours')
+    expect(await send('0.1')).toBe(TX_HASH)
+    expect(broadcast).toHaveLength(2)
+  })
+
+  it('should limit ERC20 amounts per token and refuse other calldata unless allowed', async () => {
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [url] } } })
+    const policy = { tokenLimits: { [TOKEN]: { maxAmount: '100', dailyLimit: '150' } } }
+    const signer = createSigner({ type: 'mnemonic', mnemonic: { env: 'TEST_MNEMONIC' }, policies: { localhost: policy } })
+    const call = (functionName: 'transfer' | 'approve' | 'mint', amount: bigint, to: string = TOKEN) =>
+      signer.sendTransaction('localhost', {
+        to,
+        data: encodeFunctionData({ abi: erc20, functionName, args: [RECIPIENT, amount] }),
+        value: 0n
+      })
+
+    await expect(call('transfer', parseUnits('101', 6))).rejects.toThrow(`at most 100 of token ${TOKEN} per transaction`)
+    await expect(call('approve', maxUint256)).rejects.toThrow(`at most 100 of token ${TOKEN} per transaction`)
+    await expect(call('mint', 1n)).rejects.toThrow(`does not allow contract calls to ${TOKEN}`)
+    await expect(call('transfer', 1n, RECIPIENT)).rejects.toThrow(`does not allow contract calls to ${RECIPIENT}`)
+
+    expect(await call('transfer', parseUnits('100', 6))).toBe(TX_HASH)
+    await expect(call('approve', parseUnits('60', 6))).rejects.toThrow(`at most 150 of token ${TOKEN} per 24 hours`)
+    expect(await call('approve', parseUnits('50', 6))).toBe(TX_HASH)
+
+    const permissive = createSigner({
+      type: 'mnemonic',
+      mnemonic: { env: 'TEST_MNEMONIC' },
+      policies: { localhost: { allowContractCalls: true } }
+    })
+    expect(await permissive.sendTransaction('localhost', { to: RECIPIENT, data: '0x1234', value: 0n })).toBe(TX_HASH)
+    expect(broadcast).toHaveLength(3)
+  })
+
+  it('should only sign messages when enabled', async () => {
+    const settings = { type: 'mnemonic' as const, mnemonic: { env: 'TEST_MNEMONIC' } }
+    await expect(createSigner(settings).signMessage('hello')).rejects.toThrow('signer.signMessages')
+
+    const signature = await createSigner({ ...settings, signMessages: true }).signMessage('hello')
+    expect(await verifyMessage({ address: MNEMONIC_ADDRESS, message: 'hello', signature })).toBe(true)
+  })
+
+  it('should explain a missing secret and validate signer config', async () => {
+    await expect(createSigner({ type: 'mnemonic', policies: { localhost: {} } }).getAddress()).rejects.toThrow(
+      'export SIGNER_MNEMONIC'
+    )
+    expect(() => validateConfigFile({ signer: { type: 'keystore' } })).toThrow(/keystore\.path is required/)
+    expect(() => validateConfigFile({ signer: { type: 'mnemonic', policies: { fork: {} } } })).toThrow(/use devSigner instead/)
+    expect(() => validateConfigFile({ signer: { type: 'mnemonic', policies: { base: { maxValue: '1 ETH' } } } })).toThrow(
+      /decimal amount/
+    )
+    expect(() =>
+      validateConfigFile({ signer: { type: 'mnemonic', policies: { base: { tokenLimits: { USDC: { maxAmount: '10' } } } } } })
+    ).toThrow(/must be a token address/)
+  })
+})
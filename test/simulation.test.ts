@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Server } from 'http'
+import {
+  encodeAbiParameters,
+  encodeErrorResult,
+  getAddress,
+  type Hex,
+  numberToHex,
+  pad,
+  parseAbi,
+  parseAbiParameters,
+  toEventSelector
+} from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import { isMethodUnsupported, parseStateOverride, previewAssetChanges, simulateBundle } from '../src/simulation.js'
+import { NATIVE_TOKEN_ADDRESS } from '../src/transfers.js'
+import gasTools from '../src/tools/gas.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const ALICE = getAddress('0x00000000000000000000000000000000000a11ce')
+const TOKEN = getAddress('0x000000000000000000000000000000000000c0de')
+const ROUTER = getAddress('0x000000000000000000000000000000000000beef')
+const TRANSFER = toEventSelector('event Transfer(address indexed from, address indexed to, uint256 value)')
+const APPROVAL = toEventSelector('event Approval(address indexed owner, address indexed spender, uint256 value)')
+
+const log = (address: string, topic0: Hex, from: string, to: string, value: bigint) => ({
+  address,
+  topics: [topic0, pad(from.toLowerCase() as Hex), pad(to.toLowerCase() as Hex)],
+  data: numberToHex(value, { size: 32 })
+})
+
+const bundleResult = [
+  {
+    number: '0x65',
+    timestamp: '0x6553f100',
+    calls: [
+      {
+        status: '0x1',
+        gasUsed: '0xb41e',
+        returnData: encodeAbiParameters(parseAbiParameters('bool'), [true]),
+        logs: [
+          {
+            address: TOKEN,
+            topics: [TRANSFER, pad(ALICE), pad(TOKEN)],
+            data: numberToHex(5n, { size: 32 })
+          }
+        ]
+      },
+      {
+        status: '0x0',
+        gasUsed: '0x5a3c',
+        returnData: '0x',
+        error: {
+          code: 3,
+          message: 'execution reverted',
+          data: encodeErrorResult({
+            abi: parseAbi(['error Error(string)']),
+            errorName: 'Error',
+            args: ['insufficient allowance']
+          })
+        },
+        logs: []
+      }
+    ]
+  }
+]
+
+describe('Simulation', () => {
+  let server: Server
+  let simulateSupported = true
+  let simulateResult: unknown = bundleResult
+  let traceResult: unknown
+  let estimateReverts = false
+  const requests: Record<string, unknown[][]> = {}
+
+  beforeAll(async () => {
+    const record = (method: string, params: unknown[]) => {
+      ;(requests[method] ??= []).push(params)
+    }
+    const started = await startFakeRpc({
+      eth_chainId: () => '0x7a69',
+      eth_blockNumber: () => '0x64',
+      eth_getCode: () => '0x',
+      eth_getStorageAt: () => pad('0x0'),
+      eth_call: (params) => {
+        record('eth_call', params)
+        return encodeAbiParameters(parseAbiParameters('uint256'), [10n ** 18n])
+      },
+      eth_estimateGas: (params) => {
+        record('eth_estimateGas', params)
+        if (estimateReverts) throw { code: 3, message: 'execution reverted: too early', data: '0x' }
+        return '0x5208'
+      },
+      debug_traceCall: (params) => {
+        record('debug_traceCall', params)
+        return traceResult
+      },
+      eth_simulateV1: (params) => {
+        if (!simulateSupported) throw { code: -32601, message: 'the method eth_simulateV1 does not exist/is not available' }
+        record('eth_simulateV1', params)
+        return simulateResult
+      }
+    })
+    server = started.server
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [started.url] } } })
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should convert state overrides and reject invalid ones', async () => {
+    const overrides = await parseStateOverride(
+      'localhost',
+      [{ address: ALICE, balance: '1000', stateDiff: { '0x1': '42', '0x2': 'true' } }],
+      { blockTag: 'latest' }
+    )
+    expect(overrides).toEqual([
+      {
+        address: ALICE,
+        balance: 1000n,
+        stateDiff: [
+          { slot: numberToHex(1, { size: 32 }), value: numberToHex(42, { size: 32 }) },
+          { slot: numberToHex(2, { size: 32 }), value: numberToHex(1, { size: 32 }) }
+        ]
+      }
+    ])
+
+    await expect(
+      parseStateOverride('localhost', [{ address: ALICE, state: {}, stateDiff: {} }], { blockTag: 'latest' })
+    ).rejects.toThrow('use either state or stateDiff')
+    await expect(
+      parseStateOverride('localhost', [{ address: TOKEN, stateDiff: { 'balanceOf[0x1]': '1' } }], { blockTag: 'latest' })
+    ).rejects.toThrow('no verified storage layout')
+  })
+
+  it('should pass overrides to eth_call in simulate_contract', async () => {
+    const result = await gasTools.simulate_contract.handler({
+      chain: 'localhost',
+      contractAddress: TOKEN,
+      functionAbi: 'function balanceOf(address owner) view returns (uint256)',
+      args: [ALICE],
+      stateOverride: [{ address: ALICE, balance: '0xde0b6b3a7640000' }],
+      blockOverrides: { time: '1700000000' }
+    })
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ success: true, result: '1000000000000000000' })
+
+    const [, , stateOverride, blockOverrides] = requests.eth_call!.at(-1)!
+    expect(stateOverride).toEqual({ [ALICE]: { balance: '0xde0b6b3a7640000' } })
+    expect(blockOverrides).toEqual({ time: '0x6553f100' })
+  })
+
+  it('should keep the call result when only the gas estimate fails without the block overrides', async () => {
+    estimateReverts = true
+    try {
+      const result = await gasTools.simulate_contract.handler({
+        chain: 'localhost',
+        contractAddress: TOKEN,
+        functionAbi: 'function balanceOf(address owner) view returns (uint256)',
+        args: [ALICE],
+        blockOverrides: { time: '1700000000' }
+      })
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        success: true,
+        result: '1000000000000000000',
+        gasEstimate: null,
+        gasEstimateError: expect.stringContaining('too early')
+      })
+    } finally {
+      estimateReverts = false
+    }
+  })
+
+  it('should simulate a bundle and decode results, reverts and logs', async () => {
+    const simulation = await simulateBundle('localhost', [
+      {
+        from: ALICE,
+        to: TOKEN,
+        functionAbi: 'function approve(address spender, uint256 amount) returns (bool)',
+        args: [TOKEN, '5']
+      },
+      { from: TOKEN, to: TOKEN, data: '0x23b872dd' }
+    ])
+
+    expect(simulation.blocks).toEqual([{ number: 101n, timestamp: 1700000000n }])
+    expect(simulation.calls[0]).toMatchObject({ success: true, functionName: 'approve', result: true, gasUsed: 46110n })
+    expect(simulation.calls[0]!.logs[0]).toMatchObject({ decoded: true, eventName: 'Transfer' })
+    expect(simulation.calls[1]).toMatchObject({ success: false, revert: { reason: 'insufficient allowance' } })
+
+    const [{ traceTransfers, validation, blockStateCalls }] = requests.eth_simulateV1!.at(-1) as any
+    expect({ traceTransfers, validation }).toEqual({ traceTransfers: true, validation: false })
+    expect(blockStateCalls).toHaveLength(1)
+  })
+
+  it('should explain when the RPC does not implement eth_simulateV1', async () => {
+    simulateSupported = false
+    try {
+      await expect(simulateBundle('localhost', [{ to: TOKEN, data: '0x' }])).rejects.toThrow(
+        'does not support eth_simulateV1'
+      )
+      expect(isMethodUnsupported({ code: -32601, message: 'Method not found' })).toBe(true)
+      expect(isMethodUnsupported({ code: 3, message: 'execution reverted' })).toBe(false)
+    } finally {
+      simulateSupported = true
+    }
+  })
+
+  describe('previewAssetChanges', () => {
+    const request = { from: ALICE, to: ROUTER, data: '0x12345678' as Hex, value: 100n }
+
+    it('should report approvals and sender changes from eth_simulateV1 transfer logs', async () => {
+      simulateResult = [
+        {
+          number: '0x65',
+          timestamp: '0x6553f100',
+          calls: [
+            {
+              status: '0x1',
+              gasUsed: '0x1d4c0',
+              returnData: '0x',
+              logs: [
+                log(NATIVE_TOKEN_ADDRESS, TRANSFER, ALICE, ROUTER, 100n),
+                log(TOKEN, APPROVAL, ALICE, ROUTER, 2n ** 256n - 1n),
+                log(TOKEN, TRANSFER, ROUTER, ALICE, 5n)
+              ]
+            }
+          ]
+        }
+      ]
+      try {
+        const preview = await previewAssetChanges('localhost', request)
+        expect(preview).toMatchObject({ source: 'eth_simulateV1', success: true, gasUsed: 120000n })
+        expect(preview.approvals).toMatchObject([
+          { kind: 'erc20', token: TOKEN.toLowerCase(), spender: ROUTER.toLowerCase(), unlimited: true }
+        ])
+        expect(preview.senderChanges).toEqual([
+          expect.objectContaining({ standard: 'native', token: null, delta: -100n, deltaFormatted: '-0.0000000000000001' }),
+          expect.objectContaining({ standard: 'erc20', token: TOKEN.toLowerCase(), delta: 5n })
+        ])
+      } finally {
+        simulateResult = bundleResult
+      }
+    })
+
+    it('should fall back to debug_traceCall and ignore reverted frames', async () => {
+      simulateSupported = false
+      traceResult = {
+        type: 'CALL',
+        from: ALICE,
+        to: ROUTER,
+        value: '0x64',
+        gasUsed: '0x5208',
+        output: '0x',
+        logs: [log(TOKEN, TRANSFER, ROUTER, ALICE, 5n)],
+        calls: [
+          {
+            type: 'CALL',
+            from: ROUTER,
+            to: ALICE,
+            value: '0x1',
+            error: 'execution reverted',
+            logs: [log(TOKEN, TRANSFER, ROUTER, ALICE, 1000n)]
+          }
+        ]
+      }
+      try {
+        const preview = await previewAssetChanges('localhost', request, {
+          stateOverride: [{ address: ALICE, balance: 10n ** 18n }]
+        })
+        expect(preview.source).toBe('debug_traceCall')
+        expect(preview.senderChanges.map(({ standard, delta }) => ({ standard, delta }))).toEqual([
+          { standard: 'native', delta: -100n },
+          { standard: 'erc20', delta: 5n }
+        ])
+
+        const [, , config] = requests.debug_traceCall!.at(-1) as any
+        expect(config).toEqual({
+          tracer: 'callTracer',
+          tracerConfig: { withLog: true },
+          stateOverrides: { [ALICE]: { balance: '0xde0b6b3a7640000' } }
+        })
+      } finally {
+        simulateSupported = true
+      }
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Server } from 'http'
+import { type Hex, numberToHex, pad } from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import { fetchStateDiff, parseParityStateDiff, parsePrestateDiff } from '../src/state-diff.js'
+import {
+  decodeStorageVariable,
+  mappingValueSlot,
+  type StorageLayout,
+  StorageSlotResolver
+} from '../src/storage-layout.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const ALICE = '0x00000000000000000000000000000000000a11ce'
+const BOB = '0x0000000000000000000000000000000000000b0b'
+const TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+
+const word = (value: bigint | number) => numberToHex(value, { size: 32 })
+
+// contract Token { address owner; uint96 fee; bool paused; mapping(address => uint256) balances;
+//   mapping(address => mapping(address => uint256)) allowances; struct Info { uint128 a; uint128 b; } Info info; string name; }
+const layout: StorageLayout = {
+  storage: [
+    { label: 'owner', slot: '0', offset: 0, type: 't_address' },
+    { label: 'fee', slot: '0', offset: 20, type: 't_uint96' },
+    { label: 'paused', slot: '1', offset: 0, type: 't_bool' },
+    { label: 'balances', slot: '2', offset: 0, type: 't_mapping(t_address,t_uint256)' },
+    { label: 'allowances', slot: '3', offset: 0, type: 't_mapping(t_address,t_mapping(t_address,t_uint256))' },
+    { label: 'info', slot: '4', offset: 0, type: 't_struct(Info)' },
+    { label: 'name', slot: '5', offset: 0, type: 't_string_storage' }
+  ],
+  types: {
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    t_uint96: { encoding: 'inplace', label: 'uint96', numberOfBytes: '12' },
+    t_uint128: { encoding: 'inplace', label: 'uint128', numberOfBytes: '16' },
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+    t_string_storage: { encoding: 'bytes', label: 'string', numberOfBytes: '32' },
+    't_mapping(t_address,t_uint256)': {
+      encoding: 'mapping',
+      label: 'mapping(address => uint256)',
+      numberOfBytes: '32',
+      key: 't_address',
+      value: 't_uint256'
+    },
+    't_mapping(t_address,t_mapping(t_address,t_uint256))': {
+      encoding: 'mapping',
+      label: 'mapping(address => mapping(address => uint256))',
+      numberOfBytes: '32',
+      key: 't_address',
+      value: 't_mapping(t_address,t_uint256)'
+    },
+    't_struct(Info)': {
+      encoding: 'inplace',
+      label: 'struct Token.Info',
+      numberOfBytes: '32',
+      members: [
+        { label: 'a', slot: '0', offset: 0, type: 't_uint128' },
+        { label: 'b', slot: '0', offset: 16, type: 't_uint128' }
+      ]
+    }
+  }
+}
+
+describe('State Diff', () => {
+  it('should normalize prestateTracer diff mode output', () => {
+    const accounts = parsePrestateDiff({
+      pre: {
+        [ALICE]: { balance: '0xde0b6b3a7640000', nonce: 4 },
+        [TOKEN]: { balance: '0x0', nonce: 1, code: '0x6080', storage: { '0x2': word(500), '0x3': word(9) } }
+      },
+      post: {
+        [ALICE]: { balance: '0xc7d713b49da0000', nonce: 5 },
+        [TOKEN]: { storage: { '0x2': word(300), '0x4': word(1) } },
+        [BOB]: { balance: '0x5' }
+      }
+    })
+
+    const alice = accounts.find((account) => account.address === ALICE)!
+    expect(alice).toMatchObject({ status: 'modified', nonce: { before: 4, after: 5 } })
+    expect(alice.balance!.delta).toBe(-(10n ** 17n))
+
+    const token = accounts.find((account) => account.address === TOKEN)!
+    expect(token.balance).toBeUndefined()
+    expect(token.code).toBeUndefined()
+    // Slots missing from post were cleared, slots missing from pre were zero
+    expect(token.storage).toEqual([
+      { slot: word(2), before: word(500), after: word(300) },
+      { slot: word(3), before: word(9), after: word(0) },
+      { slot: word(4), before: word(0), after: word(1) }
+    ])
+
+    expect(accounts.find((account) => account.address === BOB)).toMatchObject({
+      status: 'created',
+      balance: { before: 0n, after: 5n, delta: 5n }
+    })
+  })
+
+  it('should normalize trace_replayTransaction state diffs', () => {
+    const [token] = parseParityStateDiff({
+      [TOKEN]: {
+        balance: '=',
+        nonce: { '*': { from: '0x1', to: '0x2' } },
+        code: { '+': '0x6080' },
+        storage: { [word(2)]: { '*': { from: word(1), to: word(2) } }, [word(7)]: { '+': word(3) } }
+      }
+    })
+    expect(token).toMatchObject({ status: 'modified', nonce: { before: 1, after: 2 } })
+    expect(token!.balance).toBeUndefined()
+    expect(token!.code!.after).toMatchObject({ size: 2 })
+    expect(token!.storage.map((change) => change.before)).toEqual([word(1), word(0)])
+  })
+
+  it('should name packed variables, mapping entries and struct members from the storage layout', () => {
+    const resolver = new StorageSlotResolver(layout, [ALICE, pad(BOB)])
+
+    const packed = resolver.resolve(0n)
+    expect(packed.map((variable) => variable.name)).toEqual(['owner', 'fee'])
+    const slot0 = `0x${'0000000000000000000003e8'}${ALICE.slice(2)}` as Hex
+    expect(decodeStorageVariable(slot0, packed[0]!)).toBe('0x00000000000000000000000000000000000A11cE')
+    expect(decodeStorageVariable(slot0, packed[1]!)).toBe(1000n)
+
+    const balance = mappingValueSlot(2n, pad(ALICE))
+    expect(resolver.resolve(balance)).toEqual([
+      { name: 'balances[0x00000000000000000000000000000000000A11cE]', type: 'uint256', offset: 0, numberOfBytes: 32 }
+    ])
+
+    // Addresses are also recognized inside 32-byte candidates such as log topics
+    const allowance = mappingValueSlot(mappingValueSlot(3n, pad(ALICE)), pad(BOB))
+    expect(resolver.resolve(allowance)[0]!.name).toBe(
+      'allowances[0x00000000000000000000000000000000000A11cE][0x0000000000000000000000000000000000000B0b]'
+    )
+
+    const info = resolver.resolve(4n)
+    expect(info.map((variable) => variable.name)).toEqual(['info.a', 'info.b'])
+    expect(decodeStorageVariable(`0x${'0'.repeat(31)}7${'0'.repeat(31)}9`, info[1]!)).toBe(7n)
+
+    const [name] = resolver.resolve(5n)
+    expect(decodeStorageVariable(`0x${'55534443'.padEnd(62, '0')}08`, name!)).toBe('USDC')
+    expect(resolver.resolve(mappingValueSlot(2n, pad('0x1234')))).toEqual([])
+  })
+
+  describe('fetchStateDiff', () => {
+    const hash = `0x${'ab'.repeat(32)}` as Hex
+    let server: Server
+
+    beforeAll(async () => {
+      const started = await startFakeRpc({
+        eth_chainId: () => '0x7a69',
+        debug_traceTransaction: () => {
+          throw { code: -32601, message: 'the method debug_traceTransaction does not exist' }
+        },
+        trace_replayTransaction: ([, types]) => {
+          expect(types).toEqual(['stateDiff'])
+          return {
+            output: '0x',
+            stateDiff: {
+              [ALICE]: { balance: { '*': { from: '0x10', to: '0x4' } }, nonce: '=', code: '=', storage: {} }
+            }
+          }
+        }
+      })
+      server = started.server
+      initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [started.url] } } })
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('should fall back to trace_replayTransaction without the prestate tracer', async () => {
+      const { diff } = await fetchStateDiff('localhost', hash)
+      expect(diff?.source).toBe('trace_replayTransaction')
+      expect(diff?.accounts[0]).toMatchObject({ address: ALICE, balance: { before: 16n, after: 4n, delta: -12n } })
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Server } from 'http'
+import { type Hex, hexToBigInt, keccak256, numberToHex, pad, stringToHex } from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import {
+  dynamicDataSlot,
+  mappingValueSlot,
+  parseStoragePath,
+  readStorageValue,
+  resolveStoragePath,
+  type StorageLayout
+} from '../src/storage-layout.js'
+import advancedTools from '../src/tools/advanced.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const ALICE = '0x00000000000000000000000000000000000a11ce'
+const VAULT = '0x000000000000000000000000000000000000c0de'
+
+// contract Vault { struct Position { uint128 amount; uint64 since; bool locked; } mapping(address => Position) positions;
+//   address[] owners; mapping(string => uint256) scores; uint8[4] levels; string description; }
+const layout: StorageLayout = {
+  storage: [
+    { label: 'positions', slot: '0', offset: 0, type: 't_mapping(t_address,t_struct(Position))' },
+    { label: 'owners', slot: '1', offset: 0, type: 't_array(t_address)dyn_storage' },
+    { label: 'scores', slot: '2', offset: 0, type: 't_mapping(t_string_memory_ptr,t_uint256)' },
+    { label: 'levels', slot: '3', offset: 0, type: 't_array(t_uint8)4_storage' },
+    { label: 'description', slot: '4', offset: 0, type: 't_string_storage' }
+  ],
+  types: {
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+    t_uint8: { encoding: 'inplace', label: 'uint8', numberOfBytes: '1' },
+    t_uint64: { encoding: 'inplace', label: 'uint64', numberOfBytes: '8' },
+    t_uint128: { encoding: 'inplace', label: 'uint128', numberOfBytes: '16' },
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    t_string_memory_ptr: { encoding: 'bytes', label: 'string', numberOfBytes: '32' },
+    t_string_storage: { encoding: 'bytes', label: 'string', numberOfBytes: '32' },
+    't_array(t_address)dyn_storage': { encoding: 'dynamic_array', label: 'address[]', numberOfBytes: '32', base: 't_address' },
+    't_array(t_uint8)4_storage': { encoding: 'inplace', label: 'uint8[4]', numberOfBytes: '32', base: 't_uint8' },
+    't_mapping(t_address,t_struct(Position))': {
+      encoding: 'mapping',
+      label: 'mapping(address => struct Vault.Position)',
+      numberOfBytes: '32',
+      key: 't_address',
+      value: 't_struct(Position)'
+    },
+    't_mapping(t_string_memory_ptr,t_uint256)': {
+      encoding: 'mapping',
+      label: 'mapping(string => uint256)',
+      numberOfBytes: '32',
+      key: 't_string_memory_ptr',
+      value: 't_uint256'
+    },
+    't_struct(Position)': {
+      encoding: 'inplace',
+      label: 'struct Vault.Position',
+      numberOfBytes: '64',
+      members: [
+        { label: 'amount', slot: '0', offset: 0, type: 't_uint128' },
+        { label: 'since', slot: '0', offset: 16, type: 't_uint64' },
+        { label: 'locked', slot: '1', offset: 0, type: 't_bool' }
+      ]
+    }
+  }
+}
+
+const word = (value: bigint | number) => numberToHex(value, { size: 32 })
+const description = 'A vault description that is longer than thirty-one bytes'
+
+function buildStorage(): Map<bigint, Hex> {
+  const storage = new Map<bigint, Hex>()
+  const position = mappingValueSlot(0n, pad(ALICE))
+  // since = 1700000000 packed above amount = 5000
+  storage.set(position, word((1700000000n << 128n) | 5000n))
+  storage.set(position + 1n, word(1))
+  storage.set(1n, word(2))
+  storage.set(dynamicDataSlot(1n) + 1n, pad(VAULT))
+  storage.set(mappingValueSlot(2n, stringToHex('alice')), word(42))
+  storage.set(3n, '0x0000000000000000000000000000000000000000000000000000000004030201')
+  storage.set(4n, word(description.length * 2 + 1))
+  const data = stringToHex(description).slice(2).padEnd(128, '0')
+  storage.set(dynamicDataSlot(4n), `0x${data.slice(0, 64)}`)
+  storage.set(dynamicDataSlot(4n) + 1n, `0x${data.slice(64)}`)
+  return storage
+}
+
+describe('Storage Layout Paths', () => {
+  const storage = buildStorage()
+  const read = async (slot: bigint) => storage.get(slot) ?? word(0)
+  const readPath = (path: string) => readStorageValue(layout, resolveStoragePath(layout, path), read)
+
+  it('should parse mapping keys, indexes and members', () => {
+    expect(parseStoragePath(`positions[${ALICE}].amount`)).toEqual({
+      root: 'positions',
+      accessors: [
+        { kind: 'index', key: ALICE },
+        { kind: 'member', name: 'amount' }
+      ]
+    })
+    expect(parseStoragePath('scores["a]b"]').accessors).toEqual([{ kind: 'index', key: 'a]b' }])
+    expect(() => parseStoragePath('positions[0x1')).toThrow('Invalid variable path')
+  })
+
+  it('should resolve and decode packed struct members, arrays and strings', async () => {
+    expect(await readPath(`positions[${ALICE}].amount`)).toBe(5000n)
+    expect(await readPath(`positions[${ALICE}].since`)).toBe(1700000000n)
+    expect(await readPath(`positions[${ALICE}]`)).toEqual({ amount: 5000n, since: 1700000000n, locked: true })
+    expect(await readPath('owners')).toEqual({ length: 2n })
+    expect(await readPath('owners[1]')).toBe('0x000000000000000000000000000000000000c0DE')
+    expect(await readPath('scores["alice"]')).toBe(42n)
+    expect(await readPath('levels[2]')).toBe(3n)
+    expect(await readPath('levels')).toEqual([1n, 2n, 3n, 4n])
+    expect(await readPath('description')).toBe(description)
+
+    const owners = resolveStoragePath(layout, 'owners[1]')
+    expect(owners.arrayBounds).toEqual([{ name: 'owners', lengthSlot: 1n, index: 1n }])
+    expect(owners.slot).toBe(hexToBigInt(keccak256(word(1))) + 1n)
+  })
+
+  it('should explain invalid paths', async () => {
+    expect(() => resolveStoragePath(layout, 'balances')).toThrow('No storage variable "balances"')
+    expect(() => resolveStoragePath(layout, 'positions[0x1234]')).toThrow('Invalid address mapping key')
+    expect(() => resolveStoragePath(layout, `positions[${ALICE}].owner`)).toThrow('has no member "owner"')
+    expect(() => resolveStoragePath(layout, 'levels[4]')).toThrow('out of bounds')
+    await expect(readPath('positions')).rejects.toThrow('add a [key]')
+  })
+
+  describe('read_storage_variable', () => {
+    let server: Server
+
+    beforeAll(async () => {
+      const started = await startFakeRpc({
+        eth_chainId: () => '0x7a69',
+        eth_blockNumber: () => '0x64',
+        eth_getStorageAt: ([, slot]) => storage.get(hexToBigInt(slot as Hex)) ?? word(0)
+      })
+      server = started.server
+      initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [started.url] } } })
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('should read a variable with a supplied layout and check dynamic array bounds', async () => {
+      const result = await advancedTools.read_storage_variable.handler({
+        chain: 'localhost',
+        address: VAULT,
+        path: `positions[${ALICE}].since`,
+        storageLayout: JSON.stringify({ storageLayout: layout })
+      })
+      const data = JSON.parse(result.content[0].text)
+      expect(data).toMatchObject({ layoutSource: 'provided', type: 'uint64', offset: 16, value: '1700000000' })
+
+      await expect(
+        advancedTools.read_storage_variable.handler({
+          chain: 'localhost',
+          address: VAULT,
+          path: 'owners[2]',
+          storageLayout: JSON.stringify(layout)
+        })
+      ).rejects.toThrow('Index 2 out of bounds for owners (length 2)')
+    })
+  })
+})
@@ -85,6 +85,24 @@ describe('Contract Tools', () => {
       expect(BigInt(data.results[0].result)).toBeGreaterThan(0n)
     }, 30000)
 
+    it('should resolve the ABI from functionName', async () => {
+      const USDC_CONTRACT = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+      const HOLDER_ADDRESS = '0x28C6c06298d514Db089934071355E5743bf21d60' // Binance 14
+
+      const result = await contractTools.call_contract_function.handler({
+        calls: [
+          { chain: 'mainnet', contractAddress: USDC_CONTRACT, functionName: 'decimals' },
+          { chain: 'mainnet', contractAddress: USDC_CONTRACT, functionName: 'balanceOf', args: [HOLDER_ADDRESS] }
+        ]
+      })
+
+      const data = JSON.parse(result.content[0].text)
+      expect(data.results[0].success).toBe(true)
+      expect(data.results[0].result).toBe(6)
+      expect(data.results[0].signature).toBe('decimals()')
+      expect(data.results[1].signature).toBe('balanceOf(address)')
+    }, 30000)
+
     it('should call USDC name, symbol, and decimals functions in batch', async () => {
       const USDC_CONTRACT = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
 
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest'
+import { encodeAbiParameters, encodeEventTopics, keccak256, parseAbi, toBytes } from 'viem'
 import logsTools from '../../src/tools/logs.js'
 
 describe('Logs Tools', () => {
@@ -213,4 +214,57 @@ describe('Logs Tools', () => {
       }
     }, 30000)
   })
+
+  describe('decode_logs', () => {
+    const TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+    const FROM = '0x28c6c06298d514db089934071355e5743bf21d60'
+    const TO = '0x0000000000000000000000000000000000000001'
+
+    it('should decode standard events and tell ERC20 from ERC721 transfers', async () => {
+      const [erc20, erc721] = parseAbi([
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+      ])
+
+      const result = await logsTools.decode_logs.handler({
+        logs: [
+          {
+            address: TOKEN,
+            topics: encodeEventTopics({ abi: [erc20], args: { from: FROM, to: TO } }),
+            data: encodeAbiParameters([{ type: 'uint256' }], [1000000n])
+          },
+          {
+            address: TOKEN,
+            topics: encodeEventTopics({ abi: [erc721], args: { from: FROM, to: TO, tokenId: 7n } }),
+            data: '0x'
+          },
+          { address: TOKEN, topics: [keccak256(toBytes('Unknown(uint256)'))], data: '0x' }
+        ]
+      })
+
+      const data = JSON.parse(result.content[0].text)
+      expect(data).toMatchObject({ total: 3, decoded: 2, undecoded: 1 })
+      expect(data.logs[0].args.map((arg: { name: string }) => arg.name)).toEqual(['from', 'to', 'value'])
+      expect(data.logs[0].args[2].value).toBe('1000000')
+      expect(data.logs[1].args[2]).toEqual({ name: 'tokenId', type: 'uint256', indexed: true, value: '7' })
+      expect(data.logs[2]).toMatchObject({ decoded: false, error: 'Unknown event topic0' })
+    })
+
+    it('should prefer a supplied ABI', async () => {
+      const [event] = parseAbi(['event Staked(address indexed user, uint256 amount)'])
+      const result = await logsTools.decode_logs.handler({
+        abi: 'event Staked(address indexed user, uint256 amount)',
+        logs: [
+          {
+            address: TOKEN,
+            topics: encodeEventTopics({ abi: [event], args: { user: FROM } }),
+            data: encodeAbiParameters([{ type: 'uint256' }], [5n])
+          }
+        ]
+      })
+
+      const [log] = JSON.parse(result.content[0].text).logs
+      expect(log).toMatchObject({ decoded: true, eventName: 'Staked', abiSource: 'provided' })
+    })
+  })
 })
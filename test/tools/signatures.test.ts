@@ -1,6 +1,10 @@
 import { describe, it, expect } from "vitest";
+import { encodeFunctionData, parseAbi, toFunctionSelector } from "viem";
 import signatureTools from "../../src/tools/signatures.js";
 
+const TOKEN = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const RECIPIENT = "0x28C6c06298d514Db089934071355E5743bf21d60";
+
 describe("Signature Tools", () => {
   describe("get_function_signature", () => {
     it("should generate correct signature for transfer function", async () => {
@@ -129,4 +133,127 @@ describe("Signature Tools", () => {
       expect(data[0].inputs).toHaveLength(0);
     });
   });
+
+  describe("decode_calldata", () => {
+    const transfer = encodeFunctionData({
+      abi: parseAbi(["function transfer(address to, uint256 amount)"]),
+      args: [RECIPIENT, 1000000n],
+    });
+
+    it("should decode standard functions from the local signature database", async () => {
+      const result = await signatureTools.decode_calldata.handler({ data: transfer, maxDepth: 3 });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.success).toBe(true);
+      expect(data.functionName).toBe("transfer");
+      expect(data.abiSource).toBe("local");
+      expect(data.args).toEqual([
+        { name: "to", type: "address", value: RECIPIENT },
+        { name: "amount", type: "uint256", value: "1000000" },
+      ]);
+    });
+
+    it("should prefer a supplied ABI", async () => {
+      const data = encodeFunctionData({
+        abi: parseAbi(["function setFee(uint16 bps)"]),
+        args: [30],
+      });
+      const result = await signatureTools.decode_calldata.handler({
+        data,
+        abi: "function setFee(uint16 bps)",
+        maxDepth: 3,
+      });
+
+      const decoded = JSON.parse(result.content[0].text);
+      expect(decoded.abiSource).toBe("provided");
+      expect(decoded.args[0]).toEqual({ name: "bps", type: "uint16", value: 30 });
+    });
+
+    it("should recursively decode Multicall3 and Safe calls", async () => {
+      const aggregate3 = encodeFunctionData({
+        abi: parseAbi(["function aggregate3((address target, bool allowFailure, bytes callData)[] calls)"]),
+        args: [[{ target: TOKEN, allowFailure: false, callData: transfer }]],
+      });
+      const execTransaction = encodeFunctionData({
+        abi: parseAbi([
+          "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)",
+        ]),
+        args: [
+          "0xcA11bde05977b3631167028862bE2a173976CA11",
+          0n,
+          aggregate3,
+          1,
+          0n,
+          0n,
+          0n,
+          "0x0000000000000000000000000000000000000000",
+          "0x0000000000000000000000000000000000000000",
+          "0x",
+        ],
+      });
+
+      const result = await signatureTools.decode_calldata.handler({ data: execTransaction, maxDepth: 3 });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.functionName).toBe("execTransaction");
+      const multicall = data.args.find((arg: { name: string }) => arg.name === "data").decoded;
+      expect(multicall.functionName).toBe("aggregate3");
+      expect(multicall.target).toBe("0xcA11bde05977b3631167028862bE2a173976CA11");
+      const [inner] = multicall.args[0].decoded;
+      expect(inner.functionName).toBe("transfer");
+      expect(inner.target).toBe(TOKEN);
+    });
+
+    it("should report unknown selectors", async () => {
+      const result = await signatureTools.decode_calldata.handler({ data: "0xdeadbeef", maxDepth: 3 });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.success).toBe(false);
+      expect(data.selector).toBe("0xdeadbeef");
+      expect(data.error).toBe("Unknown function selector");
+    });
+  });
+
+  describe("lookup_signature", () => {
+    it("should map selectors and topic0 hashes to bundled signatures", async () => {
+      const result = await signatureTools.lookup_signature.handler({
+        hashes: [
+          "0xa9059cbb",
+          "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+          "0xe450d38c",
+          "0x12345678",
+        ],
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.found).toBe(3);
+      expect(data.results[0].matches[0]).toEqual({
+        type: "function",
+        signature: "transfer(address,uint256)",
+        text: "function transfer(address to, uint256 amount) returns (bool)",
+        source: "builtin",
+      });
+      expect(data.results[1].matches.map((match: { text: string }) => match.text)).toEqual([
+        "event Transfer(address indexed from, address indexed to, uint256 value)",
+        "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+      ]);
+      expect(data.results[2].matches[0].type).toBe("error");
+      expect(data.results[3].matches).toEqual([]);
+    });
+
+    it("should find signatures added to the database", async () => {
+      const added = await signatureTools.add_signatures.handler({
+        abi: "function claimRewards(address account, uint256[] ids)\nevent RewardsClaimed(address indexed account, uint256 amount)",
+      });
+      expect(JSON.parse(added.content[0].text).added).toBe(2);
+
+      const selector = toFunctionSelector("claimRewards(address,uint256[])");
+      const result = await signatureTools.lookup_signature.handler({ hashes: [selector] });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.results[0].matches[0]).toMatchObject({ signature: "claimRewards(address,uint256[])", source: "indexed" });
+
+      const again = await signatureTools.add_signatures.handler({ abi: "function claimRewards(address account, uint256[] ids)" });
+      expect(JSON.parse(again.content[0].text).added).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { encodeAbiParameters, encodeFunctionData, encodeFunctionResult, parseAbi } from 'viem'
+import { buildCallTree, type CallFrame } from '../src/trace.js'
+
+const USER = '0x00000000000000000000000000000000000A11cE'
+const ROUTER = '0x000000000000000000000000000000000000c0DE'
+const TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+
+const erc20 = parseAbi([
+  'function balanceOf(address account) view returns (uint256)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)'
+])
+
+const balanceOf = encodeFunctionData({ abi: erc20, functionName: 'balanceOf', args: [USER] })
+const revertData = `0x08c379a0${encodeAbiParameters([{ type: 'string' }], ['insufficient allowance']).slice(2)}` as const
+
+function staticBalanceCall(): CallFrame {
+  return {
+    type: 'STATICCALL',
+    from: ROUTER,
+    to: TOKEN,
+    gasUsed: '0x9c4',
+    input: balanceOf,
+    output: encodeFunctionResult({ abi: erc20, functionName: 'balanceOf', result: 1000n })
+  }
+}
+
+const trace: CallFrame = {
+  type: 'CALL',
+  from: USER,
+  to: ROUTER,
+  value: '0x0',
+  gasUsed: '0x7530',
+  input: '0x12345678',
+  output: revertData,
+  error: 'execution reverted',
+  calls: [
+    staticBalanceCall(),
+    staticBalanceCall(),
+    staticBalanceCall(),
+    {
+      type: 'CALL',
+      from: ROUTER,
+      to: TOKEN,
+      gasUsed: '0x1388',
+      input: encodeFunctionData({ abi: erc20, functionName: 'transferFrom', args: [USER, ROUTER, 5000n] }),
+      output: revertData,
+      error: 'execution reverted',
+      calls: [{ type: 'STATICCALL', from: TOKEN, to: ROUTER, gasUsed: '0x64', input: '0x', calls: [] }]
+    }
+  ]
+}
+
+describe('Call Tree', () => {
+  it('should decode calls, returns and gas and locate the revert', async () => {
+    const tree = await buildCallTree(trace)
+
+    expect(tree.frameCount).toBe(6)
+    // The three balanceOf calls render as one node, so the reverting transferFrom is the second child
+    expect(tree.revertPath).toEqual([1])
+    expect(tree.revert?.reason).toBe('insufficient allowance')
+    expect(tree.root).toMatchObject({ function: '0x12345678', gasUsed: 30000, revert: 'insufficient allowance' })
+    expect(tree.root.revertOrigin).toBeUndefined()
+
+    const [balance, transfer] = tree.root.calls!
+    expect(balance).toMatchObject({
+      function: 'balanceOf(address)',
+      args: { account: USER },
+      returns: 1000n,
+      repeated: 3
+    })
+    expect(transfer).toMatchObject({
+      function: 'transferFrom(address,address,uint256)',
+      args: { from: USER, to: ROUTER, amount: 5000n },
+      revertOrigin: true
+    })
+  })
+
+  it('should limit depth and keep static calls apart on request', async () => {
+    const tree = await buildCallTree(trace, { maxDepth: 0 })
+    expect(tree.root.calls).toBeUndefined()
+    expect(tree.root.omittedCalls).toBe(5)
+    expect(tree.revertPath).toEqual([])
+
+    const expanded = await buildCallTree(trace, { collapseStaticCalls: false, decode: false })
+    expect(expanded.root.calls).toHaveLength(4)
+    expect(expanded.revertPath).toEqual([3])
+    expect(expanded.root.calls![3]!.revertOrigin).toBe(true)
+    expect(expanded.root.calls![0]!.function).toBe(balanceOf.slice(0, 10))
+    expect(expanded.revert).toBeUndefined()
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Server } from 'http'
+import { encodeAbiParameters, encodeEventTopics, encodeFunctionData, parseAbi } from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import advancedTools from '../src/tools/advanced.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const TX_HASH = `0x${'ab'.repeat(32)}`
+const BLOCK_HASH = `0x${'cd'.repeat(32)}`
+const SENDER = '0x28c6c06298d514db089934071355e5743bf21d60'
+const TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const RECIPIENT = '0x0000000000000000000000000000000000000001'
+
+const erc20 = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+])
+
+const transaction = {
+  hash: TX_HASH,
+  blockHash: BLOCK_HASH,
+  blockNumber: '0x64',
+  transactionIndex: '0x0',
+  from: SENDER,
+  to: TOKEN,
+  value: '0x0',
+  nonce: '0x7',
+  gas: '0x186a0',
+  type: '0x2',
+  maxFeePerGas: '0x77359400',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  gasPrice: '0x59682f00',
+  chainId: '0x7a69',
+  accessList: [],
+  input: encodeFunctionData({ abi: erc20, functionName: 'transfer', args: [RECIPIENT, 5000000n] }),
+  v: '0x0',
+  r: `0x${'11'.repeat(32)}`,
+  s: `0x${'22'.repeat(32)}`,
+  yParity: '0x0'
+}
+
+const receipt = {
+  transactionHash: TX_HASH,
+  blockHash: BLOCK_HASH,
+  blockNumber: '0x64',
+  transactionIndex: '0x0',
+  from: SENDER,
+  to: TOKEN,
+  status: '0x1',
+  type: '0x2',
+  gasUsed: '0xc350', // 50000
+  cumulativeGasUsed: '0xc350',
+  effectiveGasPrice: '0x59682f00', // 1.5 gwei
+  contractAddress: null,
+  logsBloom: `0x${'00'.repeat(256)}`,
+  // OP-stack L1 data fee
+  l1Fee: '0x3e8',
+  l1GasUsed: '0x640',
+  l1GasPrice: '0x1',
+  logs: [
+    {
+      address: TOKEN,
+      topics: encodeEventTopics({ abi: erc20, eventName: 'Transfer', args: { from: SENDER, to: RECIPIENT } }),
+      data: encodeAbiParameters([{ type: 'uint256' }], [5000000n]),
+      blockNumber: '0x64',
+      blockHash: BLOCK_HASH,
+      transactionHash: TX_HASH,
+      transactionIndex: '0x0',
+      logIndex: '0x0',
+      removed: false
+    }
+  ]
+}
+
+describe('get_transactions', () => {
+  let server: Server
+
+  beforeAll(async () => {
+    const started = await startFakeRpc({
+      eth_chainId: () => '0x7a69',
+      eth_getTransactionByHash: ([hash]) => (hash === TX_HASH ? transaction : null),
+      eth_getTransactionReceipt: ([hash]) => (hash === TX_HASH ? receipt : null),
+      eth_getBlockByNumber: () => ({
+        number: '0x64',
+        hash: BLOCK_HASH,
+        timestamp: '0x6553f100',
+        baseFeePerGas: '0x3b9aca00', // 1 gwei
+        transactions: []
+      })
+    })
+    server = started.server
+    initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [started.url] } } })
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should return status, fee breakdown and decoded input and logs', async () => {
+    const result = await advancedTools.get_transactions.handler({
+      chain: 'localhost',
+      hashes: [TX_HASH],
+      decode: true,
+      includeLogs: true
+    })
+
+    const data = JSON.parse(result.content[0].text)
+    expect(data.found).toBe(1)
+    const [tx] = data.transactions
+    expect(tx).toMatchObject({ success: true, status: 'success', blockNumber: '100', nonce: 7 })
+    expect(tx.fees).toMatchObject({
+      gasUsed: '50000',
+      baseFeePerGas: '1000000000',
+      priorityFeePerGas: '500000000',
+      burnedFee: '50000000000000',
+      priorityFee: '25000000000000',
+      executionFee: '75000000000000',
+      l1Fee: '1000',
+      totalFee: '75000000001000'
+    })
+    expect(tx.decodedInput).toMatchObject({ functionName: 'transfer', abiSource: 'local' })
+    expect(tx.logs[0]).toMatchObject({ decoded: true, eventName: 'Transfer' })
+  })
+
+  it('should report missing transactions per hash', async () => {
+    const result = await advancedTools.get_transactions.handler({
+      chain: 'localhost',
+      hashes: [`0x${'ef'.repeat(32)}`, 'not-a-hash'],
+      decode: false,
+      includeLogs: false
+    })
+
+    const data = JSON.parse(result.content[0].text)
+    expect(data.found).toBe(0)
+    expect(data.transactions[1].error).toBe('Invalid transaction hash')
+    expect(data.transactions[0].success).toBe(false)
+  })
+})
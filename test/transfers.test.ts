@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import type { Server } from 'http'
+import { encodeAbiParameters, encodeEventTopics, type Hex, maxUint256, parseAbi, zeroAddress } from 'viem'
+import { initializeClientManager } from '../src/client.js'
+import {
+  analyzeTransactionTransfers,
+  computeBalanceChanges,
+  extractNativeTransfers,
+  extractTokenApprovals,
+  extractTokenTransfers,
+  NATIVE_TOKEN_ADDRESS
+} from '../src/transfers.js'
+import { startFakeRpc } from './fake-rpc.js'
+
+const ALICE = '0x00000000000000000000000000000000000a11ce'
+const BOB = '0x0000000000000000000000000000000000000b0b'
+const ROUTER = '0x000000000000000000000000000000000000c0de'
+const TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const NFT = '0xbc4ca0eda7647a8ab7c2061c2e118a18a936f13d'
+
+const events = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event TransferNft(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+  'event Deposit(address indexed account, uint256 amount)',
+  'event Withdrawal(address indexed account, uint256 amount)'
+])
+
+function erc20Log(from: string, to: string, value: bigint) {
+  return {
+    address: TOKEN,
+    topics: encodeEventTopics({ abi: events, eventName: 'Transfer', args: { from: from as Hex, to: to as Hex } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value])
+  }
+}
+
+function erc721Log(from: string, to: string, tokenId: bigint) {
+  const [, ...indexed] = encodeEventTopics({
+    abi: events,
+    eventName: 'TransferNft',
+    args: { from: from as Hex, to: to as Hex, tokenId }
+  })
+  // Same topic0 as ERC20 Transfer, with the token id as a third indexed topic
+  return { address: NFT, topics: [erc20Log(from, to, 0n).topics[0], ...indexed] as Hex[], data: '0x' as Hex }
+}
+
+describe('Transfer Analysis', () => {
+  it('should extract ERC20, ERC721 and ERC1155 batch transfers from logs', () => {
+    const batch = {
+      address: NFT,
+      topics: encodeEventTopics({
+        abi: events,
+        eventName: 'TransferBatch',
+        args: { operator: ALICE as Hex, from: ALICE as Hex, to: BOB as Hex }
+      }),
+      data: encodeAbiParameters([{ type: 'uint256[]' }, { type: 'uint256[]' }], [[1n, 2n], [10n, 20n]])
+    }
+
+    const transfers = extractTokenTransfers([erc20Log(ALICE, BOB, 500n), erc721Log(BOB, ALICE, 42n), batch])
+    expect(transfers.map((transfer) => transfer.standard)).toEqual(['erc20', 'erc721', 'erc1155', 'erc1155'])
+    expect(transfers[0]).toMatchObject({ token: TOKEN, from: ALICE, to: BOB, amount: 500n, logIndex: 0 })
+    expect(transfers[1]).toMatchObject({ from: BOB, to: ALICE, tokenId: 42n, amount: 1n })
+    expect(transfers[3]).toMatchObject({ tokenId: 2n, amount: 20n })
+  })
+
+  it('should extract approvals and ERC-7528 native transfers from simulated logs', () => {
+    const approval = {
+      address: TOKEN,
+      topics: encodeEventTopics({ abi: events, eventName: 'Approval', args: { owner: ALICE as Hex, spender: ROUTER as Hex } }),
+      data: encodeAbiParameters([{ type: 'uint256' }], [maxUint256])
+    }
+    const operator = {
+      address: NFT,
+      topics: encodeEventTopics({ abi: events, eventName: 'ApprovalForAll', args: { owner: ALICE as Hex, operator: ROUTER as Hex } }),
+      data: encodeAbiParameters([{ type: 'bool' }], [true])
+    }
+
+    expect(extractTokenApprovals([approval, erc20Log(ALICE, BOB, 1n), operator])).toEqual([
+      { kind: 'erc20', token: TOKEN, owner: ALICE, spender: ROUTER, amount: maxUint256, unlimited: true, logIndex: 0 },
+      { kind: 'operator', token: NFT, owner: ALICE, spender: ROUTER, approved: true, logIndex: 2 }
+    ])
+    expect(extractTokenTransfers([{ ...erc20Log(ALICE, BOB, 7n), address: NATIVE_TOKEN_ADDRESS }])).toEqual([
+      { standard: 'native', token: null, from: ALICE, to: BOB, amount: 7n, logIndex: 0 }
+    ])
+  })
+
+  it('should only treat Deposit and Withdrawal of the wrapped native token as mints and burns', () => {
+    const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'
+    const wrap = (address: string, eventName: 'Deposit' | 'Withdrawal', amount: bigint) => ({
+      address,
+      topics: encodeEventTopics({ abi: events, eventName, args: { account: ALICE as Hex } }),
+      data: encodeAbiParameters([{ type: 'uint256' }], [amount])
+    })
+    // A staking contract emitting the same event shape is not a token
+    const logs = [wrap(WETH, 'Deposit', 5n), wrap(ROUTER, 'Deposit', 9n), wrap(WETH, 'Withdrawal', 2n)]
+
+    expect(extractTokenTransfers(logs, { wrappedNative: WETH })).toEqual([
+      { standard: 'erc20', token: WETH, from: zeroAddress, to: ALICE, amount: 5n, logIndex: 0 },
+      { standard: 'erc20', token: WETH, from: ALICE, to: zeroAddress, amount: 2n, logIndex: 2 }
+    ])
+    expect(extractTokenTransfers(logs)).toEqual([])
+  })
+
+  it('should skip value of reverted frames and delegatecalls in the call tree', () => {
+    const native = extractNativeTransfers({
+      type: 'CALL',
+      from: ALICE,
+      to: ROUTER,
+      value: '0x64',
+      calls: [
+        { type: 'CALL', from: ROUTER, to: BOB, value: '0x32' },
+        { type: 'DELEGATECALL', from: ROUTER, to: TOKEN, value: '0x64' },
+        { type: 'CALL', from: ROUTER, to: BOB, value: '0x10', error: 'execution reverted', calls: [] }
+      ]
+    })
+    expect(native.map(({ from, to, amount, depth }) => ({ from, to, amount, depth }))).toEqual([
+      { from: ALICE, to: ROUTER, amount: 100n, depth: 0 },
+      { from: ROUTER, to: BOB, amount: 50n, depth: 1 }
+    ])
+  })
+
+  it('should net balance changes per address and ignore mints and burns from the zero address', () => {
+    const changes = computeBalanceChanges([
+      { standard: 'erc20', token: TOKEN, from: ALICE, to: BOB, amount: 300n, decimals: 6 },
+      { standard: 'erc20', token: TOKEN, from: BOB, to: ALICE, amount: 100n, decimals: 6 },
+      { standard: 'erc20', token: TOKEN, from: zeroAddress, to: BOB, amount: 5n, decimals: 6 },
+      { standard: 'erc721', token: NFT, from: BOB, to: ALICE, amount: 1n, tokenId: 7n }
+    ])
+    expect(changes[ALICE]).toEqual([
+      { token: TOKEN, standard: 'erc20', symbol: undefined, delta: -200n, deltaFormatted: '-0.0002' },
+      { token: NFT, standard: 'erc721', tokenId: 7n, symbol: undefined, delta: 1n }
+    ])
+    expect(changes[BOB]![0]!.delta).toBe(205n)
+    expect(changes[zeroAddress]).toBeUndefined()
+  })
+
+  describe('analyzeTransactionTransfers', () => {
+    const hash = `0x${'ab'.repeat(32)}` as Hex
+    let server: Server
+    let traceSupported = true
+
+    beforeAll(async () => {
+      const log = erc20Log(ALICE, BOB, 1000n)
+      const started = await startFakeRpc({
+        eth_chainId: () => '0x7a69',
+        eth_getTransactionByHash: () => ({
+          hash,
+          from: ALICE,
+          to: ROUTER,
+          value: '0x3e8',
+          nonce: '0x0',
+          gas: '0x5208',
+          gasPrice: '0x1',
+          input: '0x',
+          type: '0x0',
+          blockNumber: '0x1',
+          blockHash: hash,
+          transactionIndex: '0x0',
+          v: '0x1b',
+          r: hash,
+          s: hash
+        }),
+        eth_getTransactionReceipt: () => ({
+          transactionHash: hash,
+          blockNumber: '0x1',
+          blockHash: hash,
+          transactionIndex: '0x0',
+          from: ALICE,
+          to: ROUTER,
+          status: '0x1',
+          type: '0x0',
+          gasUsed: '0x5208',
+          cumulativeGasUsed: '0x5208',
+          effectiveGasPrice: '0x1',
+          // OP-stack L1 data fee
+          l1Fee: '0x64',
+          contractAddress: null,
+          logsBloom: `0x${'00'.repeat(256)}`,
+          logs: [{ ...log, logIndex: '0x0', blockNumber: '0x1', blockHash: hash, transactionHash: hash, transactionIndex: '0x0' }]
+        }),
+        debug_traceTransaction: () => {
+          if (!traceSupported) throw { code: -32601, message: 'the method debug_traceTransaction does not exist' }
+          return {
+            type: 'CALL',
+            from: ALICE,
+            to: ROUTER,
+            value: '0x3e8',
+            calls: [{ type: 'CALL', from: ROUTER, to: BOB, value: '0x3e8' }]
+          }
+        }
+      })
+      server = started.server
+      initializeClientManager({ contractProviders: [], chains: { localhost: { rpc: [started.url] } } })
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('should combine internal native transfers, token transfers and the gas fee including the L1 fee', async () => {
+      const analysis = await analyzeTransactionTransfers('localhost', hash)
+      expect(analysis.nativeTransfersSource).toBe('trace')
+      expect(analysis.transfers).toHaveLength(3)
+      expect(analysis.gasFee).toEqual({ payer: ALICE, amount: 21100n })
+
+      const alice = analysis.balanceChanges[ALICE]!
+      expect(alice.find((change) => change.standard === 'native')?.delta).toBe(-22100n)
+      expect(alice.find((change) => change.token === TOKEN)?.delta).toBe(-1000n)
+      expect(analysis.balanceChanges[ROUTER]).toBeUndefined()
+      expect(analysis.balanceChanges[BOB]!.find((change) => change.standard === 'native')?.delta).toBe(1000n)
+    })
+
+    it('should fall back to the top-level value without debug tracing', async () => {
+      traceSupported = false
+      const analysis = await analyzeTransactionTransfers('localhost', hash, { includeGasFee: false })
+      expect(analysis.nativeTransfersSource).toBe('transaction')
+      expect(analysis.traceError).toContain('debug_traceTransaction')
+      expect(analysis.balanceChanges[ROUTER]![0]!.delta).toBe(1000n)
+    })
+  })
+})